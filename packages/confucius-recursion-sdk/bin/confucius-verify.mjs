@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+
+/**
+ * Proof verifier CLI entry point
+ * Forwards to compiled cli-verify.js
+ */
+
+import '../dist/cli-verify.js';
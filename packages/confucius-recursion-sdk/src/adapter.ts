@@ -5,6 +5,10 @@
  * The adapter provides host capabilities (model calls, subagent spawning, tools).
  */
 
+import { raceAbort } from './orchestrator/cancellation.js';
+import type { ModelAdapter, SpawnAdapter } from './orchestrator/hardened-orchestrator.js';
+import { addUsage, type SpawnUsage } from './orchestrator/usage.js';
+
 export interface ConfuciusAdapter {
   /**
    * Get runtime information for detection and strict mode logic
@@ -14,7 +18,7 @@ export interface ConfuciusAdapter {
   /**
    * Call the base model (for plans, analysis, single-step tasks)
    */
-  runModel(prompt: string, input: any): Promise<string | object>;
+  runModel(prompt: string, input: unknown): Promise<string | object>;
   
   /**
    * Spawn a subagent (optional - only available in true agentic runtimes)
@@ -28,7 +32,7 @@ export interface ConfuciusAdapter {
 }
 
 export interface RuntimeInfo {
-  host: 'copilot' | 'claude' | 'standalone';
+  host: 'copilot' | 'claude' | 'http' | 'standalone';
   strictMode: boolean;
   capabilities: string[];  // ['runSubagent', 'runModel', 'getTools']
   version?: string;
@@ -37,8 +41,17 @@ export interface RuntimeInfo {
 export interface SubagentRequest {
   description: string;
   prompt: string;
+  signal?: AbortSignal;  // Aborted on spawn timeout or caller cancellation
+  onUsage?: (usage: SpawnUsage) => void;  // Adapters that know token usage / cost report it here
 }
 
+/**
+ * The subagent tool an agentic host may inject into globalThis
+ */
+const hostGlobals = globalThis as {
+  runSubagent?: (args: { description: string; prompt: string }) => Promise<string>;
+};
+
 /**
  * Default adapter for VS Code Copilot
  * Detects runtime capabilities from globalThis and environment
@@ -50,13 +63,13 @@ export class CopilotAdapter implements ConfuciusAdapter {
       process.env.COPILOT_AGENTIC === 'true',
       process.env.VSCODE_PID !== undefined,
       process.env.TERM_PROGRAM === 'vscode',
-      typeof (globalThis as any).runSubagent !== 'undefined'
+      typeof hostGlobals.runSubagent !== 'undefined'
     ].filter(Boolean).length;
     
     const autoStrict = signals >= 2;
     
     const capabilities: string[] = ['runModel'];
-    if (typeof (globalThis as any).runSubagent !== 'undefined') {
+    if (typeof hostGlobals.runSubagent !== 'undefined') {
       capabilities.push('runSubagent');
     }
     
@@ -68,22 +81,26 @@ export class CopilotAdapter implements ConfuciusAdapter {
     };
   }
   
-  async runModel(_prompt: string, _input: any): Promise<string | object> {
-    // In real Copilot, this would call the underlying model
-    // For now, this is a placeholder - actual implementation
-    // would integrate with Copilot's model API
+  async runModel(prompt: string, _input: unknown): Promise<string | object> {
+    // Copilot exposes no direct model API; a one-shot subagent answers instead
+    if (typeof hostGlobals.runSubagent !== 'undefined') {
+      return await hostGlobals.runSubagent({ description: 'model', prompt });
+    }
     throw new Error('runModel not implemented - use runSubagent in Copilot');
   }
   
   async runSubagent(args: SubagentRequest): Promise<string> {
-    if (typeof (globalThis as any).runSubagent === 'undefined') {
+    if (typeof hostGlobals.runSubagent === 'undefined') {
       throw new Error('runSubagent not available in this runtime');
     }
     
-    return await (globalThis as any).runSubagent({
+    const call: Promise<string> = hostGlobals.runSubagent({
       description: args.description,
       prompt: args.prompt
     });
+
+    // The host tool takes no signal; stop waiting on it when aborted
+    return args.signal ? await raceAbort(call, args.signal) : await call;
   }
   
   async getTools(): Promise<string[]> {
@@ -92,6 +109,99 @@ export class CopilotAdapter implements ConfuciusAdapter {
   }
 }
 
+/**
+ * How ClaudeAdapter reaches the host's subagent (and optionally model) tools
+ *
+ * Plug in whatever the host exposes: an injected tool function, an SDK
+ * client, or a headless CLI invocation.
+ */
+export interface ClaudeTransport {
+  runSubagent(args: SubagentRequest): Promise<string>;
+  runModel?(prompt: string, input: unknown): Promise<string | object>;
+}
+
+/**
+ * Adapter for Claude agentic hosts
+ *
+ * Host signals (set by the host process, not by user shells):
+ * - CLAUDECODE=1
+ * - CLAUDE_CODE_ENTRYPOINT set
+ * Explicit opt-in: CLAUDE_AGENTIC=true
+ *
+ * Strict mode: explicit opt-in, or two of {host signals, transport wired}.
+ * Subagents run through the transport (default: globalThis.runSubagent);
+ * without one the adapter has no runSubagent capability, so preflight fails
+ * in strict mode instead of silently simulating.
+ */
+export class ClaudeAdapter implements ConfuciusAdapter {
+  private transport: ClaudeTransport | null;
+  private env: Record<string, string | undefined>;
+
+  runSubagent?: (args: SubagentRequest) => Promise<string>;
+
+  constructor({ transport, env = process.env }: { transport?: ClaudeTransport; env?: Record<string, string | undefined> } = {}) {
+    this.transport = transport ?? globalTransport();
+    this.env = env;
+
+    if (this.transport) {
+      const t = this.transport;
+      this.runSubagent = async (args: SubagentRequest): Promise<string> => {
+        const call = t.runSubagent(args);
+        return args.signal ? await raceAbort(call, args.signal) : await call;
+      };
+    }
+  }
+
+  /**
+   * True when the environment shows a Claude host (or explicit opt-in)
+   */
+  static detect(env: Record<string, string | undefined> = process.env): boolean {
+    return env.CLAUDECODE === '1' || Boolean(env.CLAUDE_CODE_ENTRYPOINT) || env.CLAUDE_AGENTIC === 'true';
+  }
+
+  getRuntimeInfo(): RuntimeInfo {
+    const signals = [
+      this.env.CLAUDECODE === '1',
+      Boolean(this.env.CLAUDE_CODE_ENTRYPOINT),
+      this.transport !== null
+    ].filter(Boolean).length;
+
+    const autoStrict = this.env.CLAUDE_AGENTIC === 'true' || signals >= 2;
+
+    const capabilities: string[] = this.transport ? ['runModel', 'runSubagent'] : [];
+
+    return {
+      host: 'claude',
+      strictMode: autoStrict,
+      capabilities,
+      version: this.env.CLAUDE_CODE_VERSION
+    };
+  }
+
+  async runModel(prompt: string, input: unknown): Promise<string | object> {
+    if (this.transport?.runModel) {
+      return await this.transport.runModel(prompt, input);
+    }
+    // No direct model API wired; a one-shot subagent answers instead
+    if (this.transport) {
+      return await this.transport.runSubagent({ description: 'model', prompt });
+    }
+    throw new Error('runModel not available - pass a ClaudeTransport');
+  }
+}
+
+/**
+ * Host-injected runSubagent tool, if any, as a transport
+ */
+function globalTransport(): ClaudeTransport | null {
+  const tool = hostGlobals.runSubagent;
+  if (typeof tool !== 'function') return null;
+
+  return {
+    runSubagent: ({ description, prompt }) => tool({ description, prompt })
+  };
+}
+
 /**
  * Standalone adapter for simulation and testing
  */
@@ -105,7 +215,7 @@ export class StandaloneAdapter implements ConfuciusAdapter {
     };
   }
   
-  async runModel(prompt: string, _input: any): Promise<string | object> {
+  async runModel(prompt: string, _input: unknown): Promise<string | object> {
     // Simulation returns mock data
     return { simulated: true, prompt: prompt.substring(0, 100) };
   }
@@ -113,10 +223,66 @@ export class StandaloneAdapter implements ConfuciusAdapter {
   // No runSubagent in standalone
 }
 
+/**
+ * Bridge a ConfuciusAdapter into the orchestrator's SpawnAdapter
+ *
+ * Prefers runSubagent; falls back to runModel when the host has no subagents.
+ * String responses are parsed as JSON; unparseable text is kept under `raw`
+ * so the quality gate, not the bridge, rejects it. Usage reported through
+ * onUsage is summed into SpawnResult.usage.
+ */
+export function createSpawnAdapter(adapter: ConfuciusAdapter): SpawnAdapter {
+  const simulated = adapter.getRuntimeInfo().host === 'standalone';
+
+  return async ({ agentName, prompt, input, signal }) => {
+    const reported: SpawnUsage[] = [];
+    const raw = typeof adapter.runSubagent === 'function'
+      ? await adapter.runSubagent({ description: agentName, prompt, signal, onUsage: usage => reported.push(usage) })
+      : await adapter.runModel(prompt, input);
+
+    return {
+      runId: `${agentName}_${Date.now()}`,
+      output: parseModelOutput(raw),
+      simulated,
+      ...(reported.length ? { usage: addUsage(...reported) } : {})
+    };
+  };
+}
+
+/**
+ * Bridge ConfuciusAdapter.runModel into the orchestrator's ModelAdapter (planning)
+ */
+export function createModelAdapter(adapter: ConfuciusAdapter): ModelAdapter {
+  return async ({ prompt, input, signal }) => {
+    const call = adapter.runModel(prompt, input);
+    return parseModelOutput(signal ? await raceAbort(call, signal) : await call);
+  };
+}
+
+/**
+ * Parse string responses as JSON; keep unparseable text under `raw`
+ */
+export function parseModelOutput(raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw;
+
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    return { raw, parseError: err instanceof Error ? err.message : String(err) };
+  }
+}
+
 /**
  * Create appropriate adapter based on environment detection
+ *
+ * Claude host signals win over VS Code ones: a Claude host may itself run
+ * inside a VS Code terminal.
  */
-export function createAdapter(): ConfuciusAdapter {
+export function createAdapter({ claudeTransport }: { claudeTransport?: ClaudeTransport } = {}): ConfuciusAdapter {
+  if (ClaudeAdapter.detect()) {
+    return new ClaudeAdapter({ transport: claudeTransport });
+  }
+
   // Detect if we're in Copilot
   if (process.env.VSCODE_PID || process.env.COPILOT_AGENTIC === 'true') {
     return new CopilotAdapter();
@@ -1,14 +1,16 @@
 /**
  * Asleep Detector - Verifies engagement evidence in proof results
- * 
- * Two modes:
- * - Strict mode (agentic IDE): Requires full engagement (preflight, plan, spawn, verification)
- * - Local mode (dev): Requires minimal engagement (trace exists, some activity)
+ *
+ * The verdict comes from an engagement contract (see contract.ts):
+ * - Strict mode (agentic IDE): the `agentic` preset - preflight, plan, spawn, verification, real runtime
+ * - Local mode (dev): the `local` preset - trace exists, some activity
+ * - Or a named / custom contract, e.g. one declared in .confucius/config.json
+ *
+ * The engagement flags are descriptive only; `failedClauses` says why a
+ * result was judged asleep.
  */
 
-function hasAnyKind(trace: any[], kinds: string[]): boolean {
-  return trace.some((t: any) => kinds.includes(t?.kind));
-}
+import { countEvents, evaluateContract, resolveContract, type ClauseResult, type ContractDefinition } from './contract.js';
 
 export interface EngagementFlags {
   hasPreflightOk: boolean;
@@ -24,61 +26,40 @@ export interface AsleepDetectorResult {
   verificationOk: boolean;
   engagement: EngagementFlags;
   traceEvents: string[];
-  contractMode: 'agentic' | 'local';
+  contractMode: 'agentic' | 'local' | (string & {});  // Name of the contract applied
   contractSatisfied: boolean;
+  failedClauses: ClauseResult[];
 }
 
-export function asleepDetector(result: unknown, strictMode: boolean = false): AsleepDetectorResult {
-  const trace = Array.isArray((result as any)?.trace) ? (result as any).trace : [];
-  const verificationOk = (result as any)?.verification?.allSignaturesValid === true;
-  const runtimeMode = (result as any)?.runtimeMode || 'unknown';
+/**
+ * @param contract - strict mode flag (agentic / local preset), a contract name, or a definition
+ */
+export function asleepDetector(result: unknown, contract: boolean | string | ContractDefinition = false): AsleepDetectorResult {
+  const definition = typeof contract === 'boolean'
+    ? resolveContract(undefined, contract ? 'agentic' : 'local', { contract: undefined, contracts: {} })
+    : resolveContract(contract, 'local');
+  const verdict = evaluateContract(result, definition);
 
-  // Engagement flags
-  const hasPreflightOk = hasAnyKind(trace, ["preflight_ok"]);
-  const hasPlanCreated = hasAnyKind(trace, ["plan_created"]);
-  const hasProofVerified = verificationOk && trace.length > 0;
-  const hasSpawnOrRequest = hasAnyKind(trace, ["spawn", "spawn_request_detected", "supervisor_spawn"]);
-  const hasQualityGatePass = hasAnyKind(trace, ["quality_gate_pass"]);
+  const fields = result as { trace?: unknown; verification?: { allSignaturesValid?: unknown } } | null | undefined;
+  const trace: unknown[] = Array.isArray(fields?.trace) ? fields.trace : [];
+  const verificationOk = fields?.verification?.allSignaturesValid === true;
 
   const engagement: EngagementFlags = {
-    hasPreflightOk,
-    hasPlanCreated,
-    hasProofVerified,
-    hasSpawnOrRequest,
-    hasQualityGatePass
+    hasPreflightOk: countEvents(trace, ["preflight_ok"]) > 0,
+    hasPlanCreated: countEvents(trace, ["plan_created"]) > 0,
+    hasProofVerified: verificationOk && trace.length > 0,
+    hasSpawnOrRequest: countEvents(trace, ["spawn", "spawn_request_detected", "supervisor_spawn"]) > 0,
+    hasQualityGatePass: countEvents(trace, ["quality_gate_pass"]) > 0
   };
 
-  const contractMode = strictMode ? 'agentic' : 'local';
-
-  let contractSatisfied: boolean;
-
-  if (strictMode) {
-    // Agentic mode: strict requirements
-    contractSatisfied = 
-      hasPreflightOk &&
-      hasPlanCreated &&
-      hasSpawnOrRequest &&
-      verificationOk &&
-      runtimeMode === 'real';
-  } else {
-    // Local mode: minimal requirements
-    const hasMinimalActivity = 
-      hasSpawnOrRequest ||
-      hasAnyKind(trace, ["merge", "return"]) ||
-      hasQualityGatePass;
-    
-    contractSatisfied = 
-      trace.length > 0 &&
-      hasMinimalActivity;
-  }
-
   return {
-    ok: contractSatisfied,
-    traceCount: trace.length,
+    ok: verdict.ok,
+    traceCount: verdict.traceCount,
     verificationOk,
     engagement,
-    traceEvents: trace.map((t: any) => t?.kind).filter(Boolean),
-    contractMode,
-    contractSatisfied
+    traceEvents: verdict.traceEvents,
+    contractMode: verdict.contract,
+    contractSatisfied: verdict.ok,
+    failedClauses: verdict.failedClauses
   };
 }
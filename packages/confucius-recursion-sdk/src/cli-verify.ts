@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+
+/**
+ * confucius-verify - audit a stored proof artifact
+ *
+ * Usage:
+ *   confucius-verify <proof.json> [--secret <base64>] [--public-key <pem-file>] [--fingerprint <hex>]
+ *
+ * Keys:
+ *   hmac-sha256 proofs: --secret, else CONFUCIUS_SUPERVISOR_SECRET
+ *   ed25519 proofs:     --public-key, or --fingerprint to pin the key embedded in the proof
+ *
+ * Output: one JSON verdict on stdout.
+ *
+ * Exit codes:
+ *   0 - Proof verified
+ *   2 - Usage error or no usable key
+ *   3 - Signature or hash-chain verification failed
+ *   4 - Depth3 hashProof verification failed
+ *   6 - Proof file missing, not JSON, or without a trace
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { verifyProof, VERIFY_EXIT_CODES, type VerifyKeys } from './verify-proof.js';
+
+interface VerifyArgs {
+  proofPath: string | null;
+  secret?: string;
+  publicKeyPath?: string;
+  fingerprint?: string;
+}
+
+function parseArgs(argv: string[]): VerifyArgs | { error: string } {
+  const args: VerifyArgs = { proofPath: null };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+
+    switch (arg) {
+      case '--secret':
+        args.secret = next;
+        i += 1;
+        break;
+      case '--public-key':
+        args.publicKeyPath = next;
+        i += 1;
+        break;
+      case '--fingerprint':
+        args.fingerprint = next;
+        i += 1;
+        break;
+      default:
+        if (arg.startsWith('-')) return { error: `unknown option: ${arg}` };
+        if (args.proofPath) return { error: `unexpected argument: ${arg}` };
+        args.proofPath = arg;
+    }
+  }
+
+  if (!args.proofPath) return { error: 'missing <proof.json>' };
+  return args;
+}
+
+function emit(verdict: Record<string, unknown>, exitCode: number): never {
+  process.stdout.write(JSON.stringify(verdict, null, 2) + '\n');
+  process.exit(exitCode);
+}
+
+function main(): void {
+  const parsed = parseArgs(process.argv.slice(2));
+  if ('error' in parsed) {
+    emit({
+      ok: false,
+      errors: [{ code: 'usage', message: parsed.error }],
+      usage: 'confucius-verify <proof.json> [--secret <base64>] [--public-key <pem-file>] [--fingerprint <hex>]',
+      exitCode: VERIFY_EXIT_CODES.usage
+    }, VERIFY_EXIT_CODES.usage);
+  }
+
+  const proofPath = resolve(parsed.proofPath as string);
+
+  let proof: unknown;
+  try {
+    proof = JSON.parse(readFileSync(proofPath, 'utf-8'));
+  } catch (err) {
+    emit({
+      ok: false,
+      proofPath,
+      errors: [{ code: 'proof_unreadable', message: err instanceof Error ? err.message : String(err) }],
+      exitCode: VERIFY_EXIT_CODES.proof_unreadable
+    }, VERIFY_EXIT_CODES.proof_unreadable);
+  }
+
+  const keys: VerifyKeys = { fingerprint: parsed.fingerprint };
+  const secret = parsed.secret ?? process.env.CONFUCIUS_SUPERVISOR_SECRET;
+  if (secret) keys.secret = Buffer.from(secret, 'base64');
+
+  if (parsed.publicKeyPath) {
+    try {
+      keys.publicKey = readFileSync(resolve(parsed.publicKeyPath), 'utf-8');
+    } catch (err) {
+      emit({
+        ok: false,
+        proofPath,
+        errors: [{ code: 'key_invalid', message: err instanceof Error ? err.message : String(err) }],
+        exitCode: VERIFY_EXIT_CODES.usage
+      }, VERIFY_EXIT_CODES.usage);
+    }
+  }
+
+  const verdict = verifyProof(proof, keys);
+  emit({ proofPath, ...verdict }, verdict.exitCode);
+}
+
+main();
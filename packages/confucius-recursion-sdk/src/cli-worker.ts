@@ -6,11 +6,14 @@
  * Usage:
  *   CONFUCIUS_USE_WORKER=true node dist/cli-worker.js
  *   CONFUCIUS_FORCE_SLEEP=true node dist/cli-worker.js
+ *   CONFUCIUS_ISOLATION=process CONFUCIUS_MEMORY_LIMIT_MB=512 CONFUCIUS_TIMEOUT_MS=120000 node dist/cli-worker.js
  */
 
 import { CopilotAdapter, StandaloneAdapter } from './adapter.js';
 import { runWithWorker } from './worker/worker-manager.js';
 import { asleepDetector } from './asleep-detector.js';
+import { resolveContract } from './contract.js';
+import { createLogger } from './logging.js';
 import { mkdirSync, writeFileSync } from 'fs';
 import { dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
@@ -21,6 +24,11 @@ function getBoolEnv(name: string, fallback: boolean): boolean {
   return val === 'true' || val === '1';
 }
 
+function getNumberEnv(name: string): number | undefined {
+  const val = Number(process.env[name]);
+  return Number.isFinite(val) && val > 0 ? val : undefined;
+}
+
 function writeProofArtifact(proof: Record<string, any>): void {
   try {
     const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -47,11 +55,21 @@ async function main() {
   const strictMode = getBoolEnv('CONFUCIUS_STRICT_MODE', false);
   const forceSleep = getBoolEnv('CONFUCIUS_FORCE_SLEEP', false);
   const verbose = getBoolEnv('CONFUCIUS_VERBOSE', false);
+  const signingMode = process.env.CONFUCIUS_SIGNING_MODE === 'ed25519' ? 'ed25519' : 'hmac';
+  const isolation = process.env.CONFUCIUS_ISOLATION === 'process' ? 'process' : 'thread';
+  const memoryLimitMb = getNumberEnv('CONFUCIUS_MEMORY_LIMIT_MB');
+  const timeoutMs = getNumberEnv('CONFUCIUS_TIMEOUT_MS');
+  // CONFUCIUS_CONTRACT or .confucius/config.json may name another contract
+  const contract = resolveContract(undefined, strictMode ? 'agentic' : 'local');
+  // Everything but the result goes to stderr: stdout is parsed as JSON
+  const logger = createLogger({ name: 'confucius-worker', ...(verbose ? { level: 'debug' as const } : {}) });
   
-  console.log('⚙️  Worker Mode: Orchestration runs off main thread');
-  console.log('='.repeat(60));
-  console.log(`Strict: ${strictMode}, Force Sleep: ${forceSleep}`);
-  console.log();
+  console.error(isolation === 'process'
+    ? '⚙️  Worker Mode: Orchestration runs in a child process'
+    : '⚙️  Worker Mode: Orchestration runs off main thread');
+  console.error('='.repeat(60));
+  console.error(`Strict: ${strictMode}, Force Sleep: ${forceSleep}`);
+  console.error();
   
   // Detect adapter
   const hasRunSubagent = typeof (globalThis as any).runSubagent !== 'undefined';
@@ -60,9 +78,9 @@ async function main() {
     : new StandaloneAdapter();
   
   if (verbose) {
-    console.log('Adapter:', adapter.constructor.name);
-    console.log('Runtime:', adapter.getRuntimeInfo());
-    console.log();
+    console.error('Adapter:', adapter.constructor.name);
+    console.error('Runtime:', adapter.getRuntimeInfo());
+    console.error();
   }
   
   // Task
@@ -84,9 +102,9 @@ async function main() {
       process.exit(2);
     } else {
       // Fall back to non-worker simulated mode
-      console.log('⚠️  Worker disabled: runSubagent not available');
-      console.log('Falling back to non-worker simulation mode');
-      console.log();
+      console.error('⚠️  Worker disabled: runSubagent not available');
+      console.error('Falling back to non-worker simulation mode');
+      console.error();
       
       const { RecursionProofOrchestratorHardened } = await import('./orchestrator/hardened-orchestrator.js');
       const orch = new RecursionProofOrchestratorHardened({
@@ -96,13 +114,15 @@ async function main() {
         forceSleep,
         simulateWhenNoAdapter: true,
         spawnAdapter: undefined,
-        verbose
+        signingMode,
+        verbose,
+        logger
       });
       
-      const orchResult = await orch.runDepth3Proof();
-      const sleep = asleepDetector(orchResult, strictMode);
+      const orchResult = await orch.runDepth3Proof({ plan: true, task });
+      const sleep = asleepDetector(orchResult, contract);
       
-      const contractMode = strictMode ? 'agentic' : 'local';
+      const contractMode = sleep.contractMode;
       const proofOk = orchResult.ok === true;
       let contractOk = sleep.ok;
       
@@ -122,8 +142,10 @@ async function main() {
         asleepDetector: sleep,
         engagement: sleep.engagement,
         verification: orchResult.verification || null,
+        signature: orchResult.signature || null,
         deepestDepthReached: orchResult.deepestDepthReached || 0,
         spawnsExecuted: orchResult.spawnsExecuted || 0,
+        usage: orchResult.usage || null,
         trace: orchResult.trace || [],
         timestamp: new Date().toISOString()
       };
@@ -159,8 +181,13 @@ async function main() {
       strictMode,
       forceSleep,
       verbose,
+      logger,
       maxDepth: 4,
-      maxSpawns: 10
+      maxSpawns: 10,
+      signingMode,
+      isolation,
+      memoryLimitMb,
+      timeoutMs
     });
     
     if (!result.ok) {
@@ -172,18 +199,24 @@ async function main() {
       const output = {
         ok: false,
         reason: result.reason || 'cli_crash',
-        error: result.error
+        error: result.error,
+        ...(result.childOutput ? { isolation, childOutput: result.childOutput } : {})
       };
       
+      // A crashed or killed child's output is the diagnostic; keep it
+      if (result.childOutput) {
+        writeProofArtifact(output);
+      }
+      
       process.stdout.write(JSON.stringify(output, null, 2) + '\n');
       process.exit(2);
     }
     
     // Check for asleep
     const workerResult = result.result as Record<string, any> | undefined;
-    const sleep = asleepDetector(workerResult, strictMode);
+    const sleep = asleepDetector(workerResult, contract);
     
-    const contractMode = strictMode ? 'agentic' : 'local';
+    const contractMode = sleep.contractMode;
     const proofOk = workerResult?.ok === true;
     let contractOk = sleep.ok;
     
@@ -198,13 +231,17 @@ async function main() {
       strictMode,
       forceSleep,
       workerMode: true,
+      isolation,
       contractMode,
       asleepDetector: sleep,
       engagement: sleep.engagement,
       verification: workerResult?.verification || null,
+      signature: workerResult?.signature || null,
       deepestDepthReached: workerResult?.deepestDepthReached || 0,
       spawnsExecuted: workerResult?.spawnsExecuted || 0,
+      usage: workerResult?.usage || null,
       trace: workerResult?.trace || [],
+      childOutput: result.childOutput || null,
       timestamp: new Date().toISOString()
     };
     
@@ -248,7 +285,7 @@ async function main() {
     
     // Success
     if (verbose) {
-      console.log('\n✅ SUCCESS - Exit code 0');
+      console.error('\n✅ SUCCESS - Exit code 0');
     }
     process.exit(0);
     
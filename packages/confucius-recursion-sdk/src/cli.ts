@@ -2,12 +2,19 @@
 /**
  * Confucius CLI - Asleep Detector Test Harness
  * 
- * Runs a task and validates engagement evidence.
+ * Runs a task and validates engagement evidence against the engagement
+ * contract (agentic in strict mode, local otherwise, or the one named by
+ * CONFUCIUS_CONTRACT / .confucius/config.json).
  * Exits with code 5 if ASLEEP DETECTED.
  */
 
 import process from "node:process";
 import { RecursionProofOrchestratorHardened } from "./orchestrator/hardened-orchestrator.js";
+import { createGateFromSpec } from "./orchestrator/gate-registry.js";
+import { loadResolvedConfuciusConfig } from "./config/load-confucius-config.js";
+import { createLogger } from "./logging.js";
+import { asleepDetector } from "./asleep-detector.js";
+import { resolveContract } from "./contract.js";
 
 function getBoolEnv(name: string, fallback: boolean): boolean {
   const v = process.env[name];
@@ -15,86 +22,58 @@ function getBoolEnv(name: string, fallback: boolean): boolean {
   return v === "1" || v.toLowerCase() === "true";
 }
 
-function hasAnyKind(trace: any[], kinds: string[]): boolean {
-  return trace.some((e) => kinds.includes(e.kind));
-}
-
-/**
- * Asleep Detector Contract
- * 
- * Engaged = ALL conditions true:
- * - trace contains preflight_ok
- * - trace contains plan_created
- * - trace contains at least one of: spawn, spawn_request_detected, merge, quality_gate_pass
- * - verification.allSignaturesValid true
- * 
- * Asleep = ANY condition missing
- */
-export interface AsleepDetectorResult {
-  ok: boolean;
-  traceCount: number;
-  verificationOk: boolean;
-  hasPreflightOk: boolean;
-  hasPlanCreated: boolean;
-  hasEngagement: boolean;
-  traceEvents: string[];
-}
-
-export function asleepDetector(result: unknown): AsleepDetectorResult {
-  const trace = Array.isArray((result as any)?.trace) ? (result as any).trace : [];
-  const verificationOk = (result as any)?.verification?.allSignaturesValid === true;
-
-  const hasPreflightOk = hasAnyKind(trace, ["preflight_ok"]);
-  const hasPlanCreated = hasAnyKind(trace, ["plan_created"]);
-  const hasEngagement =
-    hasAnyKind(trace, ["spawn"]) ||
-    hasAnyKind(trace, ["spawn_request_detected"]) ||
-    hasAnyKind(trace, ["merge"]) ||
-    hasAnyKind(trace, ["quality_gate_pass"]);
-
-  const ok = hasPreflightOk && hasPlanCreated && hasEngagement && verificationOk;
-
-  return {
-    ok,
-    traceCount: trace.length,
-    verificationOk,
-    hasPreflightOk,
-    hasPlanCreated,
-    hasEngagement,
-    traceEvents: trace.map((e: any) => e.kind)
-  };
-}
-
 async function main() {
   const strictMode = getBoolEnv("CONFUCIUS_STRICT_MODE", false);
   const forceSleep = getBoolEnv("CONFUCIUS_FORCE_SLEEP", false);
+  const signingMode = process.env.CONFUCIUS_SIGNING_MODE === "ed25519" ? "ed25519" : "hmac";
+  const repoConfig = loadResolvedConfuciusConfig();
+  const contract = resolveContract(undefined, strictMode ? "agentic" : "local", repoConfig);
 
   const orch = new RecursionProofOrchestratorHardened({
     maxDepth: 4,
     maxSpawns: 10,
     strictMode,
-    forceSleep  // Pass to orchestrator for intentional failure mode
+    forceSleep,  // Pass to orchestrator for intentional failure mode
+    signingMode,
+    qualityGates: repoConfig.qualityGates.map(createGateFromSpec),
+    logger: createLogger()  // JSON lines on stderr; stdout carries only the result
   });
 
-  const result = await orch.runDepth3Proof();
+  // Continue a persisted proof that died mid-run (.confucius/runs/<proofId>/)
+  const resumeProofId = process.env.CONFUCIUS_RESUME_PROOF_ID;
+  const result = resumeProofId
+    ? await orch.resume(resumeProofId)
+    : await orch.runDepth3Proof({ plan: true });
 
-  const sleep = asleepDetector(result);
+  const sleep = asleepDetector(result, contract);
 
   const out = {
-    ok: result?.ok === true && sleep.ok === true,
+    ok: result?.ok === true && sleep.ok && !forceSleep,  // FORCE_SLEEP overrides the contract
     runtimeMode: result?.runtimeMode || "unknown",
     strictMode,
     forceSleep,
     asleepDetector: sleep,
+    ...(result?.reason ? { reason: result.reason } : {}),
+    proofId: result?.proofId || null,
     verification: result?.verification || null,
+    signature: result?.signature || null,
     deepestDepthReached: result?.deepestDepthReached || 0,
-    spawnsExecuted: result?.spawnsExecuted || 0
+    spawnsExecuted: result?.spawnsExecuted || 0,
+    usage: result?.usage || null
   };
 
   // JSON only output
   process.stdout.write(JSON.stringify(out, null, 2) + "\n");
 
   // Exit codes
+  if (result?.reason === "tool_missing_strict") {
+    console.error("\n✗ STRICT MODE: required tool missing");
+    process.exit(2);
+  }
+  if (forceSleep) {
+    console.error("\n🛌 FORCE_SLEEP enabled - Exit code 5");
+    process.exit(5);
+  }
   if (!sleep.ok) {
     console.error("\n⚠️  ASLEEP DETECTED: No engagement evidence!");
     process.exit(5);
@@ -104,7 +83,7 @@ async function main() {
     process.exit(1);
   }
   
-  console.log("\n✓ Engagement verified - agent awake");
+  console.error("\n✓ Engagement verified - agent awake");
   process.exit(0);
 }
 
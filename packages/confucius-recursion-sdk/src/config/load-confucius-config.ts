@@ -1,6 +1,7 @@
 import { readFileSync, existsSync } from 'node:fs'
 import { resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import type { GateSpec } from '../orchestrator/gate-registry.js'
 
 export type ConfuciusRepoConfig = {
   schemaVersion?: string
@@ -9,6 +10,9 @@ export type ConfuciusRepoConfig = {
   useWorker?: boolean
   proofMaxAgeMin?: number
   notes?: { enabled?: boolean; dir?: string }
+  qualityGates?: GateSpec[]
+  contract?: string                     // Default contract name (see contract.ts)
+  contracts?: Record<string, unknown>   // Named contracts: { description?, clauses }
 }
 
 export type ResolvedConfuciusConfig = {
@@ -18,6 +22,9 @@ export type ResolvedConfuciusConfig = {
   proofMaxAgeMin: number
   notesEnabled: boolean
   notesDir: string
+  qualityGates: GateSpec[]
+  contract: string | undefined
+  contracts: Record<string, unknown>
   source: {
     configPath: string
     loaded: boolean
@@ -89,6 +96,7 @@ export function loadResolvedConfuciusConfig(): ResolvedConfuciusConfig {
     ? (process.env.CONFUCIUS_MODE as 'agentic' | 'local')
     : undefined
   const envMaxAge = parseIntEnv('CONFUCIUS_PROOF_MAX_AGE_MIN')
+  const envContract = process.env.CONFUCIUS_CONTRACT || undefined
 
   // Final defaults
   const contractMode =
@@ -125,6 +133,9 @@ export function loadResolvedConfuciusConfig(): ResolvedConfuciusConfig {
     proofMaxAgeMin,
     notesEnabled,
     notesDir,
+    qualityGates: Array.isArray(fileCfg?.qualityGates) ? fileCfg.qualityGates : [],
+    contract: envContract ?? (typeof fileCfg?.contract === 'string' ? fileCfg.contract : undefined),
+    contracts: fileCfg?.contracts && typeof fileCfg.contracts === 'object' ? fileCfg.contracts : {},
     source: { configPath, loaded: Boolean(fileCfg) }
   }
 }
@@ -0,0 +1,244 @@
+/**
+ * Engagement Contracts
+ *
+ * A contract decides whether a proof result shows real engagement or an
+ * "asleep" agent. It is a list of declarative clauses, all of which must
+ * hold, over:
+ * - trace event kinds and how often they occur
+ * - verification flags (e.g. allSignaturesValid)
+ * - the runtime mode
+ *
+ * Two presets are built in: `agentic` (strict, real tooling) and `local`
+ * (any activity in a non-empty trace). More can be declared in
+ * .confucius/config.json, which may also pick the default:
+ *
+ *   {
+ *     "contract": "ci",
+ *     "contracts": {
+ *       "ci": {
+ *         "clauses": [
+ *           { "name": "planned", "events": ["plan_created"] },
+ *           { "events": ["timeout"], "max": 0 },
+ *           { "verification": "allSignaturesValid" },
+ *           { "anyOf": [{ "events": ["spawn"], "min": 2 }, { "events": ["merge"] }] }
+ *         ]
+ *       }
+ *     }
+ *   }
+ *
+ * The result lists every clause with a short explanation, and the failed
+ * ones separately.
+ */
+
+import { loadResolvedConfuciusConfig, type ResolvedConfuciusConfig } from './config/load-confucius-config.js';
+
+export type ContractClause =
+  | { name?: string; events?: string[]; min?: number; max?: number }  // Trace events of these kinds (any kind if omitted); default min 1
+  | { name?: string; verification: string; equals?: boolean }         // result.verification[flag] === equals (default true)
+  | { name?: string; runtimeMode: string[] }                          // result.runtimeMode is one of these
+  | { name?: string; anyOf: ContractClause[] };                       // At least one of these holds
+
+export interface ContractDefinition {
+  name: string;
+  description?: string;
+  clauses: ContractClause[];
+}
+
+export type ContractPresetName = 'agentic' | 'local';
+
+export interface ClauseResult {
+  name: string;
+  ok: boolean;
+  detail: string;  // What was found, e.g. "0 × spawn|supervisor_spawn, need >= 1"
+}
+
+export interface ContractResult {
+  ok: boolean;
+  contract: string;
+  clauses: ClauseResult[];
+  failedClauses: ClauseResult[];
+  traceCount: number;
+  traceEvents: string[];
+}
+
+/**
+ * The parts of a proof result a contract reads; none of them are assumed present
+ */
+interface ProofFields {
+  trace?: unknown;
+  verification?: Record<string, unknown> | null;
+  runtimeMode?: unknown;
+}
+
+const SPAWN_KINDS = ['spawn', 'spawn_request_detected', 'supervisor_spawn'];
+
+export const CONTRACT_PRESETS: Record<ContractPresetName, ContractDefinition> = {
+  agentic: {
+    name: 'agentic',
+    description: 'Agentic IDE: preflight, plan, spawns and valid signatures from real tooling',
+    clauses: [
+      { name: 'preflight_ok', events: ['preflight_ok'] },
+      { name: 'plan_created', events: ['plan_created'] },
+      { name: 'spawned', events: SPAWN_KINDS },
+      { name: 'signatures_valid', verification: 'allSignaturesValid' },
+      { name: 'runtime_real', runtimeMode: ['real'] }
+    ]
+  },
+  local: {
+    name: 'local',
+    description: 'Local development: a non-empty trace with some activity',
+    clauses: [
+      { name: 'trace_present' },
+      { name: 'activity', events: [...SPAWN_KINDS, 'merge', 'return', 'quality_gate_pass'] }
+    ]
+  }
+};
+
+/**
+ * Pick a contract: the one given, else the config's `contract`, else `fallback`
+ *
+ * Names are looked up in the config's `contracts` first, so a repo can
+ * redefine a preset.
+ */
+export function resolveContract(
+  contract: string | ContractDefinition | undefined,
+  fallback: ContractPresetName,
+  repoConfig: Pick<ResolvedConfuciusConfig, 'contract' | 'contracts'> = loadResolvedConfuciusConfig()
+): ContractDefinition {
+  if (contract !== undefined && typeof contract !== 'string') return validateContract(contract);
+
+  const name = contract ?? repoConfig.contract ?? fallback;
+  const declared = repoConfig.contracts[name];
+  if (declared !== undefined) {
+    return validateContract({ ...(declared as object), name });
+  }
+  if (name === 'agentic' || name === 'local') return CONTRACT_PRESETS[name];
+  throw new Error(`unknown_contract: ${name}`);
+}
+
+/**
+ * Check a contract definition (e.g. from config.json); throws invalid_contract
+ */
+export function validateContract(def: unknown): ContractDefinition {
+  const name = (def as { name?: unknown })?.name;
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new Error(`invalid_contract: missing name`);
+  }
+  const clauses = (def as { clauses?: unknown }).clauses;
+  if (!Array.isArray(clauses) || clauses.length === 0) {
+    throw new Error(`invalid_contract: ${name}: clauses must be a non-empty array`);
+  }
+  clauses.forEach((clause, i) => validateClause(clause, `${name}: clauses[${i}]`));
+  return def as ContractDefinition;
+}
+
+/**
+ * Evaluate a contract against a proof result ({ trace, verification, runtimeMode })
+ */
+export function evaluateContract(result: unknown, contract: ContractDefinition): ContractResult {
+  const fields = proofFields(result);
+  const trace: unknown[] = Array.isArray(fields.trace) ? fields.trace : [];
+  const clauses = contract.clauses.map(clause => evaluateClause(clause, fields, trace));
+  const failedClauses = clauses.filter(c => !c.ok);
+
+  return {
+    ok: failedClauses.length === 0,
+    contract: contract.name,
+    clauses,
+    failedClauses,
+    traceCount: trace.length,
+    traceEvents: trace.map(kindOf).filter((kind): kind is string => Boolean(kind))
+  };
+}
+
+/**
+ * Number of trace events whose kind is one of `kinds`
+ */
+export function countEvents(trace: readonly unknown[], kinds: string[]): number {
+  return trace.filter(e => {
+    const kind = kindOf(e);
+    return kind !== undefined && kinds.includes(kind);
+  }).length;
+}
+
+function proofFields(result: unknown): ProofFields {
+  return typeof result === 'object' && result !== null ? result as ProofFields : {};
+}
+
+function kindOf(event: unknown): string | undefined {
+  const kind = typeof event === 'object' && event !== null ? (event as { kind?: unknown }).kind : undefined;
+  return typeof kind === 'string' ? kind : undefined;
+}
+
+function evaluateClause(clause: ContractClause, result: ProofFields, trace: unknown[]): ClauseResult {
+  const name = clauseName(clause);
+
+  if ('anyOf' in clause) {
+    const parts = clause.anyOf.map(c => evaluateClause(c, result, trace));
+    const ok = parts.some(p => p.ok);
+    return { name, ok, detail: ok ? `${parts.find(p => p.ok)!.name} holds` : `none hold: ${parts.map(p => p.detail).join('; ')}` };
+  }
+
+  if ('verification' in clause) {
+    const expected = clause.equals ?? true;
+    const actual = result.verification?.[clause.verification];
+    return { name, ok: actual === expected, detail: `verification.${clause.verification} is ${JSON.stringify(actual)}, need ${expected}` };
+  }
+
+  if ('runtimeMode' in clause) {
+    const actual = typeof result.runtimeMode === 'string' ? result.runtimeMode : 'unknown';
+    return { name, ok: clause.runtimeMode.includes(actual), detail: `runtimeMode is ${actual}, need ${clause.runtimeMode.join('|')}` };
+  }
+
+  const count = clause.events ? countEvents(trace, clause.events) : trace.length;
+  const min = clause.min ?? (clause.max === undefined ? 1 : 0);
+  const ok = count >= min && (clause.max === undefined || count <= clause.max);
+  const need = [min > 0 ? `>= ${min}` : null, clause.max !== undefined ? `<= ${clause.max}` : null].filter(Boolean).join(' and ');
+  return { name, ok, detail: `${count} × ${clause.events?.join('|') ?? 'any event'}, need ${need || 'any'}` };
+}
+
+function clauseName(clause: ContractClause): string {
+  if (clause.name) return clause.name;
+  if ('anyOf' in clause) return `anyOf(${clause.anyOf.map(clauseName).join(',')})`;
+  if ('verification' in clause) return `verification:${clause.verification}`;
+  if ('runtimeMode' in clause) return `runtimeMode:${clause.runtimeMode.join('|')}`;
+  return `events:${clause.events?.join('|') ?? '*'}`;
+}
+
+function validateClause(clause: unknown, where: string): void {
+  if (!clause || typeof clause !== 'object' || Array.isArray(clause)) {
+    throw new Error(`invalid_contract: ${where}: clause must be an object`);
+  }
+  const c = clause as Record<string, unknown>;
+  if (c.name !== undefined && typeof c.name !== 'string') {
+    throw new Error(`invalid_contract: ${where}: name must be a string`);
+  }
+
+  if ('anyOf' in c) {
+    if (!Array.isArray(c.anyOf) || c.anyOf.length === 0) {
+      throw new Error(`invalid_contract: ${where}: anyOf must be a non-empty array`);
+    }
+    c.anyOf.forEach((inner, i) => validateClause(inner, `${where}.anyOf[${i}]`));
+  } else if ('verification' in c) {
+    if (typeof c.verification !== 'string') throw new Error(`invalid_contract: ${where}: verification must name a flag`);
+    if (c.equals !== undefined && typeof c.equals !== 'boolean') throw new Error(`invalid_contract: ${where}: equals must be a boolean`);
+  } else if ('runtimeMode' in c) {
+    if (!isStringArray(c.runtimeMode) || c.runtimeMode.length === 0) {
+      throw new Error(`invalid_contract: ${where}: runtimeMode must be a non-empty string array`);
+    }
+  } else {
+    if (c.events !== undefined && !isStringArray(c.events)) {
+      throw new Error(`invalid_contract: ${where}: events must be a string array`);
+    }
+    for (const bound of ['min', 'max'] as const) {
+      const v = c[bound];
+      if (v !== undefined && (!Number.isInteger(v) || (v as number) < 0)) {
+        throw new Error(`invalid_contract: ${where}: ${bound} must be a non-negative integer`);
+      }
+    }
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
@@ -0,0 +1,242 @@
+/**
+ * HTTP Chat Adapter
+ *
+ * Drives the orchestrator with any OpenAI-compatible chat endpoint
+ * (`POST {baseUrl}/chat/completions`): hosted APIs, or self-hosted / local
+ * models behind llama.cpp, vLLM, Ollama, LM Studio and similar servers.
+ *
+ * - runModel: one completion for the prompt
+ * - runSubagent: one completion with a subagent system prompt (no tools;
+ *   the model answers the spawn prompt directly)
+ * - JSON mode: requests `response_format: json_object` and rejects replies
+ *   that are not a JSON object, so the orchestrator never sees prose
+ * - Retries: network errors, timeouts, 429, 5xx and invalid JSON, with
+ *   doubling backoff; other 4xx fail at once
+ * - Usage: token counts (and cost, given pricing) from each response are
+ *   summed in `usage` and reported per subagent call via onUsage, so the
+ *   supervisor can enforce maxTokens / maxCost
+ */
+
+import { abortableDelay, linkAbort } from './orchestrator/cancellation.js';
+import { addUsage, emptyUsage, type TokenUsage } from './orchestrator/usage.js';
+import type { ConfuciusAdapter, RuntimeInfo, SubagentRequest } from './adapter.js';
+
+export interface HttpChatAdapterOptions {
+  baseUrl: string;             // e.g. http://localhost:11434/v1 (or the full /chat/completions URL)
+  model: string;
+  apiKey?: string;             // Sent as a Bearer token
+  headers?: Record<string, string>;
+  jsonMode?: boolean;          // Default true
+  maxRetries?: number;         // Default 2 (3 requests in total)
+  retryBackoffMs?: number;     // Default 250, doubled per retry
+  timeoutMs?: number;          // Per request, default 60000
+  temperature?: number;
+  maxTokens?: number;          // Completion token cap per request
+  systemPrompt?: string;       // Prepended to every runModel call
+  strictMode?: boolean;        // Default false (not an agentic IDE host)
+  pricing?: { promptPer1k?: number; completionPer1k?: number };  // Cost per 1000 tokens
+  onUsage?: (usage: TokenUsage, call: ChatCall) => void;
+  fetch?: typeof fetch;        // Default globalThis.fetch
+}
+
+export type ChatCall = { kind: 'runModel' | 'runSubagent'; description: string };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Adapter for OpenAI-compatible /v1/chat/completions endpoints
+ */
+export class HttpChatAdapter implements ConfuciusAdapter {
+  /** Token usage summed over every successful request */
+  readonly usage: TokenUsage & { requests: number };
+
+  private url: string;
+  private options: HttpChatAdapterOptions;
+  private fetchFn: typeof fetch;
+
+  constructor(options: HttpChatAdapterOptions) {
+    if (!options?.baseUrl) throw new Error('http_chat_config: baseUrl is required');
+    if (!options.model) throw new Error('http_chat_config: model is required');
+
+    this.options = options;
+    this.url = chatCompletionsUrl(options.baseUrl);
+    this.fetchFn = options.fetch ?? globalThis.fetch;
+    this.usage = { ...emptyUsage(), requests: 0 };
+
+    if (typeof this.fetchFn !== 'function') {
+      throw new Error('http_chat_config: fetch is not available - pass options.fetch');
+    }
+  }
+
+  getRuntimeInfo(): RuntimeInfo {
+    return {
+      host: 'http',
+      strictMode: this.options.strictMode ?? false,
+      capabilities: ['runModel', 'runSubagent'],
+      version: this.options.model
+    };
+  }
+
+  async runModel(prompt: string, _input: unknown): Promise<string | object> {
+    const messages: ChatMessage[] = [];
+    if (this.options.systemPrompt) messages.push({ role: 'system', content: this.options.systemPrompt });
+    messages.push({ role: 'user', content: prompt });
+
+    return await this.complete(messages, { kind: 'runModel', description: 'model' });
+  }
+
+  async runSubagent({ description, prompt, signal, onUsage }: SubagentRequest): Promise<string> {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are the subagent "${description}" in a supervised orchestration. ` +
+          'Complete the task in the user message and reply with the requested output only.'
+      },
+      { role: 'user', content: prompt }
+    ];
+
+    return await this.complete(messages, { kind: 'runSubagent', description }, signal, onUsage);
+  }
+
+  /**
+   * One chat completion, with retries; returns the message content
+   */
+  private async complete(
+    messages: ChatMessage[],
+    call: ChatCall,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<string> {
+    const jsonMode = this.options.jsonMode ?? true;
+    const maxRetries = Math.max(0, this.options.maxRetries ?? 2);
+    const backoffMs = this.options.retryBackoffMs ?? 250;
+
+    const body: Record<string, unknown> = { model: this.options.model, messages };
+    if (jsonMode) body.response_format = { type: 'json_object' };
+    if (this.options.temperature !== undefined) body.temperature = this.options.temperature;
+    if (this.options.maxTokens !== undefined) body.max_tokens = this.options.maxTokens;
+
+    let lastError: Error = new Error('http_chat_failed');
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) await abortableDelay(backoffMs * 2 ** (attempt - 1), signal);
+
+      try {
+        const content = await this.request(body, call, signal, onUsage);
+        if (!jsonMode) return content;
+
+        const json = jsonObjectText(content);
+        if (json === null) {
+          throw new RetryableChatError(`http_chat_invalid_json: ${content.slice(0, 80)}`);
+        }
+        return json;
+      } catch (err) {
+        if (!(err instanceof RetryableChatError) || signal?.aborted) throw err;
+        lastError = err;
+      }
+    }
+
+    throw new Error(`${lastError.message} (after ${maxRetries + 1} attempts)`);
+  }
+
+  /**
+   * POST once; retryable failures throw RetryableChatError
+   */
+  private async request(body: Record<string, unknown>, call: ChatCall, signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void): Promise<string> {
+    const abort = linkAbort(signal, this.options.timeoutMs ?? 60000);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.fetchFn(this.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.options.apiKey ? { authorization: `Bearer ${this.options.apiKey}` } : {}),
+          ...this.options.headers
+        },
+        body: JSON.stringify(body),
+        signal: abort.signal
+      });
+      text = await response.text();
+    } catch (err) {
+      if (abort.timedOut()) throw new RetryableChatError(`http_chat_timeout: ${this.options.timeoutMs ?? 60000}ms`);
+      if (signal?.aborted) throw new Error('spawn_aborted');
+      throw new RetryableChatError(`http_chat_network: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      abort.dispose();
+    }
+
+    if (!response.ok) {
+      const message = `http_chat_status_${response.status}: ${text.slice(0, 200)}`;
+      if (response.status === 429 || response.status >= 500) throw new RetryableChatError(message);
+      throw new Error(message);
+    }
+
+    let payload: ChatCompletionPayload | null;
+    try {
+      payload = JSON.parse(text) as ChatCompletionPayload | null;
+    } catch {
+      throw new RetryableChatError(`http_chat_bad_response: ${text.slice(0, 80)}`);
+    }
+
+    const content = payload?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new RetryableChatError('http_chat_bad_response: no choices[0].message.content');
+    }
+
+    this.recordUsage(payload?.usage, call, onUsage);
+    return content;
+  }
+
+  private recordUsage(raw: ChatCompletionPayload['usage'], call: ChatCall, onUsage?: (usage: TokenUsage) => void): void {
+    const promptTokens = Number(raw?.prompt_tokens) || 0;
+    const completionTokens = Number(raw?.completion_tokens) || 0;
+    const pricing = this.options.pricing ?? {};
+    const usage = addUsage({
+      promptTokens,
+      completionTokens,
+      totalTokens: Number(raw?.total_tokens) || undefined,
+      cost: (promptTokens * (pricing.promptPer1k ?? 0) + completionTokens * (pricing.completionPer1k ?? 0)) / 1000
+    });
+
+    const { requests } = this.usage;
+    Object.assign(this.usage, addUsage(this.usage, usage), { requests: requests + 1 });
+    this.options.onUsage?.(usage, call);
+    onUsage?.(usage);
+  }
+}
+
+class RetryableChatError extends Error {}
+
+/**
+ * The parts of a chat completion response that are read (none are trusted)
+ */
+interface ChatCompletionPayload {
+  choices?: { message?: { content?: unknown } }[];
+  usage?: { prompt_tokens?: unknown; completion_tokens?: unknown; total_tokens?: unknown };
+}
+
+/**
+ * Accept a base URL (…/v1) or the full …/chat/completions URL
+ */
+function chatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+}
+
+/**
+ * The JSON object in a reply (fence stripped), or null when there is none
+ */
+function jsonObjectText(content: string): string | null {
+  const text = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    const value = JSON.parse(text);
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? text : null;
+  } catch {
+    return null;
+  }
+}
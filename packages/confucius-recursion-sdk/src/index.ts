@@ -17,7 +17,7 @@
 // ============================================================================
 
 export { runWithConfucius } from './runWithConfucius.js';
-export type { ConfuciusConfig, ConfuciusResult } from './runWithConfucius.js';
+export type { ConfuciusConfig, ConfuciusResult, ConfuciusRunStream, ConfuciusTask, SupervisorNote } from './runWithConfucius.js';
 
 // ============================================================================
 // ADAPTERS - For integrating with different agentic IDE runtimes
@@ -25,10 +25,20 @@ export type { ConfuciusConfig, ConfuciusResult } from './runWithConfucius.js';
 
 export {
   type ConfuciusAdapter,
+  type ClaudeTransport,
   CopilotAdapter,
+  ClaudeAdapter,
   StandaloneAdapter,
-  createAdapter
+  createAdapter,
+  createSpawnAdapter,
+  createModelAdapter
 } from './adapter.js';
+export { RecordingAdapter, ReplayAdapter, loadCassette, normalizePrompt } from './record-replay-adapter.js';
+export type { Cassette, CassetteInteraction, MismatchPolicy } from './record-replay-adapter.js';
+export { HttpChatAdapter } from './http-chat-adapter.js';
+export type { HttpChatAdapterOptions, ChatCall } from './http-chat-adapter.js';
+export { startMockChatServer, defaultMockResponder, MockHttpError } from './mock-chat-server.js';
+export type { MockChatServer, MockChatServerOptions, MockChatRequest, MockChatReply } from './mock-chat-server.js';
 
 // ============================================================================
 // ADVANCED: Direct orchestrator access (use only for debugging/testing)
@@ -36,22 +46,54 @@ export {
 
 export { RecursionProofOrchestratorHardened } from './orchestrator/hardened-orchestrator.js';
 export { validateTrace } from './orchestrator/trace-validation.js';
-export { qualityGate, runWithRetry } from './orchestrator/quality-gates.js';
-export { loadSupervisorSecret } from './orchestrator/supervisor-crypto.js';
+export { qualityGate, runWithRetry, tightenPrompt } from './orchestrator/quality-gates.js';
+export { validateOutputSchema } from './orchestrator/output-schema.js';
+export { eventFromTrace } from './orchestrator/events.js';
+export { createLogger, silentLogger, redact } from './logging.js';
+export type { Logger, LoggerOptions, LogLevel, LogFields } from './logging.js';
+export { QualityGateRegistry, handwaveGate, rangeGate, createGateFromSpec } from './orchestrator/gate-registry.js';
+export { createFakeJudge, buildJudgePrompt, parseJudgeVerdict, DEFAULT_JUDGE_RUBRIC } from './orchestrator/judge.js';
+export { loadSupervisorSecret, loadSupervisorKeyPair, publicKeyFingerprint } from './orchestrator/supervisor-crypto.js';
+export { verifyProof, VERIFY_EXIT_CODES } from './verify-proof.js';
+export { evaluateContract, resolveContract, validateContract, countEvents, CONTRACT_PRESETS } from './contract.js';
+export { asleepDetector } from './asleep-detector.js';
+export { MemoryRegistryStore, JsonlRegistryStore } from './orchestrator/registry-store.js';
 
 // ============================================================================
 // TYPES - For TypeScript users
 // ============================================================================
 
-export type { TraceEvent } from './orchestrator/signed-trace.js';
+export type { TraceAnchor, TraceEvent } from './orchestrator/signed-trace.js';
 export type { ValidationResult, ValidationError } from './orchestrator/trace-validation.js';
 export type { QualityGateResult, RetryResult } from './orchestrator/quality-gates.js';
-export type { RunRecord, SpawnStats } from './orchestrator/supervisor-registry.js';
+export type { OutputSchema, JsonSchema, JsonSchemaType } from './orchestrator/output-schema.js';
+export type {
+  ConfuciusEvent,
+  ConfuciusEventListener,
+  PreflightEvent,
+  SpawnEvent,
+  ReturnEvent,
+  RetryEvent,
+  GateEvent,
+  LimitEvent,
+  MergeEvent,
+  DoneEvent,
+  LogEvent,
+  TraceDerivedEvent
+} from './orchestrator/events.js';
+export type { QualityGateDefinition, GateCheck, GateContext, GateOutcome, GateEvaluation, GateSeverity, GateSpec } from './orchestrator/gate-registry.js';
+export type { JudgeConfig, JudgeVerdict } from './orchestrator/judge.js';
+export type { TokenUsage, SpawnUsage } from './orchestrator/usage.js';
+export type { RunRecord, RunStatus, SpawnStats } from './orchestrator/supervisor-registry.js';
+export type { RegistryStore, StoreRecord, ResumeEntry } from './orchestrator/registry-store.js';
+export type { ProofVerdict, VerifyError, VerifyErrorCode, VerifyKeys } from './verify-proof.js';
+export type { ContractClause, ContractDefinition, ContractPresetName, ContractResult, ClauseResult } from './contract.js';
+export type { AsleepDetectorResult, EngagementFlags } from './asleep-detector.js';
 
 // ============================================================================
 // CRITICAL: Internal modules NOT exported (prevents bypass)
 // ============================================================================
-// - supervisor-crypto (except loadSupervisorSecret helper)
+// - supervisor-crypto (except key loading and fingerprint helpers)
 // - supervisor-registry (RunRegistry class)
 // - signed-trace (SignedTrace class)
 //
@@ -62,15 +104,27 @@ export type { RunRecord, SpawnStats } from './orchestrator/supervisor-registry.j
 // ============================================
 
 export { runWithWorker } from './worker/worker-manager.js';
+export { WorkerPool } from './worker/worker-pool.js';
+export type { WorkerPoolConfig, WorkerPoolTaskOptions, WorkerPoolMetrics } from './worker/worker-pool.js';
+export { ChildProcessWorker } from './worker/child-process-worker.js';
+export type { ChildProcessWorkerOptions, ChildOutput } from './worker/child-process-worker.js';
 export type { 
   WorkerOrchestratorConfig, 
-  WorkerOrchestratorResult 
+  WorkerOrchestratorResult,
+  WorkerFailureReason,
+  OutstandingRequest,
+  WorkerHandle
 } from './worker/worker-manager.js';
+export { PROTOCOL_VERSION, parseMainToWorkerMessage, parseWorkerToMainMessage } from './worker/protocol.js';
 export type {
+  ParsedMessage,
   RunTaskMessage,
   MainToWorkerMessage,
   WorkerToMainMessage
 } from './worker/protocol.js';
 
 // SpawnAdapter and SpawnResult are exported from orchestrator
-export type { SpawnAdapter, SpawnResult } from './orchestrator/hardened-orchestrator.js';
+export type { SpawnAdapter, SpawnResult, ModelAdapter, ProofSignature, RetryPolicy } from './orchestrator/hardened-orchestrator.js';
+export type { SignatureAlgorithm } from './orchestrator/supervisor-crypto.js';
+export type { TaskPlan, PlanStep } from './orchestrator/planning.js';
+export type { TaskSpec, TaskNode, SpawnRequest, ProofResult } from './orchestrator/hardened-orchestrator.js';
@@ -0,0 +1,108 @@
+/**
+ * Structured Logging
+ *
+ * Library code never prints: the orchestrator, worker manager and supervisor
+ * key loading log through a `Logger` that is silent unless the caller passes
+ * one. The CLIs install `createLogger()`, which writes one JSON object per
+ * line to stderr so stdout stays machine-readable.
+ *
+ *   const logger = createLogger({ level: 'debug' });
+ *   await runWithConfucius(task, { adapter, logger });
+ *
+ * Fields are redacted before they are written: values under keys that look
+ * like credentials (token, secret, api_key, ...) become "[REDACTED]" and long
+ * strings and arrays are cut.
+ */
+
+type Json =
+  | null
+  | boolean
+  | number
+  | string
+  | Json[]
+  | { [key: string]: Json };
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(event: string, fields?: LogFields): void;
+  info(event: string, fields?: LogFields): void;
+  warn(event: string, fields?: LogFields): void;
+  error(event: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  name?: string;                   // Default: confucius
+  level?: LogLevel;                // Default: CONFUCIUS_LOG_LEVEL, else info
+  write?: (line: string) => void;  // Default: stderr
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const SECRET_KEY_RE = /(api[-_]?key|private[-_]?key|token|secret|password|authorization|cookie|session|signature)/i;
+
+/**
+ * Logger that drops everything; the default for library use
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+/**
+ * JSON-lines logger: `{ timestamp, level, name, event, ...fields }`
+ */
+export function createLogger(opts: LoggerOptions = {}): Logger {
+  const name = opts.name ?? 'confucius';
+  const min = opts.level ?? parseLevel(process.env.CONFUCIUS_LOG_LEVEL) ?? 'info';
+  const write = opts.write ?? (line => { process.stderr.write(line + '\n'); });
+
+  const emit = (level: LogLevel, event: string, fields?: LogFields) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[min]) return;
+    const redacted = redact(fields ?? {}) as Record<string, Json>;
+    write(JSON.stringify({ timestamp: new Date().toISOString(), level, name, event, ...redacted }));
+  };
+
+  return {
+    debug: (event, fields) => emit('debug', event, fields),
+    info: (event, fields) => emit('info', event, fields),
+    warn: (event, fields) => emit('warn', event, fields),
+    error: (event, fields) => emit('error', event, fields)
+  };
+}
+
+/**
+ * JSON-safe copy of `value` with credential-like keys masked
+ */
+export function redact(value: unknown, depth = 0): Json {
+  if (depth > 6) return '[truncated]';
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === 'string') {
+    return value.length > 500 ? value.slice(0, 500) + '...' : value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+
+  if (Array.isArray(value)) return value.slice(0, 50).map(v => redact(v, depth + 1));
+
+  // Own properties of an Error are usually empty; keep what explains it
+  if (value instanceof Error) return { name: value.name, message: redact(value.message, depth + 1) };
+
+  if (typeof value === 'object') {
+    const out: Record<string, Json> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = SECRET_KEY_RE.test(k) ? '[REDACTED]' : redact(v, depth + 1);
+    }
+    return out;
+  }
+
+  return String(value);
+}
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  return value && value in LEVEL_ORDER ? value as LogLevel : undefined;
+}
@@ -0,0 +1,172 @@
+/**
+ * Mock Chat Server
+ *
+ * In-process OpenAI-compatible `/v1/chat/completions` endpoint for offline
+ * tests of HttpChatAdapter and of orchestrations driven by it. Replies come
+ * from a responder function; failures and status codes can be scripted
+ * (return `new MockHttpError(401)` to answer with an HTTP error).
+ *
+ *   const server = await startMockChatServer({ respond: req => ({ summary: 'ok' }) });
+ *   const adapter = new HttpChatAdapter({ baseUrl: server.url, model: 'mock' });
+ *   ...
+ *   await server.close();
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { sha256Hex } from './orchestrator/supervisor-crypto.js';
+
+export interface MockChatRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+  response_format?: { type: string };
+  headers: Record<string, string | string[] | undefined>;
+  [key: string]: unknown;
+}
+
+/**
+ * HTTP error for a responder to answer with instead of a completion
+ *
+ * A class rather than a `{ status }` shape, so reply content that happens to
+ * have a numeric `status` is still sent as content.
+ */
+export class MockHttpError {
+  readonly status: number;
+  readonly body: string | undefined;
+
+  /**
+   * @param body - Raw response body; default `{ error: { message: "mock_status_<status>" } }`
+   */
+  constructor(status: number, body?: string) {
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Responder result: message content (text, or an object sent as JSON text),
+ * or a MockHttpError to answer with instead
+ */
+export type MockChatReply = string | object | MockHttpError;
+
+export interface MockChatServerOptions {
+  respond?: (req: MockChatRequest) => MockChatReply | Promise<MockChatReply>;
+  failFirst?: number;  // Answer the first N requests with 503
+  delayMs?: number;    // Wait before every reply (timeout tests)
+  port?: number;       // Default: any free port
+}
+
+export interface MockChatServer {
+  url: string;                  // Base URL, e.g. http://127.0.0.1:PORT/v1
+  requests: MockChatRequest[];  // Every request received, in order
+  close(): Promise<void>;
+}
+
+/**
+ * Default responder: computes depth3 hash proofs from the prompt, and
+ * otherwise answers `{ summary }` for the last user message
+ */
+export function defaultMockResponder(req: MockChatRequest): MockChatReply {
+  const prompt = req.messages.filter(m => m.role === 'user').pop()?.content ?? '';
+
+  const proofInput = /sha256\("([a-f0-9]+):([^"]+)"\)/.exec(prompt);
+  if (proofInput) {
+    return { hashProof: sha256Hex(`${proofInput[1]}:${proofInput[2]}`), timestamp: Date.now() };
+  }
+  return { summary: `mock response (${prompt.length} chars)` };
+}
+
+/**
+ * Start the server on 127.0.0.1
+ */
+export async function startMockChatServer({
+  respond = defaultMockResponder,
+  failFirst = 0,
+  delayMs = 0,
+  port = 0
+}: MockChatServerOptions = {}): Promise<MockChatServer> {
+  const requests: MockChatRequest[] = [];
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(err => {
+      send(res, 500, { error: { message: err instanceof Error ? err.message : String(err) } });
+    });
+  });
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+      send(res, 404, { error: { message: `no route: ${req.method} ${req.url}` } });
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf-8')) as Record<string, unknown>;
+    } catch {
+      send(res, 400, { error: { message: 'invalid JSON body' } });
+      return;
+    }
+
+    const request = { ...body, headers: req.headers } as MockChatRequest;
+    requests.push(request);
+
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+
+    if (requests.length <= failFirst) {
+      send(res, 503, { error: { message: 'mock_unavailable' } });
+      return;
+    }
+
+    const reply = await respond(request);
+    if (reply instanceof MockHttpError) {
+      res.writeHead(reply.status, { 'content-type': 'application/json' });
+      res.end(reply.body ?? JSON.stringify({ error: { message: `mock_status_${reply.status}` } }));
+      return;
+    }
+
+    const content = typeof reply === 'string' ? reply : JSON.stringify(reply);
+    const promptTokens = estimateTokens(request.messages.map(m => m.content).join('\n'));
+    const completionTokens = estimateTokens(content);
+
+    send(res, 200, {
+      id: `chatcmpl-mock-${requests.length}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}/v1`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections?.();
+      server.close(err => (err ? reject(err) : resolve()));
+    })
+  };
+}
+
+function send(res: ServerResponse, status: number, payload: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+/**
+ * Rough token count (4 chars per token), deterministic for tests
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,102 @@
+/**
+ * Spawn Cancellation
+ *
+ * Links a caller AbortSignal with a per-spawn timeout so a hung
+ * subagent cannot block the whole orchestration.
+ */
+
+export interface SpawnAbort {
+  signal: AbortSignal;
+  timedOut(): boolean;
+  dispose(): void;
+}
+
+/**
+ * Create a spawn-scoped abort that fires when the parent aborts or the timeout elapses
+ *
+ * @param parent - Caller signal (run-level cancellation), optional
+ * @param timeoutMs - Per-spawn timeout; undefined or <= 0 disables it
+ */
+export function linkAbort(parent: AbortSignal | undefined, timeoutMs: number | undefined): SpawnAbort {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  if (parent) {
+    if (parent.aborted) {
+      controller.abort(parent.reason);
+    } else {
+      parent.addEventListener('abort', onParentAbort, { once: true });
+    }
+  }
+
+  if (typeof timeoutMs === 'number' && timeoutMs > 0 && !controller.signal.aborted) {
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new Error(`spawn_timeout:${timeoutMs}ms`));
+    }, timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts
+ *
+ * Adapters that ignore their signal still cannot hold the supervisor:
+ * the late result is dropped.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(new Error('spawn_aborted'));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      promise.catch(() => {});
+      reject(new Error('spawn_aborted'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait `ms`, rejecting early if the signal aborts (retry backoff)
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!(ms > 0)) return Promise.resolve();
+  if (signal?.aborted) return Promise.reject(new Error('spawn_aborted'));
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('spawn_aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Bounded Concurrency
+ *
+ * Runs sibling spawns in parallel without exceeding a fixed limit.
+ * Results keep the input order so callers stay deterministic
+ * regardless of completion order. A limiter caps calls across the whole
+ * spawn tree, where each sibling group is mapped on its own.
+ */
+
+export type Settled<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: unknown };
+
+/**
+ * Map items through an async function with at most `limit` in flight
+ *
+ * @param items - Work items, dispatched in index order
+ * @param limit - Maximum concurrent calls (values < 1 are treated as 1)
+ * @param fn - Async worker, receives the item and its index
+ * @param shouldStop - Checked before each dispatch; stops new work once true
+ * @returns Settled results in input order; undispatched items are omitted
+ */
+export async function mapWithConcurrency<I, T>(
+  items: I[],
+  limit: number,
+  fn: (item: I, index: number) => Promise<T>,
+  shouldStop: (value: T) => boolean = () => false
+): Promise<Settled<T>[]> {
+  const results: Settled<T>[] = [];
+  let next = 0;
+  let stopped = false;
+
+  const lane = async (): Promise<void> => {
+    while (!stopped && next < items.length) {
+      const index = next;
+      next += 1;
+      try {
+        const value = await fn(items[index], index);
+        results[index] = { ok: true, value };
+        if (shouldStop(value)) stopped = true;
+      } catch (error) {
+        results[index] = { ok: false, error };
+        stopped = true;
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: lanes }, () => lane()));
+
+  return results.filter(r => r !== undefined);
+}
+
+/**
+ * Run calls with at most `limit` in flight across every caller sharing the limiter
+ *
+ * A call waiting for a slot leaves the queue, without running, once its
+ * signal aborts.
+ *
+ * @param limit - Maximum concurrent calls (values < 1 are treated as 1)
+ */
+export function createLimiter(limit: number): <T>(fn: () => Promise<T>, signal?: AbortSignal) => Promise<T> {
+  const max = Math.max(1, Math.floor(limit) || 1);
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  // A freed slot passes straight to the next waiter, so no newcomer can take it in between
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active -= 1;
+  };
+
+  const acquire = (signal?: AbortSignal): Promise<void> => {
+    if (signal?.aborted) return Promise.reject(new Error('spawn_aborted'));
+    if (active < max) {
+      active += 1;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(grant), 1);
+        reject(new Error('spawn_aborted'));
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  return async (fn, signal) => {
+    await acquire(signal);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+}
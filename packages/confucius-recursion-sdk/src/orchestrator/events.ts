@@ -0,0 +1,187 @@
+/**
+ * Progress Events
+ *
+ * Typed, real-time view of a run for callers that render it live (e.g. a
+ * recursion tree in an IDE extension). The orchestrator derives spawn,
+ * return, retry, gate, limit and merge events from its signed trace as each
+ * event is added, reports its progress lines (also sent to the logger) as
+ * `log` events, and ends each run with `done`; runWithConfucius adds
+ * `preflight`.
+ *
+ * The signed trace stays the source of truth: every derived event carries
+ * the `eventId` of the trace event it came from.
+ *
+ * Listeners run synchronously while the trace is written, so they are
+ * guarded: one that throws is logged and skipped, never fails the run.
+ */
+
+import type { Logger } from '../logging.js';
+import type { TraceEvent } from './signed-trace.js';
+import type { TokenUsage } from './usage.js';
+
+/**
+ * Fields shared by events derived from a signed trace event
+ */
+export interface TraceDerivedEvent {
+  ts: number;
+  eventId: number;
+  depth: number;
+  agentName: string;
+  runId: string | null;        // The child run the event is about
+  parentRunId: string | null;
+  siblingIndex: number | null;
+}
+
+export interface PreflightEvent {
+  type: 'preflight';
+  ts: number;
+  ok: boolean;
+  strictMode: boolean;
+  host: string;
+  reason?: string;
+}
+
+export interface SpawnEvent extends TraceDerivedEvent {
+  type: 'spawn';
+}
+
+export interface ReturnEvent extends TraceDerivedEvent {
+  type: 'return';
+  status: 'returned' | 'timed_out' | 'cancelled';
+  outputHash: string | null;
+}
+
+export interface RetryEvent extends TraceDerivedEvent {
+  type: 'retry';
+  attempt: number;      // The attempt about to run
+  maxAttempts: number;
+  errors: string[];     // Gate errors that caused the retry
+}
+
+export interface GateEvent extends TraceDerivedEvent {
+  type: 'gate';
+  gate: string;
+  severity: string;
+  attempt: number;
+  passed: boolean;
+  errors: string[];
+}
+
+export interface LimitEvent extends TraceDerivedEvent {
+  type: 'limit';
+  note: string | null;  // e.g. spawn_limit, depth_limit, token_budget
+}
+
+export interface MergeEvent extends TraceDerivedEvent {
+  type: 'merge';
+  note: string | null;
+}
+
+export interface DoneEvent {
+  type: 'done';
+  ts: number;
+  ok: boolean;
+  reason?: string;
+  spawnsExecuted: number;
+  deepestDepthReached: number;
+  usage?: TokenUsage;
+}
+
+export interface LogEvent {
+  type: 'log';
+  ts: number;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export type ConfuciusEvent =
+  | PreflightEvent
+  | SpawnEvent
+  | ReturnEvent
+  | RetryEvent
+  | GateEvent
+  | LimitEvent
+  | MergeEvent
+  | DoneEvent
+  | LogEvent;
+
+export type ConfuciusEventListener = (event: ConfuciusEvent) => void;
+
+/**
+ * Wrap a caller-supplied listener so a throw is logged (listener.failed) instead of propagating
+ */
+export function guardListener<T>(listener: ((arg: T) => void) | undefined, name: string, logger: Logger): ((arg: T) => void) | undefined {
+  if (!listener) return undefined;
+  return arg => {
+    try {
+      listener(arg);
+    } catch (err) {
+      logger.warn('listener.failed', { listener: name, error: err });
+    }
+  };
+}
+
+/**
+ * Progress event for a signed trace event, or null for kinds without one
+ * (plan_created, judge, resume)
+ */
+export function eventFromTrace(event: TraceEvent): ConfuciusEvent | null {
+  const base: TraceDerivedEvent = {
+    ts: event.ts,
+    eventId: event.eventId,
+    depth: event.depth,
+    agentName: event.agentName,
+    runId: event.childRunId,
+    parentRunId: event.parentRunId,
+    siblingIndex: event.siblingIndex
+  };
+
+  switch (event.kind) {
+    case 'spawn':
+      return { type: 'spawn', ...base };
+    case 'return':
+      return { type: 'return', ...base, status: 'returned', outputHash: event.outputHash };
+    case 'timeout':
+      return { type: 'return', ...base, status: 'timed_out', outputHash: null };
+    case 'cancelled':
+      // Without a run, the supervisor refused to start one
+      return event.childRunId
+        ? { type: 'return', ...base, status: 'cancelled', outputHash: null }
+        : { type: 'limit', ...base, note: event.note };
+    case 'retry': {
+      const [attempt, maxAttempts] = (/^attempt:(\d+)\/(\d+)$/.exec(event.note ?? '') ?? []).slice(1).map(Number);
+      return { type: 'retry', ...base, attempt: attempt || 0, maxAttempts: maxAttempts || 0, errors: event.gateErrors ?? [] };
+    }
+    case 'quality_gate_pass':
+    case 'quality_gate_fail': {
+      const fields = parseNote(event.note);
+      return {
+        type: 'gate',
+        ...base,
+        gate: fields.gate ?? 'unknown',
+        severity: fields.severity ?? 'error',
+        attempt: Number(fields.attempt) || 1,
+        passed: event.kind === 'quality_gate_pass',
+        errors: event.gateErrors ?? []
+      };
+    }
+    case 'limit':
+      return { type: 'limit', ...base, note: event.note };
+    case 'merge':
+      return { type: 'merge', ...base, note: event.note };
+    default:
+      return null;
+  }
+}
+
+/**
+ * `key:value,key:value` trace notes
+ */
+function parseNote(note: string | null): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const part of (note ?? '').split(',')) {
+    const sep = part.indexOf(':');
+    if (sep > 0) fields[part.slice(0, sep)] = part.slice(sep + 1);
+  }
+  return fields;
+}
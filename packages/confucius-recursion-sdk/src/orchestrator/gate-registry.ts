@@ -0,0 +1,214 @@
+/**
+ * Quality Gate Registry
+ *
+ * Named, composable output checks that run after the built-in gate
+ * (required keys, output schema, numeric count) on every supervised spawn:
+ * - severity 'block': errors reject the attempt (and trigger a retry)
+ * - severity 'warn': errors are recorded in the trace, the output is accepted
+ *
+ * Gates are registered in code (registerGate, OrchestratorConfig.qualityGates)
+ * or declared in .confucius/config.json as specs (see createGateFromSpec).
+ * Registering a name again replaces the earlier gate, so the default
+ * `handwave` gate can be re-configured (other phrases, warn only) or removed.
+ */
+
+import { DEFAULT_HANDWAVE_PHRASES, findHandwavePhrase } from './quality-gates.js';
+import { validateOutputSchema, type JsonSchema } from './output-schema.js';
+
+export type GateSeverity = 'block' | 'warn';
+
+/**
+ * What a gate sees for one attempt
+ */
+export interface GateContext {
+  output: Record<string, unknown>;
+  agentName: string;
+  depth: number;
+  prompt: string;
+  input: Record<string, unknown>;
+  attempt: number;
+  runId?: string;
+  parentRunId?: string | null;
+  signal?: AbortSignal;  // Aborts with the spawn (timeout or cancel)
+}
+
+export interface GateOutcome {
+  ok: boolean;
+  errors?: string[];
+}
+
+export type GateCheck = (ctx: GateContext) => GateOutcome | Promise<GateOutcome>;
+
+export interface QualityGateDefinition {
+  name: string;
+  severity?: GateSeverity;  // Default: block
+  depths?: number[];        // Default: every depth
+  check: GateCheck;
+}
+
+/**
+ * Result of one gate on one attempt
+ */
+export interface GateEvaluation {
+  name: string;
+  severity: GateSeverity;
+  ok: boolean;
+  errors: string[];
+}
+
+/**
+ * Declarative gate, as written in .confucius/config.json `qualityGates`
+ */
+export type GateSpec = {
+  name?: string;  // Default: the type
+  severity?: GateSeverity;
+  depths?: number[];
+} & (
+  | { type: 'handwave'; phrases?: string[] }
+  | { type: 'range'; path: string; min?: number; max?: number }
+  | { type: 'schema'; schema: JsonSchema }
+);
+
+export class QualityGateRegistry {
+  private gates: Map<string, QualityGateDefinition>;
+
+  constructor(gates: QualityGateDefinition[] = []) {
+    this.gates = new Map();
+    for (const gate of gates) this.register(gate);
+  }
+
+  /**
+   * Add a gate; a gate with the same name is replaced
+   */
+  register(gate: QualityGateDefinition): void {
+    if (!gate || !/^[\w.-]+$/.test(gate.name || '')) {
+      throw new Error(`invalid_gate_name: ${gate?.name}`);
+    }
+    if (typeof gate.check !== 'function') {
+      throw new Error(`invalid_gate_check: ${gate.name}`);
+    }
+    if (gate.severity && gate.severity !== 'block' && gate.severity !== 'warn') {
+      throw new Error(`invalid_gate_severity: ${gate.name}:${gate.severity}`);
+    }
+    this.gates.delete(gate.name);
+    this.gates.set(gate.name, { ...gate });
+  }
+
+  unregister(name: string): boolean {
+    return this.gates.delete(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.gates.keys());
+  }
+
+  /**
+   * Run every gate that applies to ctx.depth, in registration order
+   *
+   * A gate that throws fails with `gate_threw:<message>` instead of
+   * aborting the spawn.
+   */
+  async evaluate(ctx: GateContext): Promise<GateEvaluation[]> {
+    const results: GateEvaluation[] = [];
+
+    for (const gate of this.gates.values()) {
+      if (gate.depths && !gate.depths.includes(ctx.depth)) continue;
+
+      const severity = gate.severity ?? 'block';
+      try {
+        const outcome = await gate.check(ctx);
+        const errors = (outcome?.errors ?? []).map(String);
+        const ok = Boolean(outcome?.ok) && errors.length === 0;
+        results.push({ name: gate.name, severity, ok, errors: ok ? [] : errors.length ? errors : [`gate_failed:${gate.name}`] });
+      } catch (err) {
+        results.push({ name: gate.name, severity, ok: false, errors: [`gate_threw:${err instanceof Error ? err.message : String(err)}`] });
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Reject placeholder and handwave language (default gate)
+ */
+export function handwaveGate({
+  name = 'handwave',
+  phrases = DEFAULT_HANDWAVE_PHRASES,
+  severity,
+  depths
+}: { name?: string; phrases?: string[]; severity?: GateSeverity; depths?: number[] } = {}): QualityGateDefinition {
+  return {
+    name,
+    severity,
+    depths,
+    check: ({ output }) => {
+      const phrase = findHandwavePhrase(JSON.stringify(output), phrases);
+      return phrase ? { ok: false, errors: [`handwave_phrase:${phrase}`] } : { ok: true };
+    }
+  };
+}
+
+/**
+ * Require a numeric value at `path` (e.g. metrics.latency[0]) within [min, max]
+ */
+export function rangeGate({
+  name = 'range',
+  path,
+  min,
+  max,
+  severity,
+  depths
+}: { name?: string; path: string; min?: number; max?: number; severity?: GateSeverity; depths?: number[] }): QualityGateDefinition {
+  return {
+    name,
+    severity,
+    depths,
+    check: ({ output }) => {
+      const value = valueAtPath(output, path);
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { ok: false, errors: [`not_a_number:${path}`] };
+      }
+      if (min !== undefined && value < min) return { ok: false, errors: [`out_of_range:${path}:${value}<${min}`] };
+      if (max !== undefined && value > max) return { ok: false, errors: [`out_of_range:${path}:${value}>${max}`] };
+      return { ok: true };
+    }
+  };
+}
+
+/**
+ * Build a gate from a config.json spec
+ */
+export function createGateFromSpec(spec: GateSpec): QualityGateDefinition {
+  const common = { name: spec?.name ?? spec?.type, severity: spec?.severity, depths: spec?.depths };
+
+  switch (spec?.type) {
+    case 'handwave':
+      return handwaveGate({ ...common, phrases: spec.phrases });
+    case 'range':
+      if (typeof spec.path !== 'string') throw new Error(`invalid_gate_spec: ${common.name}: range needs path`);
+      return rangeGate({ ...common, path: spec.path, min: spec.min, max: spec.max });
+    case 'schema':
+      if (!spec.schema || typeof spec.schema !== 'object') throw new Error(`invalid_gate_spec: ${common.name}: schema needs schema`);
+      return {
+        ...common,
+        name: common.name as string,
+        check: ({ output }) => {
+          const errors = validateOutputSchema(output, spec.schema);
+          return { ok: errors.length === 0, errors };
+        }
+      };
+    default:
+      throw new Error(`invalid_gate_spec: unknown type ${(spec as { type?: string })?.type}`);
+  }
+}
+
+function valueAtPath(obj: unknown, path: string): unknown {
+  const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  let cur: unknown = obj;
+  for (const seg of segments) {
+    if (cur === null || typeof cur !== 'object') return undefined;
+    cur = (cur as Record<string, unknown>)[seg];
+  }
+  return cur;
+}
@@ -6,15 +6,42 @@
  * - Depth1 requests 2 workers at depth2
  * - Each depth2 requests 1 micro worker at depth3
  * - Supervisor validates, executes, and signs all spawns
- * - Depth3 workers provide nonce-based proof-of-execution
+ * - Depth3 micro workers provide nonce-based proof-of-execution
+ *
+ * runTask() generalizes the same supervision to arbitrary task graphs:
+ * agents may return any number of spawn_requests at any depth.
+ *
+ * Registry and trace are persisted through a RegistryStore (JSONL under
+ * .confucius/runs/<proofId>/ by default); resume(proofId) continues a
+ * crashed run from the runs that never returned.
  */
 
 import crypto from 'crypto';
-import { loadSupervisorSecret, sha256Hex } from './supervisor-crypto.js';
-import { SupervisorRunRegistry } from './supervisor-registry.js';
-import { SignedTrace } from './signed-trace.js';
+import { z } from 'zod';
+import {
+  exportPublicKeyPem,
+  loadSupervisorKeyPair,
+  loadSupervisorSecret,
+  publicKeyFingerprint,
+  sha256Hex,
+  signingKeyId,
+  type SignatureAlgorithm,
+  type SupervisorSigningKey
+} from './supervisor-crypto.js';
+import { SupervisorRunRegistry, type RunRecord } from './supervisor-registry.js';
+import { SignedTrace, type TraceAnchor, type TraceEvent } from './signed-trace.js';
 import { validateTrace } from './trace-validation.js';
-import { qualityGate, runWithRetry, QualityGateResult } from './quality-gates.js';
+import { qualityGate, runWithRetry, tightenPrompt, QualityGateResult } from './quality-gates.js';
+import type { OutputSchema } from './output-schema.js';
+import { QualityGateRegistry, handwaveGate, type GateContext, type GateEvaluation, type GateOutcome, type QualityGateDefinition } from './gate-registry.js';
+import { buildJudgePrompt, createFakeJudge, parseJudgeVerdict, type JudgeConfig } from './judge.js';
+import { createLimiter, mapWithConcurrency } from './concurrency.js';
+import { linkAbort, raceAbort } from './cancellation.js';
+import { buildPlanPrompt, simulatePlan, validatePlan, type TaskPlan } from './planning.js';
+import { JsonlRegistryStore, replayRuns, type RegistryStore, type ResumeEntry } from './registry-store.js';
+import { hasUsage, type SpawnUsage, type TokenUsage } from './usage.js';
+import { eventFromTrace, guardListener, type ConfuciusEvent, type ConfuciusEventListener, type LogEvent } from './events.js';
+import { silentLogger, type Logger } from '../logging.js';
 
 /**
  * Configuration for the orchestrator
@@ -22,44 +49,89 @@ import { qualityGate, runWithRetry, QualityGateResult } from './quality-gates.js
 export type OrchestratorConfig = {
   maxDepth?: number;
   maxSpawns?: number;
+  maxTokens?: number;  // Token budget over all spawns (adapter-reported usage)
+  maxCost?: number;    // Cost budget over all spawns (adapter-reported usage)
+  maxConcurrency?: number;  // Subagent calls in flight at once, across the whole spawn tree
   strictMode?: boolean;
   forceSleep?: boolean;
   spawnAdapter?: SpawnAdapter;
+  modelAdapter?: ModelAdapter;
   simulateWhenNoAdapter?: boolean;
   verbose?: boolean;
+  signal?: AbortSignal;
+  spawnTimeoutMs?: number;
+  depthTimeoutsMs?: Record<number, number>;
+  retry?: RetryPolicy;                      // Default: 2 attempts, no backoff
+  depthRetry?: Record<number, RetryPolicy>; // Per-depth overrides, merged over retry
+  qualityGates?: QualityGateDefinition[];   // Added after the default handwave gate (same name replaces it)
+  judge?: JudgeConfig;                      // Model-judged gate via runModel (off by default)
+  signingMode?: 'hmac' | 'ed25519';
+  signingPrivateKey?: crypto.KeyObject | string;  // Ed25519 PKCS#8 PEM or KeyObject; default from env
+  registryStore?: RegistryStore;  // Default: JSONL under .confucius/runs/<proofId>/
+  proofId?: string;               // Default: minted per orchestrator
+  onTraceEvent?: (event: TraceEvent) => void;  // Each signed event, as it is added
+  onEvent?: ConfuciusEventListener;  // Typed progress events, including each progress line as a log event
+  logger?: Logger;                   // Progress lines and diagnostics (default: silent)
 };
 
 /**
  * Normalize and freeze config to prevent mutations
  */
-export function normalizeConfig(cfg: OrchestratorConfig): Omit<Required<OrchestratorConfig>, 'spawnAdapter'> & { spawnAdapter?: SpawnAdapter } {
+export function normalizeConfig(cfg: OrchestratorConfig): Omit<Required<OrchestratorConfig>, 'spawnAdapter' | 'modelAdapter' | 'signal' | 'spawnTimeoutMs' | 'signingPrivateKey' | 'registryStore' | 'proofId' | 'judge' | 'maxTokens' | 'maxCost' | 'onTraceEvent' | 'onEvent'> & Pick<OrchestratorConfig, 'spawnAdapter' | 'modelAdapter' | 'signal' | 'spawnTimeoutMs' | 'signingPrivateKey' | 'registryStore' | 'proofId' | 'judge' | 'maxTokens' | 'maxCost' | 'onTraceEvent' | 'onEvent'> {
   const normalized = {
     maxDepth: cfg.maxDepth ?? 4,
     maxSpawns: cfg.maxSpawns ?? 10,
+    maxTokens: cfg.maxTokens,
+    maxCost: cfg.maxCost,
+    maxConcurrency: cfg.maxConcurrency ?? 4,
     strictMode: Boolean(cfg.strictMode),
     forceSleep: Boolean(cfg.forceSleep),
     simulateWhenNoAdapter: cfg.simulateWhenNoAdapter ?? false,
     spawnAdapter: cfg.spawnAdapter,
-    verbose: Boolean(cfg.verbose)
+    modelAdapter: cfg.modelAdapter,
+    verbose: Boolean(cfg.verbose),
+    signal: cfg.signal,
+    spawnTimeoutMs: cfg.spawnTimeoutMs,
+    depthTimeoutsMs: { ...(cfg.depthTimeoutsMs || {}) },
+    retry: { ...(cfg.retry || {}) },
+    depthRetry: { ...(cfg.depthRetry || {}) },
+    qualityGates: [...(cfg.qualityGates || [])],
+    judge: cfg.judge,
+    signingMode: cfg.signingMode ?? 'hmac',
+    signingPrivateKey: cfg.signingPrivateKey,
+    registryStore: cfg.registryStore,
+    proofId: cfg.proofId,
+    onTraceEvent: cfg.onTraceEvent,
+    onEvent: cfg.onEvent,
+    logger: cfg.logger ?? silentLogger
   };
   
   if (normalized.verbose) {
-    console.log(JSON.stringify({
-      where: 'orchestrator.constructor.rawCfg',
+    normalized.logger.debug('orchestrator.config', {
       keys: Object.keys(cfg),
       spawnAdapterType: typeof cfg.spawnAdapter
-    }));
+    });
   }
   
   return Object.freeze(normalized);
 }
 
+/**
+ * Quality gate retry policy for a spawn
+ */
+export interface RetryPolicy {
+  maxAttempts?: number;  // Total attempts including the first (>= 1)
+  backoffMs?: number;    // Delay before the first retry, doubled for each further retry
+}
+
 /**
  * Result from spawn execution
  */
 export interface SpawnResult {
   runId: string;
   output: unknown;
+  simulated?: boolean;  // Executor is a simulator, not a real agent runtime
+  usage?: SpawnUsage;   // What the call consumed, when the executor knows
 }
 
 /**
@@ -69,8 +141,18 @@ export type SpawnAdapter = (args: {
   agentName: string;
   prompt: string;
   input: unknown;
+  signal?: AbortSignal;
 }) => Promise<SpawnResult>;
 
+/**
+ * Adapter for single-step model calls (planning); resolves to the parsed output
+ */
+export type ModelAdapter = (args: {
+  prompt: string;
+  input: unknown;
+  signal?: AbortSignal;
+}) => Promise<unknown>;
+
 /**
  * Result of spawn gate enforcement
  */
@@ -90,6 +172,9 @@ export interface SupervisedSpawnInput {
   prompt: string;
   requiredKeys?: string[];
   minNumericCount: number;
+  siblingIndex?: number | null;
+  outputSchema?: OutputSchema | OutputSchema[];  // zod or JSON Schema; violations fail the quality gate
+  proofOfExecution?: boolean;  // Mint a nonce the agent must answer with hashProof (depth3 proof workers)
 }
 
 /**
@@ -101,6 +186,7 @@ export interface SupervisedSpawnResult {
   runId: string;
   output?: Record<string, any>;
   attempts?: number;
+  gateErrors?: string[];  // Last quality gate errors when reason is quality_gate_failed
 }
 
 /**
@@ -122,11 +208,12 @@ export interface Depth3Proof {
 }
 
 /**
- * Spawn request structure for depth1 orchestrator
+ * Spawn request structure returned by any agent that wants children
  */
 export interface SpawnRequest {
   child_name: string;
   input: Record<string, any>;
+  prompt?: string;
 }
 
 /**
@@ -153,6 +240,31 @@ export interface Depth3Output {
   timestamp: number;
 }
 
+/**
+ * Root of a generic task graph run
+ */
+export interface TaskSpec {
+  agentName?: string;
+  input?: Record<string, unknown>;
+  prompt?: string;
+  requiredKeys?: string[];
+  minNumericCount?: number;
+  outputSchema?: OutputSchema;  // Root output schema; child spawn requests are always schema-checked
+  plan?: boolean;  // Run the planning phase first; input.task / input.taskInput feed the planner
+}
+
+/**
+ * Node in the executed task graph (one per supervised spawn)
+ */
+export interface TaskNode {
+  runId: string;
+  agentName: string;
+  depth: number;
+  output: Record<string, unknown>;
+  children: TaskNode[];
+  usage?: TokenUsage;  // This node plus its subtree, when adapters report usage
+}
+
 /**
  * Verification details for proof validation
  */
@@ -176,11 +288,28 @@ export interface ProofResult {
   verification: VerificationDetails;
   trace: any[];
   reason?: string;
+  gateErrors?: string[];
+  judgeCalls?: number;  // Judge model calls made (when a judge is configured)
+  usage?: TokenUsage;   // Summed spawn usage (when reported, or a token/cost budget is set)
+  proofId?: string;
+  plan?: TaskPlan;
+  signature?: ProofSignature;
   output?: {
-    depth2Outputs: Record<string, any>[];
+    depth2Outputs?: Record<string, any>[];
+    tree?: TaskNode;
   };
 }
 
+/**
+ * How the trace was signed; Ed25519 proofs carry the key needed to verify them
+ */
+export interface ProofSignature {
+  algorithm: SignatureAlgorithm;
+  publicKey?: string;             // SPKI PEM (ed25519 only)
+  publicKeyFingerprint?: string;  // sha256 of the DER SPKI (ed25519 only)
+  anchor?: TraceAnchor;           // Signed event count and final chain head of `trace`
+}
+
 /**
  * Parameters for subagent execution
  */
@@ -189,6 +318,7 @@ export interface SubagentExecutionParams {
   input: Record<string, any>;
   prompt: string;
   runId: string;
+  signal?: AbortSignal;
 }
 
 /**
@@ -208,58 +338,152 @@ declare global {
   var runSubagent: ((params: { description: string; prompt: string }) => Promise<string>) | undefined;
 }
 
+/**
+ * Output schemas enforced by the quality gate
+ *
+ * Agents cannot pick their own depth (the supervisor sets it), but a depth
+ * they do pass along must at least be a number.
+ */
+const spawnRequestSchema = z.object({
+  child_name: z.string().min(1),
+  input: z.object({ depth: z.number().optional() }).passthrough().optional(),
+  prompt: z.string().optional()
+});
+
+const depth1OutputSchema = z.object({
+  spawn_requests: z.array(spawnRequestSchema).length(2)
+});
+
+const depth2OutputSchema = z.object({
+  metric: z.number(),
+  spawn_request: spawnRequestSchema
+});
+
+const depth3OutputSchema = z.object({
+  hashProof: z.string(),
+  timestamp: z.number()
+});
+
+const taskNodeOutputSchema = z.object({
+  spawn_requests: z.array(spawnRequestSchema).optional(),
+  spawn_request: spawnRequestSchema.nullish()
+});
+
 /**
  * Hardened orchestrator for recursive proof-of-execution with cryptographic verification
  */
 export class RecursionProofOrchestratorHardened {
   private maxDepth: number;
   private maxSpawns: number;
+  private maxTokens: number | undefined;
+  private maxCost: number | undefined;
+  private maxConcurrency: number;
+  private spawnSlots: ReturnType<typeof createLimiter>;  // maxConcurrency over the whole spawn tree
   private strictMode: boolean;
   // @ts-expect-error - forceSleep reserved for future use
   private forceSleep: boolean;
   private spawnAdapter: SpawnAdapter | undefined;
-  private secret: Buffer;
+  private modelAdapter: ModelAdapter | undefined;
+  private plan: TaskPlan | null;
+  private signal: AbortSignal | undefined;
+  private spawnTimeoutMs: number | undefined;
+  private depthTimeoutsMs: Record<number, number>;
+  private retry: RetryPolicy;
+  private depthRetry: Record<number, RetryPolicy>;
+  private gates: QualityGateRegistry;
+  private judge: (Required<Pick<JudgeConfig, 'threshold' | 'maxCalls'>> & JudgeConfig) | null;
+  private judgeCalls: number;
+  private secret: Buffer | null;
+  private signingKey: SupervisorSigningKey;
   private registry: SupervisorRunRegistry;
   private trace: SignedTrace;
+  private store: RegistryStore;
+  private proofId: string;
+  private resuming: boolean;
+  private resumable: Map<string, RunRecord>;
+  private resumedOutputs: Map<string, unknown>;
   private runtimeMode: string | null;
   private depth3ProofsVerified: Depth3Proof[];
+  private onEvent: ConfuciusEventListener | undefined;
+  private logger: Logger;
 
-  constructor({ maxDepth = 4, maxSpawns = 10, strictMode = false, forceSleep = false, spawnAdapter = undefined, simulateWhenNoAdapter = false, verbose = false }: OrchestratorConfig) {
-    console.log(
-      JSON.stringify({
-        where: "constructor.entry",
-        keys: Object.keys(arguments[0] ?? {}),
-        spawnAdapterType: typeof (arguments[0] as any)?.spawnAdapter,
-        simulateWhenNoAdapter: (arguments[0] as any)?.simulateWhenNoAdapter,
-        simulateWhenNoAdapterDestructured: simulateWhenNoAdapter,
-        verbose: (arguments[0] as any)?.verbose,
-        verboseDestructured: verbose
-      })
-    );
-    
+  constructor({ maxDepth = 4, maxSpawns = 10, maxTokens = undefined, maxCost = undefined, maxConcurrency = 4, strictMode = false, forceSleep = false, spawnAdapter = undefined, modelAdapter = undefined, signal = undefined, spawnTimeoutMs = undefined, depthTimeoutsMs = {}, retry = {}, depthRetry = {}, qualityGates = [], judge = undefined, signingMode = 'hmac', signingPrivateKey = undefined, registryStore = undefined, proofId = undefined, onTraceEvent = undefined, onEvent = undefined, logger = silentLogger }: OrchestratorConfig) {
+    this.onEvent = guardListener(onEvent, 'onEvent', logger);
+    this.logger = logger;
     this.maxDepth = maxDepth;
     this.maxSpawns = maxSpawns;
+    this.maxTokens = maxTokens;
+    this.maxCost = maxCost;
+    this.maxConcurrency = maxConcurrency;
+    this.spawnSlots = createLimiter(maxConcurrency);
     this.strictMode = strictMode;
     this.forceSleep = forceSleep;
     this.spawnAdapter = spawnAdapter;
-    
-    console.log(
-      JSON.stringify({
-        where: "constructor.after_assign",
-        hasSpawnAdapter: typeof this.spawnAdapter === "function"
-      })
-    );
+    this.modelAdapter = modelAdapter;
+    this.plan = null;
+    this.signal = signal;
+    this.spawnTimeoutMs = spawnTimeoutMs;
+    this.depthTimeoutsMs = { ...depthTimeoutsMs };
+    this.retry = { ...retry };
+    this.depthRetry = { ...depthRetry };
+    this.gates = new QualityGateRegistry([handwaveGate(), ...qualityGates]);
+    this.judge = judge
+      ? { ...judge, threshold: judge.threshold ?? 0.7, maxCalls: judge.maxCalls ?? maxSpawns * 2 }
+      : null;
+    this.judgeCalls = 0;
+    if (this.judge) {
+      this.gates.register({
+        name: this.judge.name ?? 'judge',
+        severity: this.judge.severity,
+        depths: this.judge.depths,
+        check: ctx => this.runJudge(ctx)
+      });
+    }
 
-    this.secret = loadSupervisorSecret();
+
+    if (signingMode === 'ed25519') {
+      const privateKey = typeof signingPrivateKey === 'string' ? crypto.createPrivateKey(signingPrivateKey) : signingPrivateKey;
+      const keyPair = privateKey
+        ? { privateKey, publicKey: crypto.createPublicKey(privateKey) }
+        : loadSupervisorKeyPair(logger);
+      this.secret = null;
+      this.signingKey = { algorithm: 'ed25519', ...keyPair };
+    } else {
+      this.secret = loadSupervisorSecret(logger);
+      this.signingKey = { algorithm: 'hmac-sha256', secret: this.secret };
+    }
+    this.store = registryStore ?? new JsonlRegistryStore();
+    this.proofId = proofId ?? `proof_${new Date().toISOString().replace(/[-:.]/g, '')}_${crypto.randomBytes(4).toString('hex')}`;
+    this.resuming = false;
+    this.resumable = new Map();
+    this.resumedOutputs = new Map();
     this.registry = new SupervisorRunRegistry();
-    this.trace = new SignedTrace({ supervisorSecret: this.secret });
+    const traceListener = guardListener(onTraceEvent, 'onTraceEvent', logger);
+    this.trace = new SignedTrace({
+      signingKey: this.signingKey,
+      onEvent: event => {
+        // The event is already signed and in the trace; a failing store or
+        // listener must not abort the spawn that added it
+        try {
+          this.store.append(this.proofId, { type: 'event', event });
+        } catch (err) {
+          logger.warn('registry_store.append_failed', { proofId: this.proofId, eventId: event.eventId, error: err });
+        }
+        traceListener?.(event);
+        const progress = eventFromTrace(event);
+        if (progress) this.emit(progress);
+      }
+    });
     
     this.runtimeMode = null; // Will be set to 'real' or 'simulated' on first execution
     this.depth3ProofsVerified = [];
   }
 
   /**
-   * Enforce spawn gate - depth and spawn count limits
+   * Enforce spawn gate - depth, spawn count and token/cost budgets
+   *
+   * Budgets are checked before a spawn, against usage reported so far: the
+   * spawn that crosses a budget completes, the next one is refused.
    */
   enforceSpawnGate({ requestedDepth }: { requestedDepth: number }): SpawnGateResult {
     if (requestedDepth >= this.maxDepth) {
@@ -268,11 +492,404 @@ export class RecursionProofOrchestratorHardened {
     if (this.registry.totalSpawns >= this.maxSpawns) {
       return { ok: false, reason: 'spawn_limit' };
     }
+    if (this.maxTokens !== undefined || this.maxCost !== undefined) {
+      const usage = this.registry.getUsage();
+      if ((this.maxTokens !== undefined && usage.totalTokens >= this.maxTokens) ||
+          (this.maxCost !== undefined && usage.cost >= this.maxCost)) {
+        return { ok: false, reason: 'token_budget' };
+      }
+    }
     return { ok: true };
   }
 
+  /**
+   * Proof usage totals, when adapters reported any or a budget is set
+   */
+  private usageResult(): { usage?: TokenUsage } {
+    const usage = this.registry.getUsage();
+    return hasUsage(usage) || this.maxTokens !== undefined || this.maxCost !== undefined ? { usage } : {};
+  }
+
+  private emit(event: ConfuciusEvent): void {
+    this.onEvent?.(event);
+  }
+
+  /**
+   * Progress line: to the logger, and to onEvent as a log event
+   */
+  private log(level: LogEvent['level'], message: string): void {
+    this.logger[level]('orchestrator.progress', { message });
+    this.emit({ type: 'log', ts: Date.now(), level, message });
+  }
+
+  private logGateFailure = ({ attempt, errors }: { attempt: number; errors: string[] }): void => {
+    this.log('info', `[Quality Gate] Attempt ${attempt} failed: ${errors.join(', ')}`);
+  };
+
+  /**
+   * Report the end of a run (done event) and pass its result through
+   */
+  private finishRun(result: ProofResult): ProofResult {
+    this.emit({
+      type: 'done',
+      ts: Date.now(),
+      ok: result.ok,
+      ...(result.reason ? { reason: result.reason } : {}),
+      spawnsExecuted: result.spawnsExecuted,
+      deepestDepthReached: result.deepestDepthReached,
+      ...(result.usage ? { usage: result.usage } : {})
+    });
+    return result;
+  }
+
+  /**
+   * Planning phase: model proposes a plan, gate validates, supervisor signs
+   *
+   * Without a modelAdapter the plan is simulated (non-strict) or the run
+   * fails hard (strict), same as spawns without runSubagent.
+   */
+  async createPlan({ task, taskInput }: { task: string; taskInput?: unknown }): Promise<{ ok: true; plan: TaskPlan } | { ok: false; reason: string }> {
+    // Resumed run: the plan was already approved and signed
+    if (this.resuming && this.plan) return { ok: true, plan: this.plan };
+
+    const prompt = buildPlanPrompt({ task, taskInput, maxDepth: this.maxDepth, maxSpawns: this.maxSpawns });
+    const inputHash = this.trace.hashOf({ task, taskInput: taskInput ?? null, prompt });
+
+    if (!this.modelAdapter) {
+      if (this.strictMode) {
+        this.log('info', `  [planner] ✗ STRICT MODE: runModel tool missing`);
+        this.trace.addEvent({
+          kind: 'limit',
+          depth: 0,
+          agentName: 'supervisor',
+          parentRunId: null,
+          childRunId: null,
+          note: 'tool_missing_strict'
+        });
+        return { ok: false, reason: 'tool_missing_strict' };
+      }
+      this.markRuntimeMode('simulated');
+    }
+
+    this.log('info', '[Depth 0] Creating plan...');
+
+    const planAbort = linkAbort(this.signal, this.timeoutForDepth(0));
+    let plan: TaskPlan;
+    try {
+      const rr = await runWithRetry({
+        attemptFn: async () => this.modelAdapter
+          ? await raceAbort(this.modelAdapter({ prompt, input: taskInput, signal: planAbort.signal }), planAbort.signal)
+          : simulatePlan(task),
+        maxAttempts: 2,
+        gateFn: validatePlan,
+        tightenPromptFn: null,
+        onGateFailure: this.logGateFailure
+      });
+
+      if (!rr.ok) {
+        this.trace.addEvent({
+          kind: 'limit',
+          depth: 0,
+          agentName: 'planner',
+          inputHash,
+          outputHash: this.trace.hashOf(rr.lastResult ?? null),
+          note: 'plan_gate_failed'
+        });
+        return { ok: false, reason: 'plan_gate_failed' };
+      }
+
+      plan = rr.result as TaskPlan;
+    } catch (error) {
+      if (!planAbort.signal.aborted) throw error;
+
+      const timedOut = planAbort.timedOut();
+      this.trace.addEvent({
+        kind: timedOut ? 'timeout' : 'cancelled',
+        depth: 0,
+        agentName: 'planner',
+        inputHash,
+        note: timedOut ? 'plan_timeout' : 'aborted_by_caller'
+      });
+      return { ok: false, reason: timedOut ? 'plan_timeout' : 'plan_cancelled' };
+    } finally {
+      planAbort.dispose();
+    }
+
+    this.plan = plan;
+    // Like event records: a failing store must not reject a run whose plan passed
+    try {
+      this.store.append(this.proofId, { type: 'plan', plan });
+    } catch (err) {
+      this.logger.warn('registry_store.append_failed', { proofId: this.proofId, record: 'plan', error: err });
+    }
+    this.trace.addEvent({
+      kind: 'plan_created',
+      depth: 0,
+      agentName: 'planner',
+      inputHash,
+      outputHash: this.trace.hashOf(plan),
+      note: `steps:${plan.steps.length}`
+    });
+
+    this.log('info', `[Depth 0] ✓ Plan created with ${plan.steps.length} step(s)`);
+    return { ok: true, plan };
+  }
+
+  /**
+   * Check a spawn against the approved plan
+   *
+   * Plan steps name the root's direct children, so only depth2 agents are
+   * matched against them: the depth1 root is chosen by the supervisor, and
+   * deeper workers are spawned by a step to carry it out, bounded only by
+   * the plan's maxDepth (which applies to every spawn). Returns the
+   * violation note, or null when allowed.
+   */
+  checkAgainstPlan({ agentName, depth }: { agentName: string; depth: number }): string | null {
+    if (!this.plan) return null;
+
+    if (typeof this.plan.maxDepth === 'number' && depth > this.plan.maxDepth) {
+      return `plan_depth_exceeded:${depth}`;
+    }
+    if (depth === 2 && !this.plan.steps.some(step => step.agentName === agentName)) {
+      return `plan_unlisted_agent:${agentName}`;
+    }
+    return null;
+  }
+
+  /**
+   * Resume a persisted proof
+   *
+   * Reloads registry, trace and plan from the store, then re-enters the
+   * original entrypoint: returned runs are replayed from their stored
+   * outputs (no new events), runs still marked spawned (or aborted) are
+   * re-executed under their original runId and nonce. Requires the same
+   * signing key, so the resumed trace continues one verifiable chain.
+   */
+  async resume(proofId: string): Promise<ProofResult> {
+    if (this.trace.export().length > 0 || this.registry.totalSpawns > 0) {
+      throw new Error('resume_requires_fresh_orchestrator: create a new orchestrator to resume');
+    }
+
+    const records = this.store.load(proofId);
+    const header = records.find(r => r.type === 'header');
+    if (!header || header.type !== 'header') {
+      throw new Error(`proof_not_found: ${proofId}`);
+    }
+    if (header.keyId !== signingKeyId(this.signingKey)) {
+      throw new Error(`resume_key_mismatch: ${proofId} was signed with a different supervisor key`);
+    }
+
+    const { runs, outputs } = replayRuns(records);
+    const events = records.flatMap(r => (r.type === 'event' ? [r.event] : []));
+    const plans = records.flatMap(r => (r.type === 'plan' ? [r.plan] : []));
+
+    this.proofId = proofId;
+    this.registry.restore(runs);
+    this.trace.restore(events);
+    this.judgeCalls = events.filter(ev => ev.kind === 'judge').length;
+    this.plan = plans.length > 0 ? plans[plans.length - 1] : null;
+    this.resumedOutputs = outputs;
+    this.resumable = new Map(runs.map(run => [resumeKey(run), run]));
+    this.resuming = true;
+
+    if (events.some(ev => ev.note === 'simulation_warning')) {
+      this.runtimeMode = 'simulated';
+    } else if (events.some(ev => ev.kind === 'return')) {
+      this.runtimeMode = 'real';
+    }
+
+    const pending = runs.filter(run => run.status !== 'returned').length;
+    this.log('info', `[Resume] ${proofId}: ${runs.length - pending} returned, ${pending} pending`);
+    this.trace.addEvent({
+      kind: 'resume',
+      depth: 0,
+      agentName: 'supervisor',
+      parentRunId: null,
+      childRunId: null,
+      note: `returned:${runs.length - pending},pending:${pending}`
+    });
+
+    return header.entry.kind === 'depth3'
+      ? this.runDepth3Proof(header.entry.options)
+      : this.runTask(header.entry.task);
+  }
+
+  /**
+   * Record what is running (first call only; resumed runs keep their header)
+   */
+  private begin(entry: ResumeEntry): void {
+    if (this.resuming) return;
+
+    this.store.append(this.proofId, {
+      type: 'header',
+      proofId: this.proofId,
+      createdAt: Date.now(),
+      keyId: signingKeyId(this.signingKey),
+      entry
+    });
+  }
+
+  /**
+   * Take the persisted run for this spawn position, if resuming
+   */
+  private claimResumedRun(pos: { parentRunId: string | null; agentName: string; depth: number; siblingIndex: number | null }): RunRecord | null {
+    if (!this.resuming) return null;
+
+    const key = resumeKey({ ...pos, parentRunId: pos.parentRunId || null });
+    const run = this.resumable.get(key);
+    if (!run) return null;
+
+    this.resumable.delete(key);
+    return run;
+  }
+
+  /**
+   * Register a named quality gate (replaces a gate with the same name)
+   */
+  registerGate(gate: QualityGateDefinition): void {
+    this.gates.register(gate);
+  }
+
+  /**
+   * Remove a named quality gate, e.g. the default `handwave` gate
+   */
+  unregisterGate(name: string): boolean {
+    return this.gates.unregister(name);
+  }
+
+  /**
+   * Judge gate: score the output with a model against the rubric
+   *
+   * Each call is a signed `judge` event and counts against judge.maxCalls,
+   * not maxSpawns. Without a model the fake judge is used (simulated
+   * runtime), or the gate fails in strict mode.
+   */
+  private async runJudge(ctx: GateContext): Promise<GateOutcome> {
+    const judge = this.judge!;
+    const judgeEvent = { depth: ctx.depth, agentName: ctx.agentName, parentRunId: ctx.parentRunId ?? null, childRunId: ctx.runId ?? null };
+
+    if (this.judgeCalls >= judge.maxCalls) {
+      this.trace.addEvent({ kind: 'limit', ...judgeEvent, note: 'judge_limit' });
+      return { ok: false, errors: ['judge_limit'] };
+    }
+
+    let model = judge.model ?? this.modelAdapter;
+    if (!model) {
+      if (this.strictMode) {
+        this.trace.addEvent({ kind: 'limit', ...judgeEvent, note: 'tool_missing_strict' });
+        return { ok: false, errors: ['judge_model_missing'] };
+      }
+      this.markRuntimeMode('simulated');
+      model = createFakeJudge();
+    }
+
+    this.judgeCalls += 1;
+    const prompt = buildJudgePrompt({ rubric: judge.rubric, prompt: ctx.prompt, output: ctx.output });
+    const raw = await model({ prompt, input: { rubric: judge.rubric ?? null, prompt: ctx.prompt, output: ctx.output }, signal: ctx.signal });
+    const verdict = parseJudgeVerdict(raw);
+
+    const errors = !verdict.ok
+      ? [verdict.error!]
+      : verdict.score < judge.threshold
+        ? [`judge_score:${verdict.score}<${judge.threshold}`, ...(verdict.rationale ? [`judge_rationale:${verdict.rationale.slice(0, 300)}`] : [])]
+        : [];
+
+    this.trace.addEvent({
+      kind: 'judge',
+      ...judgeEvent,
+      inputHash: this.trace.hashOf({ prompt }),
+      outputHash: this.trace.hashOf(raw ?? null),
+      note: verdict.ok ? `score:${verdict.score},threshold:${judge.threshold}` : verdict.error,
+      ...(errors.length ? { gateErrors: errors } : {})
+    });
+
+    return { ok: errors.length === 0, errors };
+  }
+
+  /**
+   * Built-in gate plus registered gates for one output
+   *
+   * Blocking gate failures become errors, warn-severity failures warnings.
+   */
+  private async checkOutput({
+    output,
+    requiredKeys,
+    minNumericCount,
+    outputSchema,
+    context
+  }: {
+    output: Record<string, unknown>;
+    requiredKeys: string[];
+    minNumericCount: number;
+    outputSchema?: OutputSchema | OutputSchema[];
+    context: Omit<GateContext, 'output'>;
+  }): Promise<{ gate: QualityGateResult; evaluations: GateEvaluation[] }> {
+    // Handwave phrases are the `handwave` registry gate, so they stay configurable
+    const gate = qualityGate({ output, requiredKeys, minNumericCount, schema: outputSchema, badPhrases: [] });
+    if (!output || typeof output !== 'object') return { gate, evaluations: [] };
+
+    const evaluations = await this.gates.evaluate({ output, ...context });
+    const errors = [...gate.errors];
+    const warnings: string[] = [];
+    for (const ev of evaluations) {
+      if (!ev.ok) (ev.severity === 'block' ? errors : warnings).push(...ev.errors);
+    }
+
+    return {
+      gate: { ok: errors.length === 0, errors, numericCount: gate.numericCount, ...(warnings.length ? { warnings } : {}) },
+      evaluations
+    };
+  }
+
+  /**
+   * Replay a returned run from its stored output, if that output still passes the gates
+   */
+  private async replayReturnedRun({ run, requiredKeys, minNumericCount, outputSchema, prompt, input }: { run: RunRecord; requiredKeys: string[]; minNumericCount: number; outputSchema?: OutputSchema | OutputSchema[]; prompt: string; input: Record<string, unknown> }): Promise<SupervisedSpawnResult | null> {
+    if (run.status !== 'returned' || !this.resumedOutputs.has(run.runId)) return null;
+
+    const output = this.resumedOutputs.get(run.runId) as Record<string, unknown>;
+    // The stored output must be the one the signed return committed to
+    if (this.trace.hashOf(output) !== run.outputHash) {
+      this.log('warn', `  [resume] ✗ ${run.agentName} (${run.runId}) stored output does not match its hash`);
+      return null;
+    }
+    const { gate } = await this.checkOutput({
+      output,
+      requiredKeys,
+      minNumericCount,
+      outputSchema,
+      context: { agentName: run.agentName, depth: run.depth, prompt, input, attempt: 1, runId: run.runId, parentRunId: run.parentRunId }
+    });
+    if (!gate.ok) return null;
+    if (run.nonce && !this.verifyDepth3Proof({ runId: run.runId, output, nonce: run.nonce }).ok) return null;
+
+    this.log('info', `  [resume] ✓ ${run.agentName} (${run.runId}) replayed from store`);
+    return { ok: true, runId: run.runId, output };
+  }
+
+  /**
+   * Resolve the spawn timeout for a depth (per-depth override, else global)
+   */
+  timeoutForDepth(depth: number): number | undefined {
+    return this.depthTimeoutsMs[depth] ?? this.spawnTimeoutMs;
+  }
+
+  /**
+   * Resolve the retry policy for a depth (per-depth override merged over the default)
+   */
+  retryPolicyForDepth(depth: number): Required<RetryPolicy> {
+    const policy = { ...this.retry, ...(this.depthRetry[depth] || {}) };
+    return {
+      maxAttempts: Math.max(1, Math.floor(policy.maxAttempts ?? 2)),
+      backoffMs: Math.max(0, policy.backoffMs ?? 0)
+    };
+  }
+
   /**
    * Supervised spawn with quality gates and retry
+   *
+   * A rejected attempt is retried with a tightened prompt (gate errors plus
+   * the trimmed rejected output) and recorded as a signed `retry` event.
    */
   async supervisedSpawn({
     parentRunId,
@@ -281,61 +898,132 @@ export class RecursionProofOrchestratorHardened {
     input,
     prompt,
     requiredKeys = [],
-    minNumericCount = 0
+    minNumericCount = 0,
+    siblingIndex = null,
+    outputSchema,
+    proofOfExecution = false
   }: SupervisedSpawnInput): Promise<SupervisedSpawnResult> {
-    // Enforce spawn gate
-    const gate = this.enforceSpawnGate({ requestedDepth: depth });
-    if (!gate.ok) {
+    // Gate check, runId minting and registerSpawn must stay synchronous (no
+    // await in between) so concurrent siblings cannot both pass the same
+    // spawn_limit check before either is counted.
+    if (this.signal?.aborted) {
       this.trace.addEvent({
-        kind: 'limit',
+        kind: 'cancelled',
         depth,
         agentName: 'supervisor',
         parentRunId,
         childRunId: null,
-        note: gate.reason
+        note: 'aborted_before_spawn',
+        siblingIndex
       });
-      return { ok: false, reason: gate.reason, runId: '' };
+      return { ok: false, reason: 'spawn_cancelled', runId: '' };
     }
 
-    // Mint supervisor-controlled run ID
-    const runId = this.registry.mintRunId(agentName);
-    
-    // Generate nonce for depth3 proof-of-execution
-    let nonce: string | null = null;
-    if (depth === 3) {
-      nonce = crypto.randomBytes(16).toString('hex');
-      input.nonce = nonce;
-      input.runId = runId; // Provide runId for hash computation
+    // Resumed run: replay returned runs, re-execute the ones that never returned
+    const resumed = this.claimResumedRun({ parentRunId, agentName, depth, siblingIndex });
+    if (resumed) {
+      const replayed = await this.replayReturnedRun({ run: resumed, requiredKeys, minNumericCount, outputSchema, prompt, input });
+      if (replayed) return replayed;
     }
-    
-    const inputHash = this.trace.hashOf(input);
 
-    // Register spawn in registry with nonce
-    this.registry.registerSpawn({ runId, parentRunId, agentName, depth, inputHash, nonce });
+    let runId: string;
+    let nonce: string | null = null;
 
-    // Record signed spawn event
-    this.trace.addEvent({
-      kind: 'spawn',
-      depth,
-      agentName,
-      parentRunId,
-      childRunId: runId,
-      inputHash
-    });
+    if (resumed) {
+      runId = resumed.runId;
+      nonce = resumed.nonce;
+      if (nonce) {
+        input.nonce = nonce;
+        input.runId = runId;
+      }
+      this.log('info', `  [resume] ↻ ${agentName} (${runId}) re-executing`);
+    } else {
+      const planViolation = this.checkAgainstPlan({ agentName, depth });
+      if (planViolation) {
+        this.trace.addEvent({
+          kind: 'limit',
+          depth,
+          agentName: 'supervisor',
+          parentRunId,
+          childRunId: null,
+          note: planViolation,
+          siblingIndex
+        });
+        return { ok: false, reason: 'plan_violation', runId: '' };
+      }
 
-    // Execute with quality gate and retry
-    const attemptFn = async () => {
-      const output = await this.simulateSubagentExecution({
+      const gate = this.enforceSpawnGate({ requestedDepth: depth });
+      if (!gate.ok) {
+        this.trace.addEvent({
+          kind: 'limit',
+          depth,
+          agentName: 'supervisor',
+          parentRunId,
+          childRunId: null,
+          note: gate.reason,
+          siblingIndex
+        });
+        return { ok: false, reason: gate.reason, runId: '' };
+      }
+
+      // Mint supervisor-controlled run ID
+      runId = this.registry.mintRunId(agentName);
+
+      // Generate nonce for proof-of-execution (opt-in per spawn)
+      if (proofOfExecution) {
+        nonce = crypto.randomBytes(16).toString('hex');
+        input.nonce = nonce;
+        input.runId = runId; // Provide runId for hash computation
+      }
+
+      const inputHash = this.trace.hashOf(input);
+
+      // Register spawn in registry with nonce
+      const run = this.registry.registerSpawn({ runId, parentRunId, agentName, depth, inputHash, nonce, siblingIndex });
+      this.store.append(this.proofId, { type: 'spawn', run });
+
+      // Record signed spawn event; a depth3 nonce is committed by its hash so
+      // a verifier can tell real depth3 proofs from made-up ones
+      this.trace.addEvent({
+        kind: 'spawn',
+        depth,
         agentName,
-        input,
-        prompt,
-        runId
+        parentRunId,
+        childRunId: runId,
+        inputHash,
+        siblingIndex,
+        ...(nonce ? { nonceHash: sha256Hex(nonce) } : {})
       });
+    }
+
+    // One abort scope per spawn, covering all of its retry attempts
+    const timeoutMs = this.timeoutForDepth(depth);
+    const spawnAbort = linkAbort(this.signal, timeoutMs);
+
+    // Execute with quality gate and retry
+    const { maxAttempts, backoffMs } = this.retryPolicyForDepth(depth);
+    let attemptPrompt = prompt;
+    let currentAttempt = 1;
+
+    const attemptFn = async ({ attempt }: { attempt: number }) => {
+      currentAttempt = attempt;
+      const output = await raceAbort(
+        this.spawnSlots(() => this.simulateSubagentExecution({
+          agentName,
+          input,
+          prompt: attemptPrompt,
+          runId,
+          signal: spawnAbort.signal
+        }), spawnAbort.signal),
+        spawnAbort.signal
+      );
       
       const outputHash = this.trace.hashOf(output);
 
       // Register return in registry
       this.registry.registerReturn({ runId, outputHash });
+      const usage = this.registry.getRun(runId)?.usage;
+      this.store.append(this.proofId, { type: 'return', runId, outputHash, output, returnedAt: Date.now(), ...(usage ? { usage } : {}) });
 
       // Record signed return event
       this.trace.addEvent({
@@ -344,40 +1032,106 @@ export class RecursionProofOrchestratorHardened {
         agentName,
         parentRunId,
         childRunId: runId,
-        outputHash
+        outputHash,
+        siblingIndex
       });
 
       return { runId, output };
     };
 
-    const gateFn = (out: { runId: string; output: Record<string, any> }): QualityGateResult => {
-      const gate = qualityGate({
-        output: out.output,
-        requiredKeys,
-        minNumericCount
-      });
+    const gateFn = async (out: { runId: string; output: Record<string, any> }): Promise<QualityGateResult> => {
+      const { gate, evaluations } = await raceAbort(
+        this.checkOutput({
+          output: out.output,
+          requiredKeys,
+          minNumericCount,
+          outputSchema,
+          context: { agentName, depth, prompt: attemptPrompt, input, attempt: currentAttempt, runId, parentRunId, signal: spawnAbort.signal }
+        }),
+        spawnAbort.signal
+      );
+
+      // One signed event per registered gate result
+      const outputHash = this.trace.hashOf(out.output);
+      for (const ev of evaluations) {
+        this.trace.addEvent({
+          kind: ev.ok ? 'quality_gate_pass' : 'quality_gate_fail',
+          depth,
+          agentName,
+          parentRunId,
+          childRunId: runId,
+          outputHash,
+          note: `gate:${ev.name},severity:${ev.severity},attempt:${currentAttempt}`,
+          ...(ev.ok ? {} : { gateErrors: ev.errors }),
+          siblingIndex
+        });
+      }
       
-      // Additional verification for depth3: check hashProof
-      if (depth === 3 && gate.ok) {
-        return this.verifyDepth3Proof({ runId, output: out.output, nonce: nonce! });
+      // Additional verification for proof-of-execution spawns: check hashProof
+      if (nonce && gate.ok) {
+        return this.verifyDepth3Proof({ runId, output: out.output, nonce });
       }
       
       return gate;
     };
 
-    const rr = await runWithRetry({
-      attemptFn,
-      maxAttempts: 2,
-      gateFn,
-      tightenPromptFn: null
-    });
+    let rr: Awaited<ReturnType<typeof runWithRetry>>;
+    try {
+      rr = await runWithRetry({
+        attemptFn,
+        maxAttempts,
+        gateFn,
+        backoffMs,
+        signal: spawnAbort.signal,
+        onGateFailure: this.logGateFailure,
+        tightenPromptFn: ({ attempt, gateErrors, lastResult }) => {
+          attemptPrompt = tightenPrompt({
+            prompt,
+            attempt: attempt + 1,
+            gateErrors,
+            rejectedOutput: lastResult?.output
+          });
+          this.trace.addEvent({
+            kind: 'retry',
+            depth,
+            agentName,
+            parentRunId,
+            childRunId: runId,
+            outputHash: this.trace.hashOf(lastResult?.output),
+            note: `attempt:${attempt + 1}/${maxAttempts}`,
+            gateErrors,
+            siblingIndex
+          });
+        }
+      });
+    } catch (error) {
+      if (!spawnAbort.signal.aborted) throw error;
+
+      const timedOut = spawnAbort.timedOut();
+      const status = timedOut ? 'timed_out' : 'cancelled';
+      this.registry.registerAbort({ runId, status });
+      this.store.append(this.proofId, { type: 'abort', runId, status, abortedAt: Date.now() });
+      this.trace.addEvent({
+        kind: timedOut ? 'timeout' : 'cancelled',
+        depth,
+        agentName,
+        parentRunId,
+        childRunId: runId,
+        note: timedOut ? `timeout_ms:${timeoutMs}` : 'aborted_by_caller',
+        siblingIndex
+      });
+      return { ok: false, reason: timedOut ? 'spawn_timeout' : 'spawn_cancelled', runId };
+    } finally {
+      spawnAbort.dispose();
+    }
 
     if (!rr.ok) {
       return {
         ok: false,
         reason: 'quality_gate_failed',
         runId,
-        attempts: rr.attempts
+        attempts: rr.attempts,
+        gateErrors: rr.gate?.errors
       };
     }
 
@@ -404,13 +1158,13 @@ export class RecursionProofOrchestratorHardened {
     const expectedHash = sha256Hex(`${nonce}:${runId}`);
     
     if (output.hashProof !== expectedHash) {
-      console.log(`  [Depth3 Verification] ✗ Hash mismatch`);
-      console.log(`    Expected: ${expectedHash}`);
-      console.log(`    Got:      ${output.hashProof}`);
+      this.log('info', `  [Depth3 Verification] ✗ Hash mismatch`);
+      this.log('info', `    Expected: ${expectedHash}`);
+      this.log('info', `    Got:      ${output.hashProof}`);
       return { ok: false, errors: ['depth3_hash_proof_mismatch'], numericCount: 0 };
     }
     
-    console.log(`  [Depth3 Verification] ✓ Hash proof verified`);
+    this.log('info', `  [Depth3 Verification] ✓ Hash proof verified`);
     this.depth3ProofsVerified.push({ runId, nonce, hashProof: output.hashProof });
     
     return { ok: true, errors: [], numericCount: 0 };
@@ -420,86 +1174,97 @@ export class RecursionProofOrchestratorHardened {
    * Run depth 3 proof with fan-out pattern
    * 
    * Pattern: Main → depth1 → 2x depth2 → 2x depth3
+   * With `plan: true`, a signed plan_created event precedes the first spawn.
    */
-  async runDepth3Proof(): Promise<ProofResult> {
-    console.log('='.repeat(80));
-    console.log('DEPTH 3 FAN-OUT RECURSION PROOF');
-    console.log('='.repeat(80));
-    console.log(`Configuration: maxDepth=${this.maxDepth}, maxSpawns=${this.maxSpawns}`);
-    console.log(`Strict mode: ${this.strictMode}`);
-    console.log();
+  async runDepth3Proof({ plan = false, task = 'Depth 3 fan-out recursion proof' }: { plan?: boolean; task?: string } = {}): Promise<ProofResult> {
+    this.log('info', '='.repeat(80));
+    this.log('info', 'DEPTH 3 FAN-OUT RECURSION PROOF');
+    this.log('info', '='.repeat(80));
+    this.log('info', `Configuration: maxDepth=${this.maxDepth}, maxSpawns=${this.maxSpawns}`);
+    this.log('info', `Strict mode: ${this.strictMode}`);
+    this.log('info', '');
+
+    this.begin({ kind: 'depth3', options: { plan, task } });
 
     const root = { depth: 0, maxDepth: this.maxDepth };
 
+    if (plan) {
+      const planned = await this.createPlan({ task });
+      if (!planned.ok) return this.fail(planned.reason);
+    }
+
     // Spawn depth1 orchestrator
-    console.log('[Depth 0] Spawning depth1 orchestrator...');
+    this.log('info', '[Depth 0] Spawning depth1 orchestrator...');
     const depth1 = await this.supervisedSpawn({
       parentRunId: null,
       agentName: 'depth1_orchestrator',
       depth: 1,
-      input: { ...root, depth: 1 },
+      input: { ...root, depth: 1, ...(this.plan ? { plan: this.plan.steps } : {}) },
       prompt: 'Return JSON with spawn_requests for two depth2 workers.',
-      requiredKeys: ['spawn_requests'],
-      minNumericCount: 0
+      minNumericCount: 0,
+      outputSchema: depth1OutputSchema
     });
 
-    if (!depth1.ok) return this.fail(depth1.reason!);
-
-    // Validate depth1 returned 2 spawn requests
-    const spawnReqs: SpawnRequest[] = Array.isArray(depth1.output!.spawn_requests)
-      ? depth1.output!.spawn_requests
-      : [];
-    
-    if (spawnReqs.length !== 2) {
-      return this.fail('depth1_missing_two_requests');
-    }
-
-    console.log(`[Depth 1] ✓ Orchestrator returned ${spawnReqs.length} spawn requests`);
+    if (!depth1.ok) return this.fail(depth1.reason!, depth1.gateErrors);
+
+    // Schema gate guarantees exactly 2 well-formed spawn requests
+    const spawnReqs: SpawnRequest[] = depth1.output!.spawn_requests;
+
+    this.log('info', `[Depth 1] ✓ Orchestrator returned ${spawnReqs.length} spawn requests`);
+
+    // Spawn depth2 branches (each depth2 → its depth3) concurrently
+    const branches = await mapWithConcurrency(
+      spawnReqs,
+      this.maxConcurrency,
+      async (req, i): Promise<{ ok: true; output: Record<string, unknown> } | { ok: false; reason: string; gateErrors?: string[] }> => {
+        this.log('info', `[Depth 1] Spawning depth2 worker ${i + 1}...`);
+
+        const d2 = await this.supervisedSpawn({
+          parentRunId: depth1.runId,
+          agentName: req.child_name,
+          depth: 2,
+          input: req.input || { depth: 2, maxDepth: this.maxDepth },
+          prompt: 'Return JSON and include spawn_request for one depth3 worker.',
+          minNumericCount: 1,
+          siblingIndex: i,
+          outputSchema: depth2OutputSchema
+        });
 
-    const depth2Outputs: Record<string, any>[] = [];
+        if (!d2.ok) return { ok: false, reason: d2.reason!, gateErrors: d2.gateErrors };
 
-    // Spawn each depth2 worker
-    for (let i = 0; i < spawnReqs.length; i++) {
-      const req = spawnReqs[i];
-      console.log(`[Depth 1] Spawning depth2 worker ${i + 1}...`);
-
-      const d2 = await this.supervisedSpawn({
-        parentRunId: depth1.runId,
-        agentName: req.child_name || `depth2_worker_${String.fromCharCode(97 + i)}`,
-        depth: 2,
-        input: req.input || { depth: 2, maxDepth: this.maxDepth },
-        prompt: 'Return JSON and include spawn_request for one depth3 worker.',
-        requiredKeys: ['spawn_request', 'metric'],
-        minNumericCount: 1
-      });
+        this.log('info', `[Depth 2] ✓ Worker ${i + 1} completed`);
 
-      if (!d2.ok) return this.fail(d2.reason!);
+        const d3req = d2.output!.spawn_request as SpawnRequest;
 
-      console.log(`[Depth 2] ✓ Worker ${i + 1} completed`);
-      depth2Outputs.push(d2.output!);
+        this.log('info', `[Depth 2] Spawning depth3 micro worker ${i + 1}...`);
 
-      // Validate depth2 returned depth3 spawn request
-      const d3req = d2.output!.spawn_request as SpawnRequest;
-      if (!d3req || !d3req.child_name) {
-        return this.fail('depth2_missing_depth3_request');
-      }
+        // Spawn depth3 micro worker
+        const d3 = await this.supervisedSpawn({
+          parentRunId: d2.runId,
+          agentName: d3req.child_name,
+          depth: 3,
+          input: d3req.input || { depth: 3, maxDepth: this.maxDepth },
+          prompt: 'Compute cryptographic proof-of-execution.',
+          minNumericCount: 1,
+          siblingIndex: 0,
+          outputSchema: depth3OutputSchema,
+          proofOfExecution: true
+        });
 
-      console.log(`[Depth 2] Spawning depth3 micro worker ${i + 1}...`);
-
-      // Spawn depth3 micro worker
-      const d3 = await this.supervisedSpawn({
-        parentRunId: d2.runId,
-        agentName: d3req.child_name,
-        depth: 3,
-        input: d3req.input || { depth: 3, maxDepth: this.maxDepth },
-        prompt: 'Compute cryptographic proof-of-execution.',
-        requiredKeys: ['hashProof', 'timestamp'],
-        minNumericCount: 1
-      });
+        if (!d3.ok) return { ok: false, reason: d3.reason!, gateErrors: d3.gateErrors };
 
-      if (!d3.ok) return this.fail(d3.reason!);
+        this.log('info', `[Depth 3] ✓ Micro worker ${i + 1} completed with proof`);
+        return { ok: true, output: d2.output! };
+      },
+      branch => !branch.ok
+    );
 
-      console.log(`[Depth 3] ✓ Micro worker ${i + 1} completed with proof`);
+    // Report the first failure in request order, not completion order
+    const depth2Outputs: Record<string, any>[] = [];
+    for (const branch of branches) {
+      if (!branch.ok) throw branch.error;
+      if (!branch.value.ok) return this.fail(branch.value.reason, branch.value.gateErrors);
+      depth2Outputs.push(branch.value.output);
     }
 
     // Record merge event
@@ -515,7 +1280,7 @@ export class RecursionProofOrchestratorHardened {
     // Validate trace signatures
     const traceEvents = this.trace.export();
     const verification = validateTrace({
-      supervisorSecret: this.secret,
+      ...this.verifyKeyArgs(),
       traceEvents,
       registry: this.registry
     });
@@ -525,19 +1290,19 @@ export class RecursionProofOrchestratorHardened {
     // Check if depth3 proofs were verified
     const depth3ProofVerified = this.depth3ProofsVerified.length === 2;
 
-    console.log();
-    console.log('='.repeat(80));
-    console.log('PROOF VALIDATION');
-    console.log('='.repeat(80));
-    console.log(`✓ Deepest depth reached: ${deepest}`);
-    console.log(`✓ Spawns executed: ${this.registry.totalSpawns}`);
-    console.log(`✓ All signatures valid: ${verification.ok}`);
-    console.log(`✓ Depth3 proofs verified: ${depth3ProofVerified} (${this.depth3ProofsVerified.length}/2)`);
-    console.log(`✓ Runtime mode: ${this.runtimeMode}`);
-    console.log(`✓ Strict mode: ${this.strictMode}`);
-    console.log('='.repeat(80));
-
-    return {
+    this.log('info', '');
+    this.log('info', '='.repeat(80));
+    this.log('info', 'PROOF VALIDATION');
+    this.log('info', '='.repeat(80));
+    this.log('info', `✓ Deepest depth reached: ${deepest}`);
+    this.log('info', `✓ Spawns executed: ${this.registry.totalSpawns}`);
+    this.log('info', `✓ All signatures valid: ${verification.ok}`);
+    this.log('info', `✓ Depth3 proofs verified: ${depth3ProofVerified} (${this.depth3ProofsVerified.length}/2)`);
+    this.log('info', `✓ Runtime mode: ${this.runtimeMode}`);
+    this.log('info', `✓ Strict mode: ${this.strictMode}`);
+    this.log('info', '='.repeat(80));
+
+    return this.finishRun({
       ok: verification.ok && depth3ProofVerified,
       maxDepth: this.maxDepth,
       deepestDepthReached: deepest,
@@ -551,17 +1316,221 @@ export class RecursionProofOrchestratorHardened {
         errors: verification.errors
       },
       trace: traceEvents,
+      ...(this.plan ? { plan: this.plan } : {}),
+      ...(this.judge ? { judgeCalls: this.judgeCalls } : {}),
+      ...this.usageResult(),
+      proofId: this.proofId,
+      signature: this.signatureInfo(traceEvents),
       output: { depth2Outputs }
+    });
+  }
+
+  /**
+   * Run a generic task graph
+   *
+   * Pattern: Main → root agent → whatever spawn_requests / spawn_request each
+   * agent returns, recursively, until no agent asks for children. Every hop
+   * goes through supervisedSpawn, so depth/spawn limits, quality gates and
+   * signed trace apply exactly as in runDepth3Proof.
+   */
+  async runTask(task: TaskSpec = {}): Promise<ProofResult> {
+    this.log('info', '='.repeat(80));
+    this.log('info', 'TASK GRAPH RECURSION');
+    this.log('info', '='.repeat(80));
+    this.log('info', `Configuration: maxDepth=${this.maxDepth}, maxSpawns=${this.maxSpawns}`);
+    this.log('info', `Strict mode: ${this.strictMode}`);
+    this.log('info', '');
+
+    this.begin({ kind: 'task', task });
+
+    const rootSpec: SpawnRequest = {
+      child_name: task.agentName || 'depth1_orchestrator',
+      input: { ...(task.input || {}) },
+      prompt: task.prompt || 'Return JSON with spawn_requests for the child workers this task needs.'
     };
+
+    if (task.plan) {
+      const planned = await this.createPlan({
+        task: String(rootSpec.input.task ?? rootSpec.prompt),
+        taskInput: rootSpec.input.taskInput
+      });
+      if (!planned.ok) return this.fail(planned.reason);
+      rootSpec.input.plan = planned.plan.steps;
+    }
+
+    const walked = await this.spawnTaskNode({
+      parentRunId: null,
+      depth: 1,
+      request: rootSpec,
+      requiredKeys: task.requiredKeys,
+      minNumericCount: task.minNumericCount,
+      outputSchema: task.outputSchema
+    });
+
+    if (!walked.ok) return this.fail(walked.reason, walked.gateErrors);
+
+    // Record merge event
+    this.trace.addEvent({
+      kind: 'merge',
+      depth: 0,
+      agentName: 'supervisor',
+      parentRunId: null,
+      childRunId: null,
+      note: 'merged_task_graph_results'
+    });
+
+    // Validate trace signatures
+    const traceEvents = this.trace.export();
+    const verification = validateTrace({
+      ...this.verifyKeyArgs(),
+      traceEvents,
+      registry: this.registry
+    });
+
+    const stats = this.registry.getStats();
+    const deepest = verification.ok ? stats.deepestDepth : 0;
+
+    // Every nonce the supervisor minted must have a verified hash proof
+    const noncesMinted = this.registry.getAllRuns().filter(r => r.nonce !== null).length;
+    const depth3ProofVerified = this.depth3ProofsVerified.length === noncesMinted;
+
+    this.log('info', '');
+    this.log('info', '='.repeat(80));
+    this.log('info', 'TASK GRAPH VALIDATION');
+    this.log('info', '='.repeat(80));
+    this.log('info', `✓ Deepest depth reached: ${deepest}`);
+    this.log('info', `✓ Spawns executed: ${this.registry.totalSpawns}`);
+    this.log('info', `✓ All signatures valid: ${verification.ok}`);
+    this.log('info', `✓ Depth3 proofs verified: ${depth3ProofVerified} (${this.depth3ProofsVerified.length}/${noncesMinted})`);
+    this.log('info', `✓ Runtime mode: ${this.runtimeMode}`);
+    this.log('info', `✓ Strict mode: ${this.strictMode}`);
+    this.log('info', '='.repeat(80));
+
+    return this.finishRun({
+      ok: verification.ok && depth3ProofVerified,
+      maxDepth: this.maxDepth,
+      deepestDepthReached: deepest,
+      spawnsExecuted: this.registry.totalSpawns,
+      runtimeMode: this.runtimeMode!,
+      strictMode: this.strictMode,
+      verification: {
+        allSignaturesValid: verification.ok,
+        depth3ProofVerified,
+        depth3Proofs: this.depth3ProofsVerified,
+        errors: verification.errors
+      },
+      trace: traceEvents,
+      ...(this.plan ? { plan: this.plan } : {}),
+      ...(this.judge ? { judgeCalls: this.judgeCalls } : {}),
+      ...this.usageResult(),
+      proofId: this.proofId,
+      signature: this.signatureInfo(traceEvents),
+      output: { tree: walked.node }
+    });
+  }
+
+  /**
+   * Spawn one task graph node, then recurse into the children it requests
+   */
+  private async spawnTaskNode({
+    parentRunId,
+    depth,
+    request,
+    requiredKeys = [],
+    minNumericCount = 0,
+    siblingIndex = null,
+    outputSchema
+  }: {
+    parentRunId: string | null;
+    depth: number;
+    request: SpawnRequest;
+    requiredKeys?: string[];
+    minNumericCount?: number;
+    siblingIndex?: number | null;
+    outputSchema?: OutputSchema;
+  }): Promise<{ ok: true; node: TaskNode } | { ok: false; reason: string; gateErrors?: string[] }> {
+    this.log('info', `[Depth ${depth - 1}] Spawning ${request.child_name} at depth ${depth}...`);
+
+    // Supervisor owns depth: agents cannot claim a shallower depth to dodge the gate
+    const res = await this.supervisedSpawn({
+      parentRunId,
+      agentName: request.child_name,
+      depth,
+      input: { maxDepth: this.maxDepth, ...(request.input || {}), depth },
+      prompt: request.prompt || 'Return JSON. Include spawn_requests only if this task needs child workers.',
+      requiredKeys,
+      minNumericCount,
+      siblingIndex,
+      // Spawn requests are validated here, before any child is spawned from them
+      outputSchema: outputSchema ? [taskNodeOutputSchema, outputSchema] : taskNodeOutputSchema
+    });
+
+    if (!res.ok) return { ok: false, reason: res.reason!, gateErrors: res.gateErrors };
+
+    const node: TaskNode = {
+      runId: res.runId,
+      agentName: request.child_name,
+      depth,
+      output: res.output!,
+      children: []
+    };
+
+    const childRequests = this.extractSpawnRequests(res.output!);
+    this.log('info', `[Depth ${depth}] ✓ ${request.child_name} returned ${childRequests.length} spawn request(s)`);
+
+    const children = await mapWithConcurrency(
+      childRequests,
+      this.maxConcurrency,
+      (childRequest, i) => this.spawnTaskNode({
+        parentRunId: res.runId,
+        depth: depth + 1,
+        request: childRequest,
+        siblingIndex: i
+      }),
+      child => !child.ok
+    );
+
+    // Children stay in request order, whatever order they finished in
+    for (const child of children) {
+      if (!child.ok) throw child.error;
+      if (!child.value.ok) return child.value;
+      node.children.push(child.value.node);
+    }
+
+    const usage = this.registry.getSubtreeUsage(res.runId);
+    if (hasUsage(usage)) node.usage = usage;
+
+    return { ok: true, node };
+  }
+
+  /**
+   * Collect child spawn requests from an agent output
+   *
+   * Accepts both spawn_requests (array) and spawn_request (single).
+   */
+  private extractSpawnRequests(output: Record<string, unknown>): SpawnRequest[] {
+    const requests: SpawnRequest[] = [];
+
+    // Shapes were checked by taskNodeOutputSchema before any child is spawned
+    if (Array.isArray(output.spawn_requests)) {
+      requests.push(...(output.spawn_requests as SpawnRequest[]));
+    }
+    if (output.spawn_request) {
+      requests.push(output.spawn_request as SpawnRequest);
+    }
+
+    return requests;
   }
 
   /**
    * Return failure object with trace
    */
-  fail(reason: string): ProofResult {
-    return {
+  fail(reason: string, gateErrors?: string[]): ProofResult {
+    const traceEvents = this.trace.export();
+    return this.finishRun({
       ok: false,
       reason,
+      ...(gateErrors?.length ? { gateErrors } : {}),
       maxDepth: this.maxDepth,
       deepestDepthReached: 0,
       spawnsExecuted: this.registry.totalSpawns,
@@ -573,25 +1542,33 @@ export class RecursionProofOrchestratorHardened {
         depth3Proofs: [],
         errors: []
       },
-      trace: this.trace.export()
-    };
+      trace: traceEvents,
+      ...(this.plan ? { plan: this.plan } : {}),
+      ...(this.judge ? { judgeCalls: this.judgeCalls } : {}),
+      ...this.usageResult(),
+      proofId: this.proofId,
+      signature: this.signatureInfo(traceEvents)
+    });
   }
 
   /**
    * Execute subagent with runtime detection
    */
-  async simulateSubagentExecution({ agentName, input, prompt, runId }: SubagentExecutionParams): Promise<Record<string, any>> {
-    console.log(`  [${agentName}] DEBUG: has spawnAdapter=${!!this.spawnAdapter} strictMode=${this.strictMode}`);
-    console.log(`  [${agentName}] Executing (runId: ${runId.substring(0, 20)}...)`);
+  async simulateSubagentExecution({ agentName, input, prompt, runId, signal }: SubagentExecutionParams): Promise<Record<string, any>> {
+    this.log('info', `  [${agentName}] Executing (runId: ${runId.substring(0, 20)}...)`);
 
-    // Use spawnAdapter if provided (worker mode)
+    // Use spawnAdapter if provided (worker mode, or caller's ConfuciusAdapter)
     if (this.spawnAdapter) {
       const spawnResult = await this.spawnAdapter({
         agentName,
-        prompt,
-        input
+        prompt: this.buildSubagentPrompt({ agentName, input, prompt, runId }),
+        input,
+        signal
       });
-      console.log(`  [${agentName}] ✓ Returned from adapter with runId: ${spawnResult.runId}`);
+      this.log('info', `  [${agentName}] ✓ Returned from adapter with runId: ${spawnResult.runId}`);
+
+      this.markRuntimeMode(spawnResult.simulated ? 'simulated' : 'real');
+      if (spawnResult.usage) this.registry.recordUsage(runId, spawnResult.usage);
       
       // Strict validation: spawnAdapter MUST return valid output
       if (typeof spawnResult.output === 'undefined') {
@@ -610,7 +1587,7 @@ export class RecursionProofOrchestratorHardened {
     if (isStandalone) {
       // Strict mode: fail hard if tool missing
       if (this.strictMode) {
-        console.log(`  [${agentName}] ✗ STRICT MODE: runSubagent tool missing`);
+        this.log('info', `  [${agentName}] ✗ STRICT MODE: runSubagent tool missing`);
         
         this.trace.addEvent({
           kind: 'limit',
@@ -625,27 +1602,15 @@ export class RecursionProofOrchestratorHardened {
       }
       
       // Non-strict mode: use simulation with warning
-      console.log(`  [${agentName}] ⚠️  Using simulation mode (runSubagent not available)`);
+      this.log('info', `  [${agentName}] ⚠️  Using simulation mode (runSubagent not available)`);
       
-      if (this.runtimeMode === null) {
-        this.runtimeMode = 'simulated';
-        this.trace.addEvent({
-          kind: 'limit',
-          depth: 0,
-          agentName: 'supervisor',
-          parentRunId: null,
-          childRunId: null,
-          note: 'simulation_warning'
-        });
-      }
+      this.markRuntimeMode('simulated');
       
       return this.simulateForTesting({ agentName, input, runId });
     }
     
     // Set runtime mode to real on first actual execution
-    if (this.runtimeMode === null) {
-      this.runtimeMode = 'real';
-    }
+    this.markRuntimeMode('real');
 
     // Construct detailed prompt based on depth and expected output
     const fullPrompt = this.buildSubagentPrompt({ agentName, input, prompt, runId });
@@ -660,16 +1625,63 @@ export class RecursionProofOrchestratorHardened {
       // Parse JSON response
       const output = JSON.parse(result);
       
-      console.log(`  [${agentName}] ✓ Returned ${Object.keys(output).length} keys`);
+      this.log('info', `  [${agentName}] ✓ Returned ${Object.keys(output).length} keys`);
       
       return output;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`  [${agentName}] ✗ Execution failed:`, errorMessage);
+      this.log('error', `  [${agentName}] ✗ Execution failed: ${errorMessage}`);
       throw new Error(`Subagent ${agentName} failed: ${errorMessage}`);
     }
   }
 
+  /**
+   * Signing mode, the anchor over `traceEvents` and, for Ed25519, the public
+   * key that verifies this proof
+   */
+  signatureInfo(traceEvents: TraceEvent[]): ProofSignature {
+    const anchor = this.trace.anchor(traceEvents);
+    if (this.signingKey.algorithm !== 'ed25519') {
+      return { algorithm: this.signingKey.algorithm, anchor };
+    }
+    return {
+      algorithm: 'ed25519',
+      publicKey: exportPublicKeyPem(this.signingKey.publicKey),
+      publicKeyFingerprint: publicKeyFingerprint(this.signingKey.publicKey),
+      anchor
+    };
+  }
+
+  /**
+   * Verification key for validateTrace (public key only in Ed25519 mode)
+   */
+  private verifyKeyArgs(): { supervisorSecret: Buffer } | { publicKey: crypto.KeyObject } {
+    return this.signingKey.algorithm === 'ed25519'
+      ? { publicKey: this.signingKey.publicKey }
+      : { supervisorSecret: this.signingKey.secret };
+  }
+
+  /**
+   * Record the runtime mode on first execution (plan or spawn)
+   *
+   * Simulation is flagged once with a signed simulation_warning.
+   */
+  private markRuntimeMode(mode: 'real' | 'simulated'): void {
+    if (this.runtimeMode !== null) return;
+
+    this.runtimeMode = mode;
+    if (mode === 'simulated') {
+      this.trace.addEvent({
+        kind: 'limit',
+        depth: 0,
+        agentName: 'supervisor',
+        parentRunId: null,
+        childRunId: null,
+        note: 'simulation_warning'
+      });
+    }
+  }
+
   /**
    * Build detailed prompt for subagent execution
    */
@@ -687,7 +1699,7 @@ CRITICAL: You must return ONLY valid JSON. No markdown, no explanation, no code
       return `${baseContext}
 
 Your task: ${input.task || 'Orchestrate depth2 workers'}
-
+${typeof input.taskInput === 'undefined' ? '' : `\nTask input (JSON):\n${JSON.stringify(input.taskInput, null, 2)}\n`}${Array.isArray(input.plan) ? `\nApproved plan (one spawn request per step, child_name = agentName; unlisted workers are rejected):\n${JSON.stringify(input.plan, null, 2)}\n` : ''}
 You must return JSON with this exact structure:
 {
   "spawn_requests": [
@@ -702,7 +1714,7 @@ You must return JSON with this exact structure:
   ]
 }
 
-Return exactly 2 spawn requests. Each spawn_request must have child_name and input fields.`;
+${prompt} Each spawn_request must have child_name and input fields.`;
     }
 
     // Depth2: Worker that spawns 1 depth3 micro worker
@@ -804,27 +1816,9 @@ ${prompt}`;
   }
 }
 
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
+/**
+ * Spawn position of a run: same parent, agent, depth and sibling slot
+ */
+function resumeKey(run: { parentRunId: string | null; agentName: string; depth: number; siblingIndex?: number | null }): string {
+  return `${run.parentRunId ?? ''}|${run.agentName}|${run.depth}|${run.siblingIndex ?? ''}`;
+}
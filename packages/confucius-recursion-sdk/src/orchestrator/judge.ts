@@ -0,0 +1,118 @@
+/**
+ * Model-Judged Quality Gate
+ *
+ * Keyword gates cannot tell whether an output actually answers its prompt.
+ * The judge sends the spawn prompt, the candidate output and a rubric to a
+ * model (ConfuciusAdapter.runModel via ModelAdapter) and expects:
+ *
+ *   { "score": 0.0-1.0, "rationale": "..." }
+ *
+ * The orchestrator registers the judge as a named gate, signs a `judge`
+ * event per call and counts calls against their own budget (maxCalls),
+ * separate from maxSpawns.
+ */
+
+import type { ModelAdapter } from './hardened-orchestrator.js';
+import type { GateSeverity } from './gate-registry.js';
+
+export interface JudgeConfig {
+  rubric?: string;         // Default: DEFAULT_JUDGE_RUBRIC
+  threshold?: number;      // Minimum score to pass, 0-1 (default 0.7)
+  maxCalls?: number;       // Judge call budget (default: 2 x maxSpawns)
+  model?: ModelAdapter;    // Default: the orchestrator's modelAdapter
+  name?: string;           // Gate name (default 'judge')
+  severity?: GateSeverity; // Default: block
+  depths?: number[];       // Default: every depth
+}
+
+export interface JudgeVerdict {
+  ok: boolean;
+  score: number;
+  rationale: string;
+  error?: string;
+}
+
+export const DEFAULT_JUDGE_RUBRIC = [
+  'Score how well the output answers the prompt:',
+  '- 1.0: fully answers it with concrete, specific content',
+  '- 0.5: partially answers it, or is vague where specifics were asked for',
+  '- 0.0: does not answer it, is off-topic, or is placeholder text'
+].join('\n');
+
+/**
+ * Build the judge prompt for one candidate output
+ */
+export function buildJudgePrompt({
+  rubric = DEFAULT_JUDGE_RUBRIC,
+  prompt,
+  output,
+  maxOutputChars = 4000
+}: {
+  rubric?: string;
+  prompt: string;
+  output: unknown;
+  maxOutputChars?: number;
+}): string {
+  let candidate = JSON.stringify(output, null, 2) ?? String(output);
+  if (candidate.length > maxOutputChars) {
+    candidate = `${candidate.slice(0, maxOutputChars)}\n... [trimmed ${candidate.length - maxOutputChars} chars]`;
+  }
+
+  return `You are a strict reviewer judging a subagent's output.
+
+${rubric}
+
+Prompt given to the subagent:
+${prompt}
+
+Subagent output:
+${candidate}
+
+Return ONLY valid JSON: {"score": <number from 0 to 1>, "rationale": "<one or two sentences>"}`;
+}
+
+/**
+ * Parse a judge model response (object, or JSON text possibly in a code fence)
+ */
+export function parseJudgeVerdict(raw: unknown): JudgeVerdict {
+  let value: unknown = raw;
+
+  if (typeof value === 'string') {
+    const text = value.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+    try {
+      value = JSON.parse(text);
+    } catch {
+      return { ok: false, score: 0, rationale: '', error: 'judge_unparseable' };
+    }
+  }
+
+  const verdict = (typeof value === 'object' && value !== null ? value : {}) as { score?: unknown; rationale?: unknown };
+  const score = typeof verdict.score === 'string' ? Number(verdict.score) : verdict.score;
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 1) {
+    return { ok: false, score: 0, rationale: '', error: 'judge_unparseable' };
+  }
+
+  return {
+    ok: true,
+    score,
+    rationale: typeof verdict.rationale === 'string' ? verdict.rationale : ''
+  };
+}
+
+/**
+ * Deterministic judge for tests and simulated runs
+ *
+ * Scores outputs with `scoreFn` (default: 1 for any non-empty object), so
+ * the same output always gets the same verdict without a model.
+ */
+export function createFakeJudge(scoreFn: (output: unknown) => number = defaultFakeScore): ModelAdapter {
+  return async ({ input }) => {
+    const output = (input as { output?: unknown } | undefined)?.output;
+    const score = scoreFn(output);
+    return { score, rationale: `fake judge: score ${score}` };
+  };
+}
+
+function defaultFakeScore(output: unknown): number {
+  return output && typeof output === 'object' && Object.keys(output).length > 0 ? 1 : 0;
+}
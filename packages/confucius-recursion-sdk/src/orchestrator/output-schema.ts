@@ -0,0 +1,173 @@
+/**
+ * Output Schemas for Quality Gates
+ *
+ * A spawn may declare the shape of its output as either:
+ * - a zod schema (anything with safeParse), or
+ * - a JSON Schema object (the subset below)
+ *
+ * Both report failures as path-qualified strings, e.g.
+ *   spawn_requests[1].input.depth: expected number
+ *
+ * Supported JSON Schema keywords: type, properties, required,
+ * additionalProperties (false only), items, minItems, maxItems, enum,
+ * const, minimum, maximum, minLength.
+ */
+
+import type { ZodIssue, ZodTypeAny } from 'zod';
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+export type OutputSchema = ZodTypeAny | JsonSchema;
+
+/**
+ * Validate an output against a zod or JSON Schema
+ *
+ * @returns path-qualified errors; empty when the output conforms
+ */
+export function validateOutputSchema(output: unknown, schema: OutputSchema): string[] {
+  if (isZodSchema(schema)) {
+    const parsed = schema.safeParse(output);
+    return parsed.success ? [] : parsed.error.issues.map(formatZodIssue);
+  }
+
+  const errors: string[] = [];
+  checkJsonSchema(output, schema, [], errors);
+  return errors;
+}
+
+/**
+ * zod schemas are recognised by their safeParse method
+ */
+export function isZodSchema(schema: unknown): schema is ZodTypeAny {
+  return !!schema && typeof (schema as { safeParse?: unknown }).safeParse === 'function';
+}
+
+/**
+ * Render a value path as spawn_requests[1].input.depth
+ */
+export function formatSchemaPath(path: Array<string | number>): string {
+  if (path.length === 0) return '(root)';
+
+  return path.reduce<string>((out, seg) => {
+    if (typeof seg === 'number') return `${out}[${seg}]`;
+    return out ? `${out}.${seg}` : seg;
+  }, '');
+}
+
+function formatZodIssue(issue: ZodIssue): string {
+  const at = formatSchemaPath(issue.path);
+
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.received === 'undefined' ? `${at}: required` : `${at}: expected ${issue.expected}`;
+    case 'invalid_literal':
+      return `${at}: expected ${JSON.stringify(issue.expected)}`;
+    case 'invalid_enum_value':
+      return `${at}: expected one of ${issue.options.map(o => JSON.stringify(o)).join('|')}`;
+    case 'unrecognized_keys':
+      return `${at}: unexpected keys ${issue.keys.join(', ')}`;
+    case 'too_small':
+      return `${at}: ${boundMessage(issue.type, issue.exact ? 'exactly' : 'at least', Number(issue.minimum))}`;
+    case 'too_big':
+      return `${at}: ${boundMessage(issue.type, issue.exact ? 'exactly' : 'at most', Number(issue.maximum))}`;
+    default:
+      return `${at}: ${issue.message}`;
+  }
+}
+
+function boundMessage(kind: string, relation: 'exactly' | 'at least' | 'at most', bound: number): string {
+  if (kind === 'array') return `expected ${relation} ${bound} items`;
+  if (kind === 'string') return `expected ${relation} ${bound} characters`;
+  if (relation === 'exactly') return `expected ${bound}`;
+  return `expected ${relation === 'at least' ? '>=' : '<='} ${bound}`;
+}
+
+/**
+ * JSON type name of a value, as used in the `type` keyword
+ */
+function jsonTypeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType | 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = jsonTypeOf(value);
+  if (type === 'number') return (actual === 'number' || actual === 'integer') && Number.isFinite(value);
+  return actual === type;
+}
+
+function checkJsonSchema(value: unknown, schema: JsonSchema, path: Array<string | number>, errors: string[]): void {
+  const at = formatSchemaPath(path);
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      errors.push(`${at}: expected ${types.join('|')}`);
+      return;
+    }
+  }
+
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${at}: expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some(v => JSON.stringify(v) === JSON.stringify(value))) {
+    errors.push(`${at}: expected one of ${schema.enum.map(v => JSON.stringify(v)).join('|')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: expected >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: expected <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${at}: expected at least ${schema.minLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}: expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => checkJsonSchema(item, schema.items!, [...path, i], errors));
+    }
+    return;
+  }
+
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) errors.push(`${formatSchemaPath([...path, key])}: required`);
+    }
+
+    for (const [key, sub] of Object.entries(schema.properties || {})) {
+      if (obj[key] !== undefined) checkJsonSchema(obj[key], sub, [...path, key], errors);
+    }
+
+    if (schema.additionalProperties === false) {
+      const extra = Object.keys(obj).filter(k => !(schema.properties && k in schema.properties));
+      if (extra.length) errors.push(`${at}: unexpected keys ${extra.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Planning Phase
+ *
+ * Produces a structured plan before any spawn:
+ * - Model call (ConfuciusAdapter.runModel) proposes the plan
+ * - Plan gate validates structure and rejects handwave content
+ * - Supervisor signs it as a plan_created event
+ * - Later spawns are checked against the approved plan
+ */
+
+import { qualityGate, type QualityGateResult } from './quality-gates.js';
+
+export interface PlanStep {
+  id: string;
+  agentName: string;
+  description: string;
+}
+
+export interface TaskPlan {
+  goal: string;
+  steps: PlanStep[];
+  maxDepth?: number;
+}
+
+/**
+ * Build the prompt sent to the model for the planning call
+ */
+export function buildPlanPrompt({
+  task,
+  taskInput,
+  maxDepth,
+  maxSpawns
+}: {
+  task: string;
+  taskInput?: unknown;
+  maxDepth: number;
+  maxSpawns: number;
+}): string {
+  return `You are the planner of a supervised recursive orchestration system.
+
+Your task: ${task}
+${typeof taskInput === 'undefined' ? '' : `\nTask input (JSON):\n${JSON.stringify(taskInput, null, 2)}\n`}
+Limits: maxDepth=${maxDepth}, maxSpawns=${maxSpawns}
+
+CRITICAL: You must return ONLY valid JSON. No markdown, no explanation, no code blocks.
+
+Return JSON with this exact structure:
+{
+  "goal": "<one sentence>",
+  "steps": [
+    { "id": "step_1", "agentName": "<depth2 worker name>", "description": "<what it does>" }
+  ],
+  "maxDepth": <deepest depth the plan needs>
+}
+
+Each step becomes one depth2 worker. Workers not listed in steps will be rejected.`;
+}
+
+/**
+ * Plan quality gate - structure plus the standard handwave check
+ */
+export function validatePlan(plan: unknown): QualityGateResult {
+  const base = qualityGate({ output: plan, requiredKeys: ['goal', 'steps'] });
+  if (!plan || typeof plan !== 'object') return base;
+
+  const errors = [...base.errors];
+  const p = plan as { goal?: unknown; steps?: unknown; maxDepth?: unknown };
+
+  if (typeof p.goal !== 'string' || !p.goal.trim()) {
+    errors.push('plan_goal_invalid');
+  }
+
+  if (!Array.isArray(p.steps) || p.steps.length === 0) {
+    errors.push('plan_steps_empty');
+  } else {
+    p.steps.forEach((raw: unknown, i: number) => {
+      const step = raw as { agentName?: unknown; description?: unknown } | null;
+      if (!step || typeof step.agentName !== 'string' || !step.agentName) {
+        errors.push(`plan_step_missing_agentName:${i}`);
+      }
+      if (!step || typeof step.description !== 'string' || !step.description) {
+        errors.push(`plan_step_missing_description:${i}`);
+      }
+    });
+  }
+
+  if (typeof p.maxDepth !== 'undefined' && (typeof p.maxDepth !== 'number' || p.maxDepth < 1)) {
+    errors.push('plan_maxDepth_invalid');
+  }
+
+  return { ok: errors.length === 0, errors, numericCount: base.numericCount };
+}
+
+/**
+ * Deterministic plan for standalone simulation (mirrors simulateForTesting)
+ */
+export function simulatePlan(task: string): TaskPlan {
+  return {
+    goal: task,
+    steps: [
+      { id: 'step_1', agentName: 'depth2_worker_a', description: 'Calculate set A' },
+      { id: 'step_2', agentName: 'depth2_worker_b', description: 'Calculate set B' }
+    ],
+    maxDepth: 3
+  };
+}
@@ -3,15 +3,20 @@
  * 
  * Prevents token rot by validating subagent outputs:
  * - Required keys present
+ * - Output schema (zod or JSON Schema), with path-qualified errors
  * - Minimum numeric metrics
  * - No placeholder/handwave language
- * - Retry failed outputs with stricter prompts
+ * - Retry failed outputs with stricter prompts (gate errors + rejected output)
  */
 
+import { validateOutputSchema, type OutputSchema } from './output-schema.js';
+import { abortableDelay } from './cancellation.js';
+
 export interface QualityGateResult {
   ok: boolean;
   errors: string[];
   numericCount: number;
+  warnings?: string[];  // Failures of warn-severity gates (output still accepted)
 }
 
 export interface RetryResult {
@@ -42,32 +47,36 @@ function countNumericValues(obj: any): number {
 }
 
 /**
- * Detect placeholder and handwave phrases that indicate low-quality output
+ * Placeholder and handwave phrases that indicate low-quality output
+ */
+export const DEFAULT_HANDWAVE_PHRASES: string[] = [
+  'i guess',
+  'seems like',
+  'looks like',
+  'probably',
+  'maybe',
+  'not sure',
+  'cannot access',
+  'no access',
+  'i did not',
+  "i didn't",
+  'placeholder',
+  'todo',
+  'tbd',
+  'coming soon',
+  'not implemented'
+];
+
+/**
+ * Detect the first handwave phrase in text (case-insensitive)
  */
-function containsBadPhrases(text: string): string | null {
+export function findHandwavePhrase(text: string, phrases: string[] = DEFAULT_HANDWAVE_PHRASES): string | null {
   const t = String(text || '').toLowerCase();
-  const bad = [
-    'i guess',
-    'seems like',
-    'looks like',
-    'probably',
-    'maybe',
-    'not sure',
-    'cannot access',
-    'no access',
-    'i did not',
-    "i didn't",
-    'placeholder',
-    'todo',
-    'tbd',
-    'coming soon',
-    'not implemented'
-  ];
-  
-  for (const b of bad) {
-    if (t.includes(b)) return b;
+
+  for (const b of phrases) {
+    if (b && t.includes(b.toLowerCase())) return b;
   }
-  
+
   return null;
 }
 
@@ -77,15 +86,21 @@ function containsBadPhrases(text: string): string | null {
  * @param output - Subagent output to validate
  * @param requiredKeys - Keys that must exist in output
  * @param minNumericCount - Minimum number of numeric values required
+ * @param schema - Optional zod or JSON Schema (or several) the output must conform to
+ * @param badPhrases - Handwave phrases to reject; [] disables the check
  */
 export function qualityGate({
   output,
   requiredKeys = [],
-  minNumericCount = 0
+  minNumericCount = 0,
+  schema,
+  badPhrases = DEFAULT_HANDWAVE_PHRASES
 }: {
   output: any;
   requiredKeys?: string[];
   minNumericCount?: number;
+  schema?: OutputSchema | OutputSchema[];
+  badPhrases?: string[];
 }): QualityGateResult {
   const errors: string[] = [];
 
@@ -104,6 +119,11 @@ export function qualityGate({
     }
   }
 
+  // Check output schema
+  for (const s of Array.isArray(schema) ? schema : schema ? [schema] : []) {
+    errors.push(...validateOutputSchema(output, s));
+  }
+
   // Check numeric value count
   const numericCount = countNumericValues(output);
   if (numericCount < minNumericCount) {
@@ -111,7 +131,7 @@ export function qualityGate({
   }
 
   // Check for handwave language
-  const badPhrase = containsBadPhrases(JSON.stringify(output));
+  const badPhrase = findHandwavePhrase(JSON.stringify(output), badPhrases);
   if (badPhrase) {
     errors.push(`handwave_phrase:${badPhrase}`);
   }
@@ -123,6 +143,50 @@ export function qualityGate({
   };
 }
 
+/**
+ * Build the prompt for a retry from the original prompt
+ *
+ * Always derived from the original (not the previous retry prompt), so
+ * prompts do not grow with each attempt.
+ *
+ * @param prompt - Original prompt
+ * @param attempt - Attempt number the prompt is for (2 = first retry)
+ * @param gateErrors - Errors that rejected the previous attempt
+ * @param rejectedOutput - Previous attempt's output, trimmed to maxOutputChars
+ */
+export function tightenPrompt({
+  prompt,
+  attempt,
+  gateErrors,
+  rejectedOutput,
+  maxOutputChars = 1500
+}: {
+  prompt: string;
+  attempt: number;
+  gateErrors: string[];
+  rejectedOutput: unknown;
+  maxOutputChars?: number;
+}): string {
+  let rejected: string;
+  try {
+    rejected = JSON.stringify(rejectedOutput, null, 2) ?? String(rejectedOutput);
+  } catch {
+    rejected = String(rejectedOutput);
+  }
+  if (rejected.length > maxOutputChars) {
+    rejected = `${rejected.slice(0, maxOutputChars)}\n... [trimmed ${rejected.length - maxOutputChars} chars]`;
+  }
+
+  return `${prompt}
+
+RETRY (attempt ${attempt}): your previous output was rejected by the quality gate.
+Fix every error below and return the corrected JSON only:
+${gateErrors.map(e => `- ${e}`).join('\n')}
+
+Rejected output:
+${rejected}`;
+}
+
 /**
  * Run subagent execution with retry on quality gate failure
  * 
@@ -130,26 +194,41 @@ export function qualityGate({
  * @param maxAttempts - maximum retry attempts
  * @param gateFn - function that validates output
  * @param tightenPromptFn - optional function to modify prompt between retries
+ * @param backoffMs - delay before the first retry, doubled for each further retry
+ * @param signal - aborts a pending backoff
+ * @param onGateFailure - called for each attempt that fails its gate
  */
-export async function runWithRetry({
+export async function runWithRetry<T>({
   attemptFn,
   maxAttempts,
   gateFn,
-  tightenPromptFn
+  tightenPromptFn,
+  backoffMs = 0,
+  signal,
+  onGateFailure = () => {}
 }: {
-  attemptFn: (ctx: { attempt: number }) => Promise<any>;
+  attemptFn: (ctx: { attempt: number }) => Promise<T>;
   maxAttempts: number;
-  gateFn: (output: any) => QualityGateResult;
-  tightenPromptFn?: ((ctx: { attempt: number; gateErrors: string[] }) => void) | null;
+  gateFn: (output: T) => QualityGateResult | Promise<QualityGateResult>;
+  tightenPromptFn?: ((ctx: { attempt: number; gateErrors: string[]; lastResult: T }) => void) | null;
+  backoffMs?: number;
+  signal?: AbortSignal;
+  onGateFailure?: (ctx: { attempt: number; errors: string[] }) => void;  // Default: ignored
 }): Promise<RetryResult> {
-  let last: any = null;
+  let last: T | null = null;
+  let lastGate: QualityGateResult | undefined;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    if (attempt > 1) {
+      await abortableDelay(backoffMs * 2 ** (attempt - 2), signal);
+    }
+
     const res = await attemptFn({ attempt });
     last = res;
 
-    const gate = gateFn(res);
-    
+    const gate = await gateFn(res);
+    lastGate = gate;
+
     if (gate.ok) {
       return {
         ok: true,
@@ -159,13 +238,13 @@ export async function runWithRetry({
       };
     }
 
-    // Log quality gate failure
-    console.log(`[Quality Gate] Attempt ${attempt} failed: ${gate.errors.join(', ')}`);
+    // Report quality gate failure
+    onGateFailure({ attempt, errors: gate.errors });
 
     // Tighten prompt for next attempt
     if (attempt < maxAttempts) {
       if (tightenPromptFn) {
-        tightenPromptFn({ attempt, gateErrors: gate.errors });
+        tightenPromptFn({ attempt, gateErrors: gate.errors, lastResult: res });
       }
     }
   }
@@ -174,6 +253,7 @@ export async function runWithRetry({
     ok: false,
     attempts: maxAttempts,
     lastResult: last,
+    gate: lastGate,
     reason: 'quality_gate_failed_all_attempts'
   };
 }
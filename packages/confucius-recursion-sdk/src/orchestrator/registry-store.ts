@@ -0,0 +1,149 @@
+/**
+ * Registry Store
+ *
+ * Persists the supervisor registry and signed trace as append-only records
+ * so a crashed orchestration can be resumed instead of restarted.
+ *
+ * Default: JSONL files under .confucius/runs/<proofId>/
+ * - registry.jsonl: header, plan, spawn/return/abort records
+ * - trace.jsonl: signed trace events, in emission order
+ *
+ * Appends are synchronous so the gate → mint → register sequence in
+ * supervisedSpawn stays free of awaits.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { RunRecord } from './supervisor-registry.js';
+import type { TraceEvent } from './signed-trace.js';
+import type { TaskPlan } from './planning.js';
+import type { TokenUsage } from './usage.js';
+import type { TaskSpec } from './hardened-orchestrator.js';
+
+/**
+ * What was running, so resume() can re-enter the same entrypoint
+ */
+export type ResumeEntry =
+  | { kind: 'depth3'; options: { plan?: boolean; task?: string } }
+  | { kind: 'task'; task: TaskSpec };
+
+export type StoreRecord =
+  | { type: 'header'; proofId: string; createdAt: number; keyId: string; entry: ResumeEntry }
+  | { type: 'plan'; plan: TaskPlan }
+  | { type: 'spawn'; run: RunRecord }
+  | { type: 'return'; runId: string; outputHash: string; output: unknown; returnedAt: number; usage?: TokenUsage }
+  | { type: 'abort'; runId: string; status: 'timed_out' | 'cancelled'; abortedAt: number }
+  | { type: 'event'; event: TraceEvent };
+
+/**
+ * Pluggable persistence for one or more proofs
+ */
+export interface RegistryStore {
+  append(proofId: string, record: StoreRecord): void;
+  load(proofId: string): StoreRecord[];
+}
+
+/**
+ * In-memory store (tests, or when persistence is not wanted)
+ */
+export class MemoryRegistryStore implements RegistryStore {
+  private proofs: Map<string, StoreRecord[]>;
+
+  constructor() {
+    this.proofs = new Map();
+  }
+
+  append(proofId: string, record: StoreRecord): void {
+    const records = this.proofs.get(proofId) || [];
+    records.push(JSON.parse(JSON.stringify(record)));
+    this.proofs.set(proofId, records);
+  }
+
+  load(proofId: string): StoreRecord[] {
+    return (this.proofs.get(proofId) || []).map(r => JSON.parse(JSON.stringify(r)));
+  }
+}
+
+/**
+ * Append-only JSONL file store
+ */
+export class JsonlRegistryStore implements RegistryStore {
+  readonly dir: string;
+
+  /**
+   * @param dir - Runs directory; default CONFUCIUS_RUNS_DIR, else ./.confucius/runs
+   */
+  constructor({ dir }: { dir?: string } = {}) {
+    this.dir = dir || process.env.CONFUCIUS_RUNS_DIR || resolve(process.cwd(), '.confucius', 'runs');
+  }
+
+  append(proofId: string, record: StoreRecord): void {
+    const proofDir = this.proofDir(proofId);
+    mkdirSync(proofDir, { recursive: true });
+
+    const file = record.type === 'event' ? 'trace.jsonl' : 'registry.jsonl';
+    const line = JSON.stringify(record.type === 'event' ? record.event : record);
+    appendFileSync(resolve(proofDir, file), line + '\n', 'utf-8');
+  }
+
+  load(proofId: string): StoreRecord[] {
+    const proofDir = this.proofDir(proofId);
+    const registry = readJsonl<StoreRecord>(resolve(proofDir, 'registry.jsonl'));
+    const events = readJsonl<TraceEvent>(resolve(proofDir, 'trace.jsonl')).map((event): StoreRecord => ({ type: 'event', event }));
+    return [...registry, ...events];
+  }
+
+  private proofDir(proofId: string): string {
+    if (!/^[\w.-]+$/.test(proofId)) {
+      throw new Error(`invalid_proof_id: ${proofId}`);
+    }
+    return resolve(this.dir, proofId);
+  }
+}
+
+/**
+ * Read a JSONL file; a torn final line (crash mid-append) is dropped
+ */
+function readJsonl<T>(path: string): T[] {
+  if (!existsSync(path)) return [];
+
+  const lines = readFileSync(path, 'utf-8').split('\n').filter(line => line.trim());
+  const out: T[] = [];
+  lines.forEach((line, i) => {
+    try {
+      out.push(JSON.parse(line) as T);
+    } catch {
+      if (i !== lines.length - 1) throw new Error(`corrupt_registry_store: ${path}:${i + 1}`);
+    }
+  });
+  return out;
+}
+
+/**
+ * Fold spawn/return/abort records back into run records
+ */
+export function replayRuns(records: StoreRecord[]): { runs: RunRecord[]; outputs: Map<string, unknown> } {
+  const runs = new Map<string, RunRecord>();
+  const outputs = new Map<string, unknown>();
+
+  for (const rec of records) {
+    if (rec.type === 'spawn') {
+      runs.set(rec.run.runId, { ...rec.run });
+    } else if (rec.type === 'return') {
+      const run = runs.get(rec.runId);
+      if (!run) continue;
+      run.outputHash = rec.outputHash;
+      run.status = 'returned';
+      run.returnedAt = rec.returnedAt;
+      if (rec.usage) run.usage = rec.usage;
+      outputs.set(rec.runId, rec.output);
+    } else if (rec.type === 'abort') {
+      const run = runs.get(rec.runId);
+      if (!run) continue;
+      run.status = rec.status;
+      run.abortedAt = rec.abortedAt;
+    }
+  }
+
+  return { runs: Array.from(runs.values()), outputs };
+}
@@ -3,9 +3,15 @@
  * 
  * Records trace events with supervisor signatures.
  * Prevents agents from forging trace events.
+ *
+ * Events are hash-chained: each signed payload carries the previous event's
+ * signature and a running chain head, so dropping or reordering events
+ * breaks verification even though every remaining signature is valid.
+ * The chain's end is anchored by a signed TraceAnchor (event count and final
+ * chain head) shipped with the proof, so dropping trailing events breaks it too.
  */
 
-import { sha256Hex, signEvent, stableStringify } from './supervisor-crypto.js';
+import { sha256Hex, signWithKey, stableStringify, type SignatureAlgorithm, type SupervisorSigningKey } from './supervisor-crypto.js';
 
 export interface TraceEvent {
   eventId: number;
@@ -18,6 +24,11 @@ export interface TraceEvent {
   inputHash: string | null;
   outputHash: string | null;
   note: string | null;
+  siblingIndex: number | null;
+  gateErrors?: string[];    // Quality gate errors (retry events); signed only when present
+  nonceHash?: string;       // sha256(nonce) of a depth3 proof-of-execution spawn; signed only when present
+  prevSig: string | null;   // supervisorSig of eventId - 1 (null for the first event)
+  chainHead: string;        // Running hash over all previous events (see chainHeadAfter)
   supervisorSig: string;
 }
 
@@ -30,6 +41,19 @@ export interface UnsignedEvent {
   inputHash?: string | null;
   outputHash?: string | null;
   note?: string | null;
+  siblingIndex?: number | null;
+  gateErrors?: string[];
+  nonceHash?: string;
+}
+
+/**
+ * Signed end of a trace: how many events it has and the head after the last
+ */
+export interface TraceAnchor {
+  eventCount: number;
+  lastEventId: number;   // 0 for an empty trace
+  chainHead: string;     // chainHeadAfter(last event)
+  supervisorSig: string;
 }
 
 export interface TraceStats {
@@ -38,15 +62,92 @@ export interface TraceStats {
   deepestDepth: number;
 }
 
+/**
+ * Canonical signed payload for an event (everything except supervisorSig)
+ *
+ * Shared by signing and validation so both always cover the same fields.
+ * gateErrors and nonceHash are omitted when absent, so events without them
+ * verify as before.
+ */
+export function canonicalPayload(ev: Omit<TraceEvent, 'supervisorSig'>): Omit<TraceEvent, 'supervisorSig'> {
+  return {
+    eventId: ev.eventId,
+    ts: ev.ts,
+    kind: ev.kind,
+    depth: ev.depth,
+    agentName: ev.agentName,
+    parentRunId: ev.parentRunId || null,
+    childRunId: ev.childRunId || null,
+    inputHash: ev.inputHash || null,
+    outputHash: ev.outputHash || null,
+    note: ev.note || null,
+    siblingIndex: typeof ev.siblingIndex === 'number' ? ev.siblingIndex : null,
+    ...(Array.isArray(ev.gateErrors) ? { gateErrors: ev.gateErrors.map(String) } : {}),
+    ...(typeof ev.nonceHash === 'string' ? { nonceHash: ev.nonceHash } : {}),
+    prevSig: ev.prevSig || null,
+    chainHead: ev.chainHead
+  };
+}
+
+/**
+ * Chain head for the event that follows `prev` (null = first event)
+ *
+ * head(n) = sha256(head(n-1) + ':' + sig(n-1)), so it commits to every
+ * earlier event in order.
+ */
+export function chainHeadAfter(prev: Pick<TraceEvent, 'chainHead' | 'supervisorSig'> | null): string {
+  return sha256Hex(`${prev?.chainHead ?? ''}:${prev?.supervisorSig ?? ''}`);
+}
+
+/**
+ * Signed payload of a TraceAnchor; the kind keeps it distinct from event payloads
+ */
+export function anchorPayload(anchor: Omit<TraceAnchor, 'supervisorSig'>): Record<string, unknown> {
+  return {
+    kind: 'trace_anchor',
+    eventCount: anchor.eventCount,
+    lastEventId: anchor.lastEventId,
+    chainHead: anchor.chainHead
+  };
+}
+
 export class SignedTrace {
-  private secret: Buffer;
+  private signingKey: SupervisorSigningKey;
   private events: TraceEvent[];
   private eventSeq: number;
+  private onEvent: ((ev: TraceEvent) => void) | undefined;
 
-  constructor({ supervisorSecret }: { supervisorSecret: Buffer }) {
-    this.secret = supervisorSecret;
+  /**
+   * @param supervisorSecret - HMAC secret (hmac-sha256 mode)
+   * @param signingKey - Explicit key; takes precedence (required for ed25519)
+   * @param onEvent - Called with each signed event (persistence)
+   */
+  constructor({ supervisorSecret, signingKey, onEvent }: { supervisorSecret?: Buffer; signingKey?: SupervisorSigningKey; onEvent?: (ev: TraceEvent) => void }) {
+    if (!signingKey && !supervisorSecret) {
+      throw new Error('signed_trace_missing_key: pass supervisorSecret or signingKey');
+    }
+    this.signingKey = signingKey ?? { algorithm: 'hmac-sha256', secret: supervisorSecret as Buffer };
     this.events = [];
     this.eventSeq = 0;
+    this.onEvent = onEvent;
+  }
+
+  /**
+   * Reload persisted events (resume) so new events continue the same chain
+   */
+  restore(events: TraceEvent[]): void {
+    if (this.events.length > 0) {
+      throw new Error('trace_not_empty: restore() needs a fresh trace');
+    }
+    this.events = events.map(ev => ({ ...ev }));
+    this.eventSeq = events.length > 0 ? events[events.length - 1].eventId : 0;
+  }
+
+  /**
+   * Signature algorithm used for every event in this trace
+   */
+  get algorithm(): SignatureAlgorithm {
+    return this.signingKey.algorithm;
   }
 
   /**
@@ -57,30 +158,53 @@ export class SignedTrace {
    */
   addEvent(unsigned: UnsignedEvent): TraceEvent {
     this.eventSeq += 1;
+    const prev = this.events.length > 0 ? this.events[this.events.length - 1] : null;
 
-    const payload = {
+    const payload = canonicalPayload({
       eventId: this.eventSeq,
       ts: Date.now(),
       kind: unsigned.kind,
       depth: unsigned.depth,
       agentName: unsigned.agentName,
-      parentRunId: unsigned.parentRunId || null,
-      childRunId: unsigned.childRunId || null,
-      inputHash: unsigned.inputHash || null,
-      outputHash: unsigned.outputHash || null,
-      note: unsigned.note || null
-    };
+      parentRunId: unsigned.parentRunId ?? null,
+      childRunId: unsigned.childRunId ?? null,
+      inputHash: unsigned.inputHash ?? null,
+      outputHash: unsigned.outputHash ?? null,
+      note: unsigned.note ?? null,
+      siblingIndex: unsigned.siblingIndex ?? null,
+      gateErrors: unsigned.gateErrors,
+      nonceHash: unsigned.nonceHash,
+      prevSig: prev ? prev.supervisorSig : null,
+      chainHead: chainHeadAfter(prev)
+    });
 
-    const supervisorSig = signEvent(this.secret, payload);
+    const supervisorSig = signWithKey(this.signingKey, payload);
 
     const signed: TraceEvent = { ...payload, supervisorSig };
     this.events.push(signed);
+    this.onEvent?.(signed);
     
     return signed;
   }
 
+  /**
+   * Sign the end of `events` (default: the whole trace)
+   */
+  anchor(events: TraceEvent[] = this.events): TraceAnchor {
+    const last = events.length > 0 ? events[events.length - 1] : null;
+    const unsigned = {
+      eventCount: events.length,
+      lastEventId: last ? last.eventId : 0,
+      chainHead: chainHeadAfter(last)
+    };
+    return { ...unsigned, supervisorSig: signWithKey(this.signingKey, anchorPayload(unsigned)) };
+  }
+
   /**
    * Export all trace events
+   *
+   * Events are in emission order (eventId). With concurrent siblings this
+   * interleaves branches; parentRunId + siblingIndex rebuild the tree order.
    */
   export(): TraceEvent[] {
     return this.events.slice();
@@ -3,9 +3,14 @@
  * 
  * Provides HMAC signing, verification, and deterministic hashing
  * for non-spoofable recursion proof traces.
+ *
+ * Two signing modes:
+ * - hmac-sha256: shared secret; verifiers can also sign
+ * - ed25519: key pair; verifiers need only the public key
  */
 
 import crypto from 'crypto';
+import { silentLogger, type Logger } from '../logging.js';
 
 /**
  * Load supervisor secret from environment or generate dev fallback
@@ -13,17 +18,90 @@ import crypto from 'crypto';
  * Production: Set CONFUCIUS_SUPERVISOR_SECRET env var
  * Generate: node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
  */
-export function loadSupervisorSecret(): Buffer {
+export function loadSupervisorSecret(logger: Logger = silentLogger): Buffer {
   const fromEnv = process.env.CONFUCIUS_SUPERVISOR_SECRET;
   if (fromEnv && fromEnv.length >= 32) {
     return Buffer.from(fromEnv, 'base64');
   }
 
   // Dev fallback. Do not use in production.
-  console.warn('⚠️  Using ephemeral supervisor secret. Set CONFUCIUS_SUPERVISOR_SECRET in production.');
+  logger.warn('supervisor.ephemeral_secret', { message: 'Using ephemeral supervisor secret. Set CONFUCIUS_SUPERVISOR_SECRET in production.' });
   return crypto.randomBytes(32);
 }
 
+export type SignatureAlgorithm = 'hmac-sha256' | 'ed25519';
+
+/**
+ * Key material for one signing mode (private half only lives in the supervisor)
+ */
+export type SupervisorSigningKey =
+  | { algorithm: 'hmac-sha256'; secret: Buffer }
+  | { algorithm: 'ed25519'; privateKey: crypto.KeyObject; publicKey: crypto.KeyObject };
+
+/**
+ * Key material for verification: the HMAC secret, or only the Ed25519 public key
+ */
+export type SupervisorVerifyKey =
+  | { algorithm: 'hmac-sha256'; secret: Buffer }
+  | { algorithm: 'ed25519'; publicKey: crypto.KeyObject };
+
+/**
+ * Load Ed25519 supervisor key pair from environment or generate dev fallback
+ *
+ * Production: Set CONFUCIUS_SUPERVISOR_PRIVATE_KEY to a PKCS#8 PEM
+ * Generate: openssl genpkey -algorithm ed25519
+ */
+export function loadSupervisorKeyPair(logger: Logger = silentLogger): { privateKey: crypto.KeyObject; publicKey: crypto.KeyObject } {
+  const fromEnv = process.env.CONFUCIUS_SUPERVISOR_PRIVATE_KEY;
+  if (fromEnv) {
+    const privateKey = crypto.createPrivateKey(fromEnv.replace(/\\n/g, '\n'));
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`invalid_supervisor_key: expected ed25519, got ${privateKey.asymmetricKeyType}`);
+    }
+    return { privateKey, publicKey: crypto.createPublicKey(privateKey) };
+  }
+
+  // Dev fallback. Proofs only verify against the public key embedded in them.
+  logger.warn('supervisor.ephemeral_key', { message: 'Using ephemeral Ed25519 supervisor key. Set CONFUCIUS_SUPERVISOR_PRIVATE_KEY in production.' });
+  return crypto.generateKeyPairSync('ed25519');
+}
+
+/**
+ * Parse a public key given as a KeyObject or SPKI PEM string
+ */
+export function toPublicKey(key: crypto.KeyObject | string): crypto.KeyObject {
+  const publicKey = typeof key === 'string' ? crypto.createPublicKey(key) : key;
+  if (publicKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`invalid_public_key: expected ed25519, got ${publicKey.asymmetricKeyType}`);
+  }
+  return publicKey;
+}
+
+/**
+ * Export a public key as SPKI PEM (embedded in proof artifacts)
+ */
+export function exportPublicKeyPem(publicKey: crypto.KeyObject): string {
+  return publicKey.export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/**
+ * Public key fingerprint: sha256 of the DER-encoded SPKI, as hex
+ */
+export function publicKeyFingerprint(publicKey: crypto.KeyObject): string {
+  return crypto.createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex');
+}
+
+/**
+ * Stable identifier for a signing key (never reveals the HMAC secret)
+ *
+ * Lets a resumed run refuse to continue a trace under a different key.
+ */
+export function signingKeyId(key: SupervisorSigningKey): string {
+  return key.algorithm === 'ed25519'
+    ? `ed25519:${publicKeyFingerprint(key.publicKey)}`
+    : `hmac-sha256:${hmacHex(key.secret, 'confucius-signing-key-id')}`;
+}
+
 /**
  * Deterministic JSON stringify for stable hashes and signatures
  * Sorts object keys recursively, detects cycles
@@ -66,7 +144,7 @@ export function hmacHex(secret: Buffer, input: string): string {
  * 
  * CRITICAL: Do not include supervisorSig in the payload being signed
  */
-export function signEvent(secret: Buffer, eventPayload: any): string {
+export function signEvent(secret: Buffer, eventPayload: unknown): string {
   const canon = stableStringify(eventPayload);
   return hmacHex(secret, canon);
 }
@@ -74,10 +152,46 @@ export function signEvent(secret: Buffer, eventPayload: any): string {
 /**
  * Verify event signature using timing-safe comparison
  */
-export function verifyEventSig(secret: Buffer, eventPayload: any, supervisorSig: string): boolean {
-  const expected = signEvent(secret, eventPayload);
-  return crypto.timingSafeEqual(
-    Buffer.from(expected, 'hex'),
-    Buffer.from(supervisorSig, 'hex')
-  );
+export function verifyEventSig(secret: Buffer, eventPayload: unknown, supervisorSig: string): boolean {
+  const expected = Buffer.from(signEvent(secret, eventPayload), 'hex');
+  const actual = Buffer.from(String(supervisorSig), 'hex');
+  // timingSafeEqual throws on length mismatch (e.g. an Ed25519 signature)
+  if (expected.length !== actual.length) return false;
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Sign event payload with an Ed25519 private key (hex signature)
+ */
+export function signEventEd25519(privateKey: crypto.KeyObject, eventPayload: unknown): string {
+  return crypto.sign(null, Buffer.from(stableStringify(eventPayload)), privateKey).toString('hex');
+}
+
+/**
+ * Verify an Ed25519 event signature with only the public key
+ */
+export function verifyEventSigEd25519(publicKey: crypto.KeyObject, eventPayload: unknown, supervisorSig: string): boolean {
+  try {
+    return crypto.verify(null, Buffer.from(stableStringify(eventPayload)), publicKey, Buffer.from(String(supervisorSig), 'hex'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign with whichever mode the key belongs to
+ */
+export function signWithKey(key: SupervisorSigningKey, eventPayload: unknown): string {
+  return key.algorithm === 'ed25519'
+    ? signEventEd25519(key.privateKey, eventPayload)
+    : signEvent(key.secret, eventPayload);
+}
+
+/**
+ * Verify with whichever mode the key belongs to
+ */
+export function verifyWithKey(key: SupervisorVerifyKey, eventPayload: unknown, supervisorSig: string): boolean {
+  return key.algorithm === 'ed25519'
+    ? verifyEventSigEd25519(key.publicKey, eventPayload, supervisorSig)
+    : verifyEventSig(key.secret, eventPayload, supervisorSig);
 }
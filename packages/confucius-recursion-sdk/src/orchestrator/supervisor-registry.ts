@@ -6,6 +6,12 @@
  */
 
 import crypto from 'crypto';
+import { addUsage, emptyUsage, type SpawnUsage, type TokenUsage } from './usage.js';
+
+/**
+ * Run lifecycle: spawned → returned, or spawned → timed_out / cancelled
+ */
+export type RunStatus = 'spawned' | 'returned' | 'timed_out' | 'cancelled';
 
 export interface RunRecord {
   runId: string;
@@ -15,15 +21,19 @@ export interface RunRecord {
   inputHash: string;
   outputHash: string | null;
   nonce: string | null;
-  status: 'spawned' | 'returned';
+  siblingIndex?: number | null;
+  status: RunStatus;
   spawnedAt: number;
   returnedAt?: number;
+  abortedAt?: number;
+  usage?: TokenUsage;  // Summed over every attempt of this run, when the adapter reports it
 }
 
 export interface SpawnStats {
   totalSpawns: number;
   returned: number;
   pending: number;
+  aborted: number;
   deepestDepth: number;
 }
 
@@ -57,7 +67,8 @@ export class SupervisorRunRegistry {
     agentName,
     depth,
     inputHash,
-    nonce = null
+    nonce = null,
+    siblingIndex = null
   }: {
     runId: string;
     parentRunId: string | null;
@@ -65,14 +76,15 @@ export class SupervisorRunRegistry {
     depth: number;
     inputHash: string;
     nonce?: string | null;
-  }): void {
+    siblingIndex?: number | null;
+  }): RunRecord {
     if (this.runs.has(runId)) {
       throw new Error(`Duplicate runId: ${runId}`);
     }
     
     this.totalSpawns += 1;
     
-    this.runs.set(runId, {
+    const rec: RunRecord = {
       runId,
       parentRunId: parentRunId || null,
       agentName,
@@ -80,9 +92,25 @@ export class SupervisorRunRegistry {
       inputHash,
       outputHash: null,
       nonce,
+      siblingIndex,
       status: 'spawned',
       spawnedAt: Date.now()
-    });
+    };
+    this.runs.set(runId, rec);
+    return { ...rec };
+  }
+
+  /**
+   * Reload persisted runs (resume); only valid on an empty registry
+   */
+  restore(runs: RunRecord[]): void {
+    if (this.runs.size > 0) {
+      throw new Error('registry_not_empty: restore() needs a fresh registry');
+    }
+    for (const rec of runs) {
+      this.runs.set(rec.runId, { ...rec });
+    }
+    this.totalSpawns = runs.length;
   }
 
   /**
@@ -99,6 +127,56 @@ export class SupervisorRunRegistry {
     rec.returnedAt = Date.now();
   }
 
+  /**
+   * Add adapter-reported usage to a run (called once per attempt)
+   */
+  recordUsage(runId: string, usage: SpawnUsage): void {
+    const rec = this.runs.get(runId);
+    if (!rec) {
+      throw new Error(`Unknown runId usage: ${runId}`);
+    }
+
+    rec.usage = addUsage(rec.usage, usage);
+  }
+
+  /**
+   * Usage of one run, or of every run when runId is omitted
+   */
+  getUsage(runId?: string): TokenUsage {
+    if (runId === undefined) {
+      return addUsage(...Array.from(this.runs.values()).map(r => r.usage));
+    }
+    return addUsage(this.runs.get(runId)?.usage);
+  }
+
+  /**
+   * Usage of a run plus all of its descendants
+   */
+  getSubtreeUsage(runId: string): TokenUsage {
+    if (!this.runs.has(runId)) return emptyUsage();
+
+    const runs = Array.from(this.runs.values());
+    const subtree = new Set([runId]);
+    // Children are registered after their parents, so one pass in order suffices
+    for (const rec of runs) {
+      if (rec.parentRunId && subtree.has(rec.parentRunId)) subtree.add(rec.runId);
+    }
+    return addUsage(...runs.filter(r => subtree.has(r.runId)).map(r => r.usage));
+  }
+
+  /**
+   * Register a run that was timed out or cancelled before returning
+   */
+  registerAbort({ runId, status }: { runId: string; status: 'timed_out' | 'cancelled' }): void {
+    const rec = this.runs.get(runId);
+    if (!rec) {
+      throw new Error(`Unknown runId abort: ${runId}`);
+    }
+
+    rec.status = status;
+    rec.abortedAt = Date.now();
+  }
+
   /**
    * Check if run exists in registry
    */
@@ -127,11 +205,13 @@ export class SupervisorRunRegistry {
     const runs = Array.from(this.runs.values());
     const returned = runs.filter(r => r.status === 'returned').length;
     const pending = runs.filter(r => r.status === 'spawned').length;
+    const aborted = runs.filter(r => r.status === 'timed_out' || r.status === 'cancelled').length;
     
     return {
       totalSpawns: this.totalSpawns,
       returned,
       pending,
+      aborted,
       deepestDepth: Math.max(0, ...runs.map(r => r.depth))
     };
   }
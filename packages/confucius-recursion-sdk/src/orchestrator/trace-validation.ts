@@ -2,14 +2,18 @@
  * Trace Validation
  * 
  * Verifies trace integrity by checking:
- * - Supervisor signatures on all events
+ * - Supervisor signatures on all events (HMAC secret, or Ed25519 public key only)
+ * - Hash chain: no event missing, reordered, or relinked
+ * - Chain end: the signed anchor, when given, matches the last event (no truncation)
  * - Run IDs exist in registry
- * - Output hashes match between registry and trace
+ * - Output hashes match between registry and trace (last return per run;
+ *   earlier returns are attempts the quality gate rejected)
  */
 
-import { verifyEventSig } from './supervisor-crypto.js';
+import type { KeyObject } from 'crypto';
+import { publicKeyFingerprint, toPublicKey, verifyWithKey, type SupervisorVerifyKey } from './supervisor-crypto.js';
 import type { SupervisorRunRegistry } from './supervisor-registry.js';
-import type { TraceEvent } from './signed-trace.js';
+import { anchorPayload, canonicalPayload, chainHeadAfter, type TraceAnchor, type TraceEvent } from './signed-trace.js';
 
 export interface ValidationError {
   eventId: number;
@@ -26,34 +30,67 @@ export interface ValidationResult {
   eventsChecked: number;
 }
 
+/**
+ * Validate a signed trace
+ *
+ * Pass `supervisorSecret` for HMAC traces, or `publicKey` (KeyObject or SPKI
+ * PEM) for Ed25519 traces. `publicKeyFingerprint` pins the key: a proof that
+ * embeds its own key is only trusted if the fingerprint matches.
+ * Without a registry (e.g. checking a proof artifact offline), only
+ * signatures are checked. Pass the proof's `anchor` to also catch trailing
+ * events that were dropped.
+ */
 export function validateTrace({
   supervisorSecret,
+  publicKey,
+  publicKeyFingerprint: expectedFingerprint,
   traceEvents,
-  registry
+  registry,
+  anchor
 }: {
-  supervisorSecret: Buffer;
+  supervisorSecret?: Buffer;
+  publicKey?: KeyObject | string;
+  publicKeyFingerprint?: string;
   traceEvents: TraceEvent[];
-  registry: SupervisorRunRegistry;
+  registry?: SupervisorRunRegistry;
+  anchor?: TraceAnchor;
 }): ValidationResult {
   const errors: ValidationError[] = [];
 
+  let verifyKey: SupervisorVerifyKey;
+  if (publicKey) {
+    verifyKey = { algorithm: 'ed25519', publicKey: toPublicKey(publicKey) };
+  } else if (supervisorSecret) {
+    verifyKey = { algorithm: 'hmac-sha256', secret: supervisorSecret };
+  } else {
+    throw new Error('validate_trace_missing_key: pass supervisorSecret or publicKey');
+  }
+
+  if (expectedFingerprint && verifyKey.algorithm === 'ed25519') {
+    const actual = publicKeyFingerprint(verifyKey.publicKey);
+    if (actual !== expectedFingerprint) {
+      errors.push({
+        eventId: 0,
+        reason: 'public_key_fingerprint_mismatch',
+        expected: expectedFingerprint,
+        actual
+      });
+    }
+  }
+
+  const byId = new Map<number, TraceEvent>();
+  const lastReturn = new Map<string, number>();
   for (const ev of traceEvents) {
+    byId.set(ev.eventId, ev);
+    if (ev.kind === 'return' && ev.childRunId) lastReturn.set(ev.childRunId, ev.eventId);
+  }
+
+  traceEvents.forEach((ev, i) => {
     // Reconstruct canonical payload (without supervisorSig)
-    const payload = {
-      eventId: ev.eventId,
-      ts: ev.ts,
-      kind: ev.kind,
-      depth: ev.depth,
-      agentName: ev.agentName,
-      parentRunId: ev.parentRunId || null,
-      childRunId: ev.childRunId || null,
-      inputHash: ev.inputHash || null,
-      outputHash: ev.outputHash || null,
-      note: ev.note || null
-    };
+    const payload = canonicalPayload(ev);
 
     // Verify signature
-    const okSig = verifyEventSig(supervisorSecret, payload, ev.supervisorSig);
+    const okSig = verifyWithKey(verifyKey, payload, ev.supervisorSig);
     if (!okSig) {
       errors.push({
         eventId: ev.eventId,
@@ -62,6 +99,10 @@ export function validateTrace({
       });
     }
 
+    errors.push(...checkChainLink(ev, i > 0 ? traceEvents[i - 1] : null, byId));
+
+    if (!registry) return;
+
     // Verify child run exists in registry
     if (ev.childRunId && !registry.hasRun(ev.childRunId)) {
       errors.push({
@@ -71,8 +112,8 @@ export function validateTrace({
       });
     }
 
-    // Verify output hash matches registry on return events
-    if (ev.kind === 'return' && ev.childRunId) {
+    // Verify output hash matches registry on the accepted (last) return event
+    if (ev.kind === 'return' && ev.childRunId && lastReturn.get(ev.childRunId) === ev.eventId) {
       const rec = registry.getRun(ev.childRunId);
       if (rec && rec.outputHash && ev.outputHash && rec.outputHash !== ev.outputHash) {
         errors.push({
@@ -84,7 +125,9 @@ export function validateTrace({
         });
       }
     }
-  }
+  });
+
+  if (anchor) errors.push(...checkAnchor(anchor, traceEvents, verifyKey));
 
   return {
     ok: errors.length === 0,
@@ -92,3 +135,69 @@ export function validateTrace({
     eventsChecked: traceEvents.length
   };
 }
+
+/**
+ * Check the signed anchor against the end of the trace
+ *
+ * - anchor_bad_signature: the anchor was not signed by the supervisor
+ * - trace_truncated: the trace ends before (or after) the anchored event
+ */
+function checkAnchor(anchor: TraceAnchor, traceEvents: TraceEvent[], verifyKey: SupervisorVerifyKey): ValidationError[] {
+  if (!verifyWithKey(verifyKey, anchorPayload(anchor), anchor.supervisorSig)) {
+    return [{ eventId: anchor.lastEventId, reason: 'anchor_bad_signature' }];
+  }
+
+  const last = traceEvents.length > 0 ? traceEvents[traceEvents.length - 1] : null;
+  const head = chainHeadAfter(last);
+  if (traceEvents.length !== anchor.eventCount || (last?.eventId ?? 0) !== anchor.lastEventId || head !== anchor.chainHead) {
+    return [{
+      eventId: anchor.lastEventId,
+      reason: 'trace_truncated',
+      expected: `${anchor.eventCount} events ending at ${anchor.lastEventId}`,
+      actual: `${traceEvents.length} events ending at ${last?.eventId ?? 0}`
+    }];
+  }
+  return [];
+}
+
+/**
+ * Check one event's link in the hash chain
+ *
+ * - event_missing: eventId - 1 is absent (reported on the event after the gap)
+ * - event_reordered: eventId not greater than the event before it
+ * - chain_broken: predecessor present but prevSig/chainHead do not link to it
+ *
+ * Links are resolved by eventId, so a reorder or gap is not also reported
+ * as chain_broken on its neighbours.
+ */
+function checkChainLink(ev: TraceEvent, before: TraceEvent | null, byId: Map<number, TraceEvent>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (before && ev.eventId <= before.eventId) {
+    errors.push({ eventId: ev.eventId, reason: 'event_reordered', kind: ev.kind });
+  }
+
+  const prev = ev.eventId > 1 ? byId.get(ev.eventId - 1) : null;
+  if (prev === undefined) {
+    errors.push({
+      eventId: ev.eventId,
+      reason: 'event_missing',
+      kind: ev.kind,
+      expected: String(ev.eventId - 1)
+    });
+    return errors;
+  }
+
+  const expectedHead = chainHeadAfter(prev);
+  if ((ev.prevSig ?? null) !== (prev ? prev.supervisorSig : null) || ev.chainHead !== expectedHead) {
+    errors.push({
+      eventId: ev.eventId,
+      reason: 'chain_broken',
+      kind: ev.kind,
+      expected: expectedHead,
+      actual: ev.chainHead
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,68 @@
+/**
+ * Token and Cost Accounting
+ *
+ * Adapters that know what a call consumed report it as SpawnResult.usage.
+ * The supervisor sums it per runId (across retry attempts) in the run
+ * registry, rolls it up per subtree, and enforces maxTokens / maxCost
+ * before each spawn alongside maxSpawns.
+ */
+
+/**
+ * Usage reported for one call; every field optional
+ */
+export interface SpawnUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;  // Default: prompt + completion
+  cost?: number;         // In whatever currency the adapter prices in
+}
+
+/**
+ * Summed usage (per run, subtree, or proof)
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+/**
+ * Normalize adapter-reported usage; non-numeric or negative values count as 0
+ */
+export function normalizeUsage(raw: SpawnUsage | null | undefined): TokenUsage {
+  const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0);
+
+  const promptTokens = count(raw?.promptTokens);
+  const completionTokens = count(raw?.completionTokens);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: count(raw?.totalTokens) || promptTokens + completionTokens,
+    cost: count(raw?.cost)
+  };
+}
+
+/**
+ * Sum usages into a new total
+ */
+export function addUsage(...usages: (SpawnUsage | null | undefined)[]): TokenUsage {
+  const total = emptyUsage();
+  for (const raw of usages) {
+    if (!raw) continue;
+    const usage = normalizeUsage(raw);
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.totalTokens += usage.totalTokens;
+    total.cost += usage.cost;
+  }
+  return total;
+}
+
+export function hasUsage(usage: TokenUsage): boolean {
+  return usage.totalTokens > 0 || usage.cost > 0;
+}
@@ -0,0 +1,276 @@
+/**
+ * Record / Replay Adapters
+ *
+ * RecordingAdapter wraps any ConfuciusAdapter and writes every runSubagent /
+ * runModel prompt and response to a cassette (JSON file). ReplayAdapter
+ * serves those responses back offline, so orchestrations recorded from real
+ * runs become deterministic regression tests.
+ *
+ * Matching: kind + agentName + hash of the normalized prompt. Normalization
+ * masks the values the supervisor mints fresh on every run (run IDs, nonces,
+ * hashes, timestamps), so a replayed orchestration produces the same hashes.
+ * Identical keys are served in recorded order (retries, repeated agents).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { sha256Hex } from './orchestrator/supervisor-crypto.js';
+import { raceAbort } from './orchestrator/cancellation.js';
+import { addUsage, type SpawnUsage } from './orchestrator/usage.js';
+import type { ConfuciusAdapter, RuntimeInfo, SubagentRequest } from './adapter.js';
+
+export type CassetteCallKind = 'runSubagent' | 'runModel';
+
+export interface CassetteInteraction {
+  kind: CassetteCallKind;
+  agentName: string;          // runSubagent description; 'model' for runModel
+  promptHash: string;
+  prompt: string;
+  response?: string | object;
+  error?: string;             // The wrapped adapter threw; replay throws the same
+  usage?: SpawnUsage;         // Reported through onUsage; replay reports it again
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: number;
+  runtime: RuntimeInfo;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * What ReplayAdapter does when no recording matches a call
+ * - error: throw cassette_mismatch (default)
+ * - agent: serve the next unused recording for the same kind + agentName
+ * - passthrough: call the fallback adapter
+ */
+export type MismatchPolicy = 'error' | 'agent' | 'passthrough';
+
+/**
+ * Mask per-run values so the same orchestration hashes the same prompt
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/\d{8}T\d{9}Z_[a-f0-9]{8}/g, '<run>')  // Minted run IDs (suffix of agentName)
+    .replace(/\b[a-f0-9]{64}\b/g, '<hash>')
+    .replace(/\b[a-f0-9]{32}\b/g, '<nonce>')
+    .replace(/\b\d{13}\b/g, '<ts>');                 // Date.now() timestamps
+}
+
+export function promptHash(prompt: string, normalize: (prompt: string) => string = normalizePrompt): string {
+  return sha256Hex(normalize(prompt));
+}
+
+/**
+ * Read a cassette file
+ */
+export function loadCassette(path: string): Cassette {
+  if (!existsSync(path)) {
+    throw new Error(`cassette_not_found: ${path}`);
+  }
+  const cassette = JSON.parse(readFileSync(path, 'utf-8')) as Cassette;
+  if (cassette?.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`cassette_invalid: ${path}`);
+  }
+  return cassette;
+}
+
+/**
+ * Record every call made through a wrapped adapter
+ */
+export class RecordingAdapter implements ConfuciusAdapter {
+  readonly cassette: Cassette;
+  private inner: ConfuciusAdapter;
+  private path: string;
+  private normalize: (prompt: string) => string;
+
+  runSubagent?: (args: SubagentRequest) => Promise<string>;
+
+  /**
+   * @param adapter - Adapter that does the real work
+   * @param cassettePath - File rewritten after every call
+   * @param normalize - Prompt normalization before hashing (default normalizePrompt)
+   */
+  constructor({ adapter, cassettePath, normalize = normalizePrompt }: { adapter: ConfuciusAdapter; cassettePath: string; normalize?: (prompt: string) => string }) {
+    this.inner = adapter;
+    this.path = cassettePath;
+    this.normalize = normalize;
+    this.cassette = { version: 1, recordedAt: Date.now(), runtime: adapter.getRuntimeInfo(), interactions: [] };
+
+    if (typeof adapter.runSubagent === 'function') {
+      const runSubagent = adapter.runSubagent.bind(adapter);
+      this.runSubagent = args => this.record('runSubagent', args.description, args.prompt, async reported => {
+        return await runSubagent({
+          ...args,
+          onUsage: usage => {
+            reported.push(usage);
+            args.onUsage?.(usage);
+          }
+        });
+      });
+    }
+    this.save();
+  }
+
+  getRuntimeInfo(): RuntimeInfo {
+    return this.inner.getRuntimeInfo();
+  }
+
+  runModel(prompt: string, input: unknown): Promise<string | object> {
+    return this.record('runModel', 'model', prompt, () => this.inner.runModel(prompt, input));
+  }
+
+  /**
+   * Write the cassette (done after every call; safe to call again)
+   */
+  save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(this.cassette, null, 2) + '\n', 'utf-8');
+  }
+
+  private async record<T extends string | object>(kind: CassetteCallKind, agentName: string, prompt: string, call: (reported: SpawnUsage[]) => Promise<T>): Promise<T> {
+    const interaction: CassetteInteraction = { kind, agentName, promptHash: promptHash(prompt, this.normalize), prompt };
+    const reported: SpawnUsage[] = [];
+
+    try {
+      const response = await call(reported);
+      this.cassette.interactions.push({ ...interaction, response, ...(reported.length ? { usage: addUsage(...reported) } : {}) });
+      return response;
+    } catch (err) {
+      this.cassette.interactions.push({ ...interaction, error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    } finally {
+      this.save();
+    }
+  }
+}
+
+/**
+ * Serve recorded responses back, offline
+ *
+ * Reports a standalone host: replayed outputs are not live executions, so
+ * proofs built on them are marked simulated.
+ */
+export class ReplayAdapter implements ConfuciusAdapter {
+  private cassette: Cassette;
+  private used: Set<number>;
+  private onMismatch: MismatchPolicy;
+  private fallback: ConfuciusAdapter | undefined;
+  private normalize: (prompt: string) => string;
+  private refreshProofs: boolean;
+
+  runSubagent?: (args: SubagentRequest) => Promise<string>;
+
+  /**
+   * @param cassette - Cassette object, or path to a cassette file
+   * @param onMismatch - Policy when no recording matches (default 'error')
+   * @param fallback - Adapter for 'passthrough'
+   * @param refreshProofs - Recompute depth3 hashProof for the current nonce/runId (default true)
+   */
+  constructor({
+    cassette,
+    onMismatch = 'error',
+    fallback,
+    normalize = normalizePrompt,
+    refreshProofs = true
+  }: {
+    cassette: Cassette | string;
+    onMismatch?: MismatchPolicy;
+    fallback?: ConfuciusAdapter;
+    normalize?: (prompt: string) => string;
+    refreshProofs?: boolean;
+  }) {
+    if (onMismatch === 'passthrough' && !fallback) {
+      throw new Error('replay_fallback_missing: passthrough needs a fallback adapter');
+    }
+    this.cassette = typeof cassette === 'string' ? loadCassette(cassette) : cassette;
+    this.used = new Set();
+    this.onMismatch = onMismatch;
+    this.fallback = fallback;
+    this.normalize = normalize;
+    this.refreshProofs = refreshProofs;
+
+    if (this.cassette.runtime.capabilities.includes('runSubagent')) {
+      this.runSubagent = async args => {
+        const call = this.serve('runSubagent', args.description, args.prompt, () => this.fallback!.runSubagent!(args), args.onUsage) as Promise<string>;
+        return args.signal ? await raceAbort(call, args.signal) : await call;
+      };
+    }
+  }
+
+  getRuntimeInfo(): RuntimeInfo {
+    return {
+      host: 'standalone',
+      strictMode: false,
+      capabilities: [...this.cassette.runtime.capabilities],
+      version: 'replay'
+    };
+  }
+
+  runModel(prompt: string, input: unknown): Promise<string | object> {
+    return this.serve('runModel', 'model', prompt, () => this.fallback!.runModel(prompt, input));
+  }
+
+  /**
+   * Recordings not served yet (a shorter replay than recording)
+   */
+  unused(): CassetteInteraction[] {
+    return this.cassette.interactions.filter((_, i) => !this.used.has(i));
+  }
+
+  private async serve(
+    kind: CassetteCallKind,
+    agentName: string,
+    prompt: string,
+    passthrough: () => Promise<string | object>,
+    onUsage?: (usage: SpawnUsage) => void
+  ): Promise<string | object> {
+    const hash = promptHash(prompt, this.normalize);
+
+    let index = this.nextUnused(rec => rec.kind === kind && rec.agentName === agentName && rec.promptHash === hash);
+    if (index === -1) {
+      if (this.onMismatch === 'passthrough') return passthrough();
+      if (this.onMismatch === 'agent') {
+        index = this.nextUnused(rec => rec.kind === kind && rec.agentName === agentName);
+      }
+      if (index === -1) {
+        throw new Error(`cassette_mismatch: ${kind} ${agentName} ${hash.slice(0, 12)}`);
+      }
+    }
+
+    this.used.add(index);
+    const rec = this.cassette.interactions[index];
+    if (rec.error !== undefined) throw new Error(rec.error);
+    if (rec.usage) onUsage?.(rec.usage);
+
+    return this.refreshProofs ? refreshHashProof(rec.response!, prompt) : rec.response!;
+  }
+
+  private nextUnused(match: (rec: CassetteInteraction) => boolean): number {
+    return this.cassette.interactions.findIndex((rec, i) => !this.used.has(i) && match(rec));
+  }
+}
+
+/**
+ * Rebind a recorded depth3 hashProof to the nonce/runId in the current prompt
+ *
+ * Recorded proofs commit to the recorded run's nonce, which the supervisor
+ * never mints again.
+ */
+function refreshHashProof(response: string | object, prompt: string): string | object {
+  const proofInput = /sha256\("([a-f0-9]+):([^"]+)"\)/.exec(prompt);
+  if (!proofInput) return response;
+
+  const hashProof = sha256Hex(`${proofInput[1]}:${proofInput[2]}`);
+  if (typeof response === 'string') {
+    try {
+      const parsed = JSON.parse(response);
+      return parsed && typeof parsed === 'object' && 'hashProof' in parsed
+        ? JSON.stringify({ ...parsed, hashProof })
+        : response;
+    } catch {
+      return response;
+    }
+  }
+  return 'hashProof' in response ? { ...response, hashProof } : response;
+}
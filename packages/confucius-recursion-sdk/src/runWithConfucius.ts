@@ -7,23 +7,60 @@
  * Engagement Rules (NON-NEGOTIABLE):
  * 1. Preflight gate runs first - fails fast if capabilities missing
  * 2. Every task produces signed trace events
- * 3. At least ONE of these happens: plan, spawn_request, quality_gate
+ * 3. The engagement contract holds (agentic preset in strict mode, local otherwise)
  * 4. Strict mode enforced in agentic IDE (auto-detected)
  * 5. No silent downgrades - fail hard when tools missing
  */
 
-import { RecursionProofOrchestratorHardened } from './orchestrator/hardened-orchestrator.js';
+import { RecursionProofOrchestratorHardened, type ProofResult, type RetryPolicy } from './orchestrator/hardened-orchestrator.js';
+import type { TraceEvent } from './orchestrator/signed-trace.js';
 import type { ConfuciusAdapter } from './adapter.js';
-import { createAdapter } from './adapter.js';
+import { StandaloneAdapter, createAdapter, createModelAdapter, createSpawnAdapter } from './adapter.js';
 import { loadSupervisorSecret } from './orchestrator/supervisor-crypto.js';
+import { createGateFromSpec, type QualityGateDefinition } from './orchestrator/gate-registry.js';
+import type { JudgeConfig } from './orchestrator/judge.js';
+import { loadResolvedConfuciusConfig } from './config/load-confucius-config.js';
+import { guardListener, type ConfuciusEvent, type ConfuciusEventListener } from './orchestrator/events.js';
+import { silentLogger, type Logger } from './logging.js';
+import type { RegistryStore } from './orchestrator/registry-store.js';
+import { countEvents, evaluateContract, resolveContract, type ContractDefinition, type ContractResult } from './contract.js';
 
 export interface ConfuciusConfig {
   adapter?: ConfuciusAdapter;
   strictMode?: boolean;      // Override auto-detection
   maxDepth?: number;
   maxSpawns?: number;
+  maxTokens?: number;        // Token budget (usage reported by the adapter)
+  maxCost?: number;          // Cost budget (usage reported by the adapter)
+  maxConcurrency?: number;   // Parallel spawns across the whole tree
+  signal?: AbortSignal;      // Cancels the whole run
+  spawnTimeoutMs?: number;   // Default per-spawn timeout
+  depthTimeoutsMs?: Record<number, number>;  // Per-depth overrides
+  retry?: RetryPolicy;                       // Quality gate retries (attempts, backoff)
+  depthRetry?: Record<number, RetryPolicy>;  // Per-depth overrides
+  qualityGates?: QualityGateDefinition[];    // Applied after the gates in .confucius/config.json
+  judge?: JudgeConfig;                       // Model-judged gate; defaults to the adapter's runModel
+  signingMode?: 'hmac' | 'ed25519';          // ed25519: proofs verifiable with the public key only
+  onEvent?: ConfuciusEventListener;          // Live progress: preflight, spawn, return, retry, gate, limit, merge, log, done
+  logger?: Logger;                           // Orchestrator progress and diagnostics (default: silent)
+  contract?: string | ContractDefinition;    // Engagement contract (default: .confucius/config.json, else by strict mode)
+  registryStore?: RegistryStore;             // Registry and trace records (default: JSONL under .confucius/runs/<proofId>/)
 }
 
+/**
+ * Unsigned record runWithConfucius adds around the signed trace (preflight, verdicts, errors)
+ */
+export interface SupervisorNote {
+  kind: string;
+  ts: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Task for runWithConfucius: a description, or structured input with an optional description
+ */
+export type ConfuciusTask = string | { input: unknown; description?: string };
+
 export interface ConfuciusResult {
   ok: boolean;
   reason?: string;
@@ -33,8 +70,16 @@ export interface ConfuciusResult {
     hadSpawn: boolean;
     hadQualityGate: boolean;
   };
-  trace: any[];
-  result?: any;
+  trace: (SupervisorNote | TraceEvent)[];  // Preflight notes, then the signed trace
+  result?: ProofResult;
+  contract?: ContractResult;  // Engagement verdict; absent when the run never started
+}
+
+/**
+ * runWithConfucius.stream(): events as an async iterator, ending after `done`
+ */
+export interface ConfuciusRunStream extends AsyncIterable<ConfuciusEvent> {
+  result: Promise<ConfuciusResult>;  // Same result runWithConfucius resolves with
 }
 
 /**
@@ -49,9 +94,10 @@ export interface ConfuciusResult {
  */
 function preflightOrFail(
   adapter: ConfuciusAdapter,
-  explicitStrict?: boolean
-): { ok: boolean; reason?: string; strictMode: boolean; trace: any[] } {
-  const trace: any[] = [];
+  explicitStrict?: boolean,
+  signingMode: 'hmac' | 'ed25519' = 'hmac'
+): { ok: boolean; reason?: string; strictMode: boolean; trace: SupervisorNote[] } {
+  const trace: SupervisorNote[] = [];
   
   // 1. Get runtime info
   const runtime = adapter.getRuntimeInfo();
@@ -90,14 +136,24 @@ function preflightOrFail(
     }
   }
   
-  // 4. Supervisor secret validation (warn only, not fail)
-  loadSupervisorSecret(); // Trigger loading/generation side effect
-  if (!process.env.CONFUCIUS_SUPERVISOR_SECRET) {
-    trace.push({
-      kind: 'preflight_warning',
-      ts: Date.now(),
-      note: 'ephemeral_secret_generated'
-    });
+  // 4. Supervisor key validation (warn only, not fail)
+  if (signingMode === 'ed25519') {
+    if (!process.env.CONFUCIUS_SUPERVISOR_PRIVATE_KEY) {
+      trace.push({
+        kind: 'preflight_warning',
+        ts: Date.now(),
+        note: 'ephemeral_signing_key_generated'
+      });
+    }
+  } else {
+    loadSupervisorSecret(); // Trigger loading/generation side effect
+    if (!process.env.CONFUCIUS_SUPERVISOR_SECRET) {
+      trace.push({
+        kind: 'preflight_warning',
+        ts: Date.now(),
+        note: 'ephemeral_secret_generated'
+      });
+    }
   }
   
   // 5. Preflight passed
@@ -114,41 +170,25 @@ function preflightOrFail(
   };
 }
 
-/**
- * Detect if agent actually engaged (not asleep)
- * 
- * Engagement means at least ONE of:
- * - plan event exists
- * - spawn/spawn_request event exists
- * - quality_gate event exists
- * - merge event exists
- * 
- * NO ENGAGEMENT = ASLEEP = FAIL
- */
-function detectEngagement(trace: any[]): {
-  hadPlan: boolean;
-  hadSpawn: boolean;
-  hadQualityGate: boolean;
-} {
-  const hadPlan = trace.some(ev => ev.kind === 'plan');
-  const hadSpawn = trace.some(ev => ev.kind === 'spawn' || ev.kind === 'spawn_request');
-  const hadQualityGate = trace.some(ev => ev.kind === 'quality_gate' || ev.kind === 'quality_gate_pass');
-  
-  return { hadPlan, hadSpawn, hadQualityGate };
-}
-
 /**
  * THE ONLY ENTRYPOINT - Run With Confucius
  * 
  * All agent tasks MUST go through this function.
  * Direct model calls or tool calls bypass orchestration and cause "asleep" mode.
  * 
+ * A planning call first turns the task into a signed plan; depth2 workers
+ * outside it are rejected. The task description becomes the depth1
+ * orchestrator's task and the task input is embedded in its prompt. Execution goes through the caller's
+ * adapter (runSubagent, else runModel). An auto-detected adapter is used only
+ * when it can spawn subagents; otherwise the built-in simulation runs
+ * (non-strict only - strict mode already failed preflight).
+ *
  * Usage:
  * ```typescript
- * const result = await runWithConfucius({
- *   task: "Build casino backend",
- *   adapter: new CopilotAdapter()
- * });
+ * const result = await runWithConfucius(
+ *   { description: "Build casino backend", input: { repo: "./api" } },
+ *   { adapter: new CopilotAdapter() }
+ * );
  * 
  * if (!result.ok) {
  *   console.error('Task failed:', result.reason);
@@ -157,17 +197,46 @@ function detectEngagement(trace: any[]): {
  * ```
  */
 export async function runWithConfucius(
-  _task: { input: any; description?: string },
+  task: ConfuciusTask,
   config?: ConfuciusConfig
 ): Promise<ConfuciusResult> {
+  const onEvent = guardListener(config?.onEvent, 'onEvent', config?.logger ?? silentLogger);
+
+  // The orchestrator reports its own run's end; the final verdict is decided here
+  const finish = (result: ConfuciusResult): ConfuciusResult => {
+    onEvent?.({
+      type: 'done',
+      ts: Date.now(),
+      ok: result.ok,
+      ...(result.reason ? { reason: result.reason } : {}),
+      spawnsExecuted: result.result?.spawnsExecuted ?? 0,
+      deepestDepthReached: result.result?.deepestDepthReached ?? 0,
+      ...(result.result?.usage ? { usage: result.result.usage } : {})
+    });
+    return result;
+  };
+
   // 1. Create or use provided adapter
   const adapter = config?.adapter || createAdapter();
+  const executesTasks = Boolean(config?.adapter) || typeof adapter.runSubagent === 'function';
+  // Without a real model (StandaloneAdapter.runModel only echoes the prompt) plans come from the simulation
+  const plansWithModel = executesTasks
+    && !(adapter instanceof StandaloneAdapter)
+    && adapter.getRuntimeInfo().capabilities.includes('runModel');
   
   // 2. Preflight gate (HARD FAIL if strict mode violated)
-  const preflight = preflightOrFail(adapter, config?.strictMode);
+  const preflight = preflightOrFail(adapter, config?.strictMode, config?.signingMode);
+  onEvent?.({
+    type: 'preflight',
+    ts: Date.now(),
+    ok: preflight.ok,
+    strictMode: preflight.strictMode,
+    host: adapter.getRuntimeInfo().host,
+    ...(preflight.reason ? { reason: preflight.reason } : {})
+  });
   
   if (!preflight.ok) {
-    return {
+    return finish({
       ok: false,
       reason: preflight.reason,
       engagement: {
@@ -177,30 +246,68 @@ export async function runWithConfucius(
         hadQualityGate: false
       },
       trace: preflight.trace
-    };
+    });
   }
   
   // 3. Create orchestrator with detected strict mode
+  const repoConfig = loadResolvedConfuciusConfig();
+  const contract = resolveContract(config?.contract, preflight.strictMode ? 'agentic' : 'local', repoConfig);
   const orchestrator = new RecursionProofOrchestratorHardened({
     maxDepth: config?.maxDepth || 4,
     maxSpawns: config?.maxSpawns || 10,
-    strictMode: preflight.strictMode
+    maxTokens: config?.maxTokens,
+    maxCost: config?.maxCost,
+    maxConcurrency: config?.maxConcurrency,
+    signal: config?.signal,
+    spawnTimeoutMs: config?.spawnTimeoutMs,
+    depthTimeoutsMs: config?.depthTimeoutsMs,
+    retry: config?.retry,
+    depthRetry: config?.depthRetry,
+    qualityGates: [
+      ...repoConfig.qualityGates.map(createGateFromSpec),
+      ...(config?.qualityGates || [])
+    ],
+    judge: config?.judge,
+    signingMode: config?.signingMode,
+    strictMode: preflight.strictMode,
+    spawnAdapter: executesTasks ? createSpawnAdapter(adapter) : undefined,
+    modelAdapter: plansWithModel ? createModelAdapter(adapter) : undefined,
+    logger: config?.logger,
+    registryStore: config?.registryStore,
+    onEvent: onEvent && (event => {
+      if (event.type !== 'done') onEvent(event);
+    })
   });
+
+  const { description, input } = typeof task === 'string'
+    ? { description: task, input: undefined }
+    : { description: task.description, input: task.input };
   
-  // 4. Execute recursion proof
+  // 4. Execute the caller's task as a supervised task graph
   try {
-    const result = await orchestrator.runDepth3Proof();
+    const result = await orchestrator.runTask({
+      agentName: 'depth1_orchestrator',
+      input: {
+        task: description || (typeof input === 'string' ? input : undefined),
+        taskInput: typeof input === 'string' ? undefined : input
+      },
+      plan: true
+    });
     
     // 5. Combine preflight trace with execution trace
     const fullTrace = [...preflight.trace, ...result.trace];
     
-    // 6. Detect engagement
-    const engagement = detectEngagement(fullTrace);
+    // 6. Engagement evidence
+    const engagement = {
+      hadPlan: countEvents(fullTrace, ['plan', 'plan_created']) > 0,
+      hadSpawn: countEvents(fullTrace, ['spawn', 'spawn_request']) > 0,
+      hadQualityGate: countEvents(fullTrace, ['quality_gate', 'quality_gate_pass', 'quality_gate_fail']) > 0
+    };
     
-    // 7. ASLEEP DETECTOR: Fail if no engagement evidence
-    const engaged = engagement.hadPlan || engagement.hadSpawn || engagement.hadQualityGate;
-    if (!engaged) {
-      return {
+    // 7. ASLEEP DETECTOR: Fail if the engagement contract does not hold
+    const verdict = evaluateContract({ ...result, trace: fullTrace }, contract);
+    if (!verdict.ok) {
+      return finish({
         ok: false,
         reason: 'asleep_detected',
         engagement: {
@@ -213,14 +320,16 @@ export async function runWithConfucius(
             kind: 'limit',
             ts: Date.now(),
             note: 'asleep_detected',
-            reason: 'no_plan_spawn_or_gate_evidence'
+            reason: `contract_failed:${verdict.failedClauses.map(c => c.name).join(',')}`
           }
-        ]
-      };
+        ],
+        result,
+        contract: verdict
+      });
     }
     
     // 8. Return success with engagement proof
-    return {
+    return finish({
       ok: result.ok,
       reason: result.reason,
       engagement: {
@@ -228,14 +337,15 @@ export async function runWithConfucius(
         ...engagement
       },
       trace: fullTrace,
-      result
-    };
+      result,
+      contract: verdict
+    });
     
-  } catch (error: any) {
+  } catch (error) {
     // 9. Hard failure (strict mode violation or other error)
-    return {
+    return finish({
       ok: false,
-      reason: error.message,
+      reason: error instanceof Error ? error.message : String(error),
       engagement: {
         preflight: 'ok',
         hadPlan: false,
@@ -247,18 +357,67 @@ export async function runWithConfucius(
         {
           kind: 'error',
           ts: Date.now(),
-          error: error.message,
-          stack: error.stack
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined
         }
       ]
-    };
+    });
   }
 }
 
+/**
+ * Stream a run's events as they happen
+ *
+ * ```typescript
+ * const run = runWithConfucius.stream('Audit the API', { adapter });
+ * for await (const event of run) {
+ *   if (event.type === 'spawn') tree.add(event.runId, event.parentRunId, event.agentName);
+ *   if (event.type === 'return') tree.close(event.runId, event.status);
+ * }
+ * const result = await run.result;
+ * ```
+ */
+runWithConfucius.stream = function stream(
+  task: ConfuciusTask,
+  config: ConfuciusConfig = {}
+): ConfuciusRunStream {
+  const queue: ConfuciusEvent[] = [];
+  let wake: (() => void) | null = null;
+  let finished = false;
+
+  const result = runWithConfucius(task, {
+    ...config,
+    onEvent: event => {
+      queue.push(event);
+      wake?.();
+      config.onEvent?.(event);
+    }
+  }).finally(() => {
+    finished = true;
+    wake?.();
+  });
+
+  return {
+    result,
+    async *[Symbol.asyncIterator]() {
+      for (;;) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+        } else if (finished) {
+          return;
+        } else {
+          await new Promise<void>(resolve => { wake = resolve; });
+          wake = null;
+        }
+      }
+    }
+  };
+};
+
 /**
  * Export types and adapter creators for advanced usage
  */
-export { ConfuciusAdapter, CopilotAdapter, StandaloneAdapter, createAdapter } from './adapter.js';
+export { ConfuciusAdapter, CopilotAdapter, ClaudeAdapter, StandaloneAdapter, createAdapter, createSpawnAdapter, createModelAdapter } from './adapter.js';
 export { RecursionProofOrchestratorHardened } from './orchestrator/hardened-orchestrator.js';
 export { validateTrace } from './orchestrator/trace-validation.js';
 export { qualityGate } from './orchestrator/quality-gates.js';
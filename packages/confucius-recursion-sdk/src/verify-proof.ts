@@ -0,0 +1,282 @@
+/**
+ * Proof Verifier
+ *
+ * Re-verifies a stored proof artifact (last-proof.json, or the JSON written
+ * by confucius-run --output) after the fact:
+ * - Signatures and hash chain via validateTrace (HMAC secret or Ed25519 public key)
+ * - The signed anchor (signature.anchor), so dropped trailing events are caught
+ * - Depth3 hashProof values recomputed from their nonces
+ * - Every depth3 nonce matched against the nonceHash in its signed spawn event
+ * - Exactly one proof per signed depth3 return whose spawn committed a nonce
+ *
+ * Produces a machine-readable verdict; the CLI maps it to an exit code.
+ */
+
+import type { KeyObject } from 'crypto';
+import { sha256Hex } from './orchestrator/supervisor-crypto.js';
+import { validateTrace } from './orchestrator/trace-validation.js';
+import type { TraceAnchor, TraceEvent } from './orchestrator/signed-trace.js';
+
+export type VerifyErrorCode =
+  | 'proof_malformed'
+  | 'trace_missing'
+  | 'key_missing'
+  | 'key_invalid'
+  | 'algorithm_mismatch'
+  | 'public_key_fingerprint_mismatch'
+  | 'bad_signature'
+  | 'chain_broken'
+  | 'event_missing'
+  | 'event_reordered'
+  | 'anchor_missing'
+  | 'anchor_bad_signature'
+  | 'trace_truncated'
+  | 'depth3_hash_mismatch'
+  | 'depth3_run_not_in_trace'
+  | 'depth3_nonce_unbound'
+  | 'depth3_nonce_mismatch'
+  | 'depth3_proof_duplicate'
+  | 'depth3_proof_missing';
+
+export interface VerifyError {
+  code: VerifyErrorCode;
+  eventId?: number;
+  runId?: string;
+  message?: string;
+}
+
+export interface VerifyKeys {
+  secret?: Buffer;                 // HMAC secret
+  publicKey?: KeyObject | string;  // Ed25519 public key (SPKI PEM or KeyObject)
+  fingerprint?: string;            // Pin: trust the proof's embedded key only if it matches
+}
+
+export interface ProofVerdict {
+  ok: boolean;
+  algorithm: string | null;
+  keySource: 'secret' | 'supplied' | 'embedded' | null;
+  eventsChecked: number;
+  depth3ProofsChecked: number;
+  errors: VerifyError[];
+  exitCode: number;
+}
+
+/**
+ * Parts of a proof artifact the verifier reads; nothing in them is trusted yet
+ */
+interface ProofParts {
+  trace: unknown;
+  verification: Record<string, unknown> | undefined;
+  signature: Record<string, unknown> | undefined;
+}
+
+/**
+ * One unsigned entry of verification.depth3Proofs
+ */
+interface Depth3ProofEntry {
+  runId?: unknown;
+  nonce?: unknown;
+  hashProof?: unknown;
+}
+
+/**
+ * Exit codes for confucius-verify (distinct per failure class)
+ */
+export const VERIFY_EXIT_CODES = {
+  ok: 0,
+  usage: 2,             // Bad arguments, or no usable key
+  trace_invalid: 3,     // Signature or hash-chain failure
+  depth3_invalid: 4,    // Depth3 hashProof / nonce failure
+  proof_unreadable: 6   // File missing, not JSON, or no well-formed trace
+} as const;
+
+const TRACE_CODES: ReadonlySet<string> = new Set([
+  'bad_signature',
+  'chain_broken',
+  'event_missing',
+  'event_reordered',
+  'anchor_missing',
+  'anchor_bad_signature',
+  'trace_truncated',
+  'public_key_fingerprint_mismatch'
+]);
+
+/**
+ * Verify a parsed proof artifact
+ */
+export function verifyProof(proof: unknown, keys: VerifyKeys): ProofVerdict {
+  const verdict = (
+    errors: VerifyError[],
+    extra: Partial<ProofVerdict> = {}
+  ): ProofVerdict => ({
+    ok: errors.length === 0,
+    algorithm: null,
+    keySource: null,
+    eventsChecked: 0,
+    depth3ProofsChecked: 0,
+    ...extra,
+    errors,
+    exitCode: exitCodeFor(errors)
+  });
+
+  if (!proof || typeof proof !== 'object') {
+    return verdict([{ code: 'proof_malformed', message: 'proof is not a JSON object' }]);
+  }
+
+  const { trace, verification, signature } = extractProofParts(proof as Record<string, unknown>);
+  if (!Array.isArray(trace)) {
+    return verdict([{ code: 'trace_missing', message: 'no signed trace array in proof' }]);
+  }
+  // validateTrace assumes signed events; anything else is a broken artifact, not a bad key
+  const malformed = trace.findIndex(ev => !isTraceEvent(ev));
+  if (malformed !== -1) {
+    return verdict([{ code: 'proof_malformed', message: `trace[${malformed}] is not a signed trace event` }]);
+  }
+
+  const algorithm = typeof signature?.algorithm === 'string' ? signature.algorithm : 'hmac-sha256';
+
+  // Resolve the verification key
+  let keyArgs: { supervisorSecret: Buffer } | { publicKey: KeyObject | string; publicKeyFingerprint?: string };
+  let keySource: ProofVerdict['keySource'];
+  if (algorithm === 'ed25519') {
+    if (keys.publicKey) {
+      keyArgs = { publicKey: keys.publicKey, publicKeyFingerprint: keys.fingerprint };
+      keySource = 'supplied';
+    } else if (keys.fingerprint && typeof signature?.publicKey === 'string') {
+      keyArgs = { publicKey: signature.publicKey, publicKeyFingerprint: keys.fingerprint };
+      keySource = 'embedded';
+    } else {
+      return verdict(
+        [{ code: 'key_missing', message: 'ed25519 proof needs --public-key, or --fingerprint to pin the embedded key' }],
+        { algorithm }
+      );
+    }
+  } else if (algorithm === 'hmac-sha256') {
+    if (!keys.secret) {
+      return verdict(
+        [{ code: keys.publicKey ? 'algorithm_mismatch' : 'key_missing', message: 'hmac-sha256 proof needs the supervisor secret' }],
+        { algorithm }
+      );
+    }
+    keyArgs = { supervisorSecret: keys.secret };
+    keySource = 'secret';
+  } else {
+    return verdict([{ code: 'proof_malformed', message: `unknown signature algorithm: ${algorithm}` }]);
+  }
+
+  const errors: VerifyError[] = [];
+
+  // 1. Signatures, hash chain and its signed end
+  const anchor = isRecord(signature?.anchor) ? signature.anchor as unknown as TraceAnchor : undefined;
+  if (!anchor) {
+    errors.push({ code: 'anchor_missing', message: 'proof has no signed trace anchor; trailing events cannot be checked' });
+  }
+  try {
+    const validation = validateTrace({ ...keyArgs, traceEvents: trace, ...(anchor ? { anchor } : {}) });
+    for (const err of validation.errors) {
+      errors.push({
+        code: err.reason as VerifyErrorCode,
+        ...(err.eventId ? { eventId: err.eventId } : {})
+      });
+    }
+  } catch (err) {
+    return verdict(
+      [{ code: 'key_invalid', message: err instanceof Error ? err.message : String(err) }],
+      { algorithm, keySource }
+    );
+  }
+
+  // 2. Depth3 proofs: the proof list is unsigned, so each nonce must match the
+  //    nonceHash its signed spawn event committed to, and every signed depth3
+  //    return of such a spawn needs exactly one proof
+  const depth3Proofs: Depth3ProofEntry[] = Array.isArray(verification?.depth3Proofs)
+    ? verification.depth3Proofs.map(p => (isRecord(p) ? p : {}))
+    : [];
+  const nonceHashes = new Map<string, string>();
+  const depth3Returns = new Set<string>();
+  for (const ev of trace) {
+    if (ev?.depth !== 3 || !ev.childRunId) continue;
+    if (ev.kind === 'spawn' && typeof ev.nonceHash === 'string') nonceHashes.set(ev.childRunId, ev.nonceHash);
+    if (ev.kind === 'return') depth3Returns.add(ev.childRunId);
+  }
+
+  const proven = new Set<string>();
+  for (const p of depth3Proofs) {
+    const runId = String(p.runId);
+    const expected = sha256Hex(`${String(p.nonce)}:${runId}`);
+    if (p.hashProof !== expected) {
+      errors.push({ code: 'depth3_hash_mismatch', runId, message: `expected ${expected}` });
+    }
+    if (!depth3Returns.has(runId)) {
+      errors.push({ code: 'depth3_run_not_in_trace', runId });
+      continue;
+    }
+    const nonceHash = nonceHashes.get(runId);
+    if (nonceHash === undefined) {
+      errors.push({ code: 'depth3_nonce_unbound', runId, message: 'spawn event commits no nonce' });
+    } else if (sha256Hex(String(p.nonce)) !== nonceHash) {
+      errors.push({ code: 'depth3_nonce_mismatch', runId, message: 'nonce does not match the signed spawn event' });
+    }
+    if (proven.has(runId)) {
+      errors.push({ code: 'depth3_proof_duplicate', runId });
+    }
+    proven.add(runId);
+  }
+
+  for (const runId of depth3Returns) {
+    if (nonceHashes.has(runId) && !proven.has(runId)) {
+      errors.push({ code: 'depth3_proof_missing', runId });
+    }
+  }
+
+  return verdict(errors, {
+    algorithm,
+    keySource,
+    eventsChecked: trace.length,
+    depth3ProofsChecked: depth3Proofs.length
+  });
+}
+
+/**
+ * Pick trace, verification and signature from either artifact shape
+ *
+ * CLI artifacts carry them at the top level; runWithConfucius results
+ * nest the orchestrator proof under `result` (top-level trace there also
+ * holds unsigned preflight events).
+ */
+function extractProofParts(proof: Record<string, unknown>): ProofParts {
+  const inner = isRecord(proof.result) ? proof.result : proof;
+  return {
+    trace: inner.trace,
+    verification: isRecord(inner.verification) ? inner.verification : undefined,
+    signature: isRecord(inner.signature) ? inner.signature : undefined
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Shape check only: the fields validateTrace reads before any signature check
+ */
+function isTraceEvent(value: unknown): value is TraceEvent {
+  return isRecord(value)
+    && !Array.isArray(value)
+    && Number.isInteger(value.eventId)
+    && typeof value.kind === 'string'
+    && typeof value.supervisorSig === 'string';
+}
+
+/**
+ * Most severe failure class wins: unreadable > usage > trace > depth3
+ */
+function exitCodeFor(errors: VerifyError[]): number {
+  if (errors.length === 0) return VERIFY_EXIT_CODES.ok;
+
+  const codes = errors.map(e => e.code);
+  if (codes.some(c => c === 'proof_malformed' || c === 'trace_missing')) return VERIFY_EXIT_CODES.proof_unreadable;
+  if (codes.some(c => c === 'key_missing' || c === 'key_invalid' || c === 'algorithm_mismatch')) return VERIFY_EXIT_CODES.usage;
+  if (codes.some(c => TRACE_CODES.has(c))) return VERIFY_EXIT_CODES.trace_invalid;
+  return VERIFY_EXIT_CODES.depth3_invalid;
+}
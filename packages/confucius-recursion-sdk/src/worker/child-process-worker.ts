@@ -0,0 +1,109 @@
+/**
+ * Child Process Worker
+ *
+ * Runs the orchestrator worker file in a forked Node process instead of a
+ * worker_threads Worker. Same MainToWorkerMessage / WorkerToMainMessage
+ * protocol, carried over the IPC channel, but a separate heap, memory limit
+ * and crash domain: an orchestrator that runs out of memory or hangs is
+ * killed without taking the host (e.g. an IDE extension) down with it.
+ *
+ * The child's stdout and stderr are captured (last `maxOutputChars` of
+ * each) so they can be attached to the proof artifact.
+ */
+
+import { fork, type ChildProcess } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import type { MainToWorkerMessage } from './protocol.js';
+import type { WorkerHandle } from './worker-manager.js';
+
+export interface ChildProcessWorkerOptions {
+  workerPath: string;
+  memoryLimitMb?: number;   // --max-old-space-size for the child
+  maxOutputChars?: number;  // Per stream (default: 256k characters)
+}
+
+export interface ChildOutput {
+  stdout: string;
+  stderr: string;
+  truncated: boolean;  // Earlier output was dropped to stay under maxOutputChars
+}
+
+/**
+ * WorkerHandle over a forked child process
+ *
+ * 'exit' is emitted once the child has exited and its output streams are
+ * closed. A child killed by V8 for exceeding its heap emits 'error' with
+ * code ERR_WORKER_OUT_OF_MEMORY first, as a worker_threads Worker does.
+ */
+export class ChildProcessWorker extends EventEmitter implements WorkerHandle {
+  private readonly child: ChildProcess;
+  private readonly maxOutputChars: number;
+  private stdout = '';
+  private stderr = '';
+  private truncated = false;
+  private closed = false;
+
+  constructor({ workerPath, memoryLimitMb, maxOutputChars = 256 * 1024 }: ChildProcessWorkerOptions) {
+    super();
+    this.maxOutputChars = maxOutputChars;
+
+    // Explicit execArgv: the host's own flags (loaders, inspectors) stay out of the child
+    this.child = fork(workerPath, [], {
+      execArgv: memoryLimitMb ? [`--max-old-space-size=${memoryLimitMb}`] : [],
+      env: process.env,
+      serialization: 'advanced',
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc']
+    });
+
+    this.child.stdout?.setEncoding('utf-8').on('data', (chunk: string) => { this.stdout = this.capture(this.stdout, chunk); });
+    this.child.stderr?.setEncoding('utf-8').on('data', (chunk: string) => { this.stderr = this.capture(this.stderr, chunk); });
+
+    this.child.on('message', msg => this.emit('message', msg));
+    this.child.on('error', err => this.emit('error', err));
+    this.child.on('close', (code, signal) => {
+      this.closed = true;
+      if (/heap out of memory/i.test(this.stderr)) {
+        const err = Object.assign(
+          new Error(`child process exceeded its memory limit${memoryLimitMb ? ` (${memoryLimitMb} MB)` : ''}`),
+          { code: 'ERR_WORKER_OUT_OF_MEMORY' }
+        );
+        this.emit('error', err);
+      }
+      this.emit('exit', code ?? (signal ? 128 : 1));
+    });
+  }
+
+  postMessage(message: MainToWorkerMessage): void {
+    if (this.closed || !this.child.connected) return;
+    this.child.send(message);
+  }
+
+  /**
+   * Kill the child (SIGKILL) and wait until its output is complete
+   */
+  terminate(): Promise<number | null> {
+    if (this.closed) return Promise.resolve(this.child.exitCode);
+    return new Promise(resolve => {
+      this.child.once('close', code => resolve(code));
+      this.child.kill('SIGKILL');
+    });
+  }
+
+  /**
+   * Output captured since the last call
+   */
+  takeOutput(): ChildOutput {
+    const output = { stdout: this.stdout, stderr: this.stderr, truncated: this.truncated };
+    this.stdout = '';
+    this.stderr = '';
+    this.truncated = false;
+    return output;
+  }
+
+  private capture(buffer: string, chunk: string): string {
+    const next = buffer + chunk;
+    if (next.length <= this.maxOutputChars) return next;
+    this.truncated = true;
+    return next.slice(next.length - this.maxOutputChars);
+  }
+}
@@ -2,29 +2,76 @@ import { parentPort } from 'worker_threads';
 import { randomBytes } from 'crypto';
 import {
   RecursionProofOrchestratorHardened,
+  type ModelAdapter,
   type SpawnAdapter,
   type SpawnResult
 } from '../orchestrator/hardened-orchestrator.js';
-import type {
-  MainToWorkerMessage,
-  WorkerToMainMessage
+import {
+  PROTOCOL_VERSION,
+  parseMainToWorkerMessage,
+  type MainToWorkerMessage,
+  type WorkerToMainMessage
 } from './protocol.js';
+import type { Logger, LogFields, LogLevel } from '../logging.js';
+
+/**
+ * Channel to main: the worker_threads port, or the IPC channel when forked
+ * as a child process (isolation: 'process'); the protocol is the same
+ */
+type MainPort = {
+  postMessage(message: WorkerToMainMessage): void;
+  on(event: 'message', listener: (raw: unknown) => void): unknown;
+};
 
-if (!parentPort) {
-  throw new Error('orchestrator.worker.ts must be run as a Worker');
+const mainPort: MainPort | null = parentPort
+  ?? (process.send
+    ? { postMessage: message => { process.send!(message); }, on: (event, listener) => process.on(event, listener) }
+    : null);
+
+if (!mainPort) {
+  throw new Error('orchestrator.worker.ts must be run as a Worker or a forked child process');
 }
 
+// A forked child must not outlive main
+process.on('disconnect', () => process.exit(0));
+
 type PendingRequest = {
-  resolve: (value: SpawnResult) => void;
+  kind: 'spawn' | 'model';
+  resolve: (value: any) => void;
   reject: (error: Error) => void;
 };
 
 const pendingRequests = new Map<string, PendingRequest>();
 
+// A pooled worker runs many tasks, one at a time
+let taskRunning = false;
+let heartbeat: ReturnType<typeof setInterval> | undefined;
+
 function mintRequestId(): string {
   return randomBytes(8).toString('hex');
 }
 
+/**
+ * The orchestrator's log lines go to main as progress messages; main's logger
+ * decides what gets written
+ */
+const forwardLog = (level: LogLevel) => (event: string, fields?: LogFields) => {
+  const message: WorkerToMainMessage = {
+    type: 'progress',
+    level,
+    event,
+    message: typeof fields?.message === 'string' ? fields.message : event
+  };
+  mainPort!.postMessage(message);
+};
+
+const mainLogger: Logger = {
+  debug: forwardLog('debug'),
+  info: forwardLog('info'),
+  warn: forwardLog('warn'),
+  error: forwardLog('error')
+};
+
 const createWorkerSpawnAdapter = (): SpawnAdapter => {
   return async (args): Promise<SpawnResult> => {
     const id = mintRequestId();
@@ -37,24 +84,93 @@ const createWorkerSpawnAdapter = (): SpawnAdapter => {
       input: args.input
     };
 
-    console.log(`[WORKER LOG 1] requestSpawn id=${id} name=${args.agentName} depth=${typeof args.input === 'object' && args.input !== null && 'depth' in args.input ? (args.input as any).depth : 'unknown'}`);
-    parentPort!.postMessage(message);
+    mainPort!.postMessage(message);
     
     return new Promise<SpawnResult>((resolve, reject) => {
-      pendingRequests.set(id, { resolve, reject });
+      pendingRequests.set(id, { kind: 'spawn', resolve, reject });
+
+      // Orchestrator timed out or was cancelled: tell main to abort the tool call
+      args.signal?.addEventListener('abort', () => {
+        if (!pendingRequests.delete(id)) return;
+        const cancelMsg: WorkerToMainMessage = { type: 'cancelSpawn', id };
+        mainPort!.postMessage(cancelMsg);
+        reject(new Error('spawn_aborted'));
+      }, { once: true });
+    });
+  };
+};
+
+/**
+ * Planning (and other single-step model calls) go to main's adapter.runModel
+ */
+const createWorkerModelAdapter = (): ModelAdapter => {
+  return async (args): Promise<unknown> => {
+    const id = mintRequestId();
+
+    const message: WorkerToMainMessage = {
+      type: 'requestModel',
+      id,
+      prompt: args.prompt,
+      input: args.input
+    };
+    mainPort!.postMessage(message);
+
+    return new Promise<unknown>((resolve, reject) => {
+      pendingRequests.set(id, { kind: 'model', resolve, reject });
+
+      // Main cannot abort runModel; a late modelResponse is dropped
+      args.signal?.addEventListener('abort', () => {
+        if (pendingRequests.delete(id)) reject(new Error('spawn_aborted'));
+      }, { once: true });
     });
   };
 };
 
+/**
+ * Settle the pending request a reply answers; the reply type must match the request
+ */
+const settleRequest = (id: string, kind: PendingRequest['kind'], error: string | undefined, value: unknown) => {
+  const handler = pendingRequests.get(id);
+  if (!handler) return;  // Already aborted
+  pendingRequests.delete(id);
+
+  if (handler.kind !== kind) {
+    handler.reject(new Error(`protocol_mismatch: ${kind} reply for a ${handler.kind} request`));
+  } else if (error) {
+    handler.reject(new Error(error));
+  } else {
+    handler.resolve(value);
+  }
+};
+
 // CONFUCIUS:BEGIN workerMessageHandler
 const handleWorkerMessage = async (msg: MainToWorkerMessage) => {
+  let startedTask = false;
   try {
     if (msg.type === 'runTask') {
+      if (msg.protocolVersion !== PROTOCOL_VERSION) {
+        postProtocolError(`protocol version mismatch: main speaks ${msg.protocolVersion}, worker speaks ${PROTOCOL_VERSION}`);
+        return;
+      }
+      if (taskRunning) {
+        postProtocolError('runTask while another task is running');
+        return;
+      }
+      taskRunning = true;
+      startedTask = true;
+
+      if (msg.heartbeatIntervalMs) {
+        heartbeat = setInterval(() => {
+          const beat: WorkerToMainMessage = { type: 'heartbeat', pending: Array.from(pendingRequests.keys()) };
+          mainPort!.postMessage(beat);
+        }, msg.heartbeatIntervalMs);
+      }
+
       const progressMsg: WorkerToMainMessage = {
         type: 'progress',
         message: 'Worker: Starting orchestration...'
       };
-      parentPort!.postMessage(progressMsg);
+      mainPort!.postMessage(progressMsg);
 
       const adapter = createWorkerSpawnAdapter();
 
@@ -64,39 +180,46 @@ const handleWorkerMessage = async (msg: MainToWorkerMessage) => {
           reason: 'worker_spawnAdapter_missing',
           error: 'createWorkerSpawnAdapter did not return a function'
         };
-        parentPort!.postMessage(failMsg);
+        mainPort!.postMessage(failMsg);
         return;
       }
 
       const orch = new RecursionProofOrchestratorHardened({
         maxDepth: msg.maxDepth ?? 4,
         maxSpawns: msg.maxSpawns ?? 10,
+        maxTokens: msg.maxTokens,
+        maxCost: msg.maxCost,
+        maxConcurrency: msg.maxConcurrency ?? 4,
+        spawnTimeoutMs: msg.spawnTimeoutMs,
+        depthTimeoutsMs: msg.depthTimeoutsMs,
+        retry: msg.retry,
+        depthRetry: msg.depthRetry,
+        signingMode: msg.signingMode,
         strictMode: msg.strictMode,
         forceSleep: msg.forceSleep,
         simulateWhenNoAdapter: false,
         spawnAdapter: adapter,
-        verbose: true
+        modelAdapter: createWorkerModelAdapter(),
+        onTraceEvent: event => {
+          const traceMsg: WorkerToMainMessage = { type: 'traceEvent', event };
+          mainPort!.postMessage(traceMsg);
+        },
+        verbose: msg.verbose,
+        logger: mainLogger
       });
 
-      const result = await orch.runDepth3Proof();
+      const result = await orch.runDepth3Proof({ plan: msg.plan ?? false, task: msg.task });
 
       const doneMsg: WorkerToMainMessage = {
         type: 'done',
         result
       };
-      parentPort!.postMessage(doneMsg);
+      mainPort!.postMessage(doneMsg);
 
     } else if (msg.type === 'modelResult') {
-      console.log(`[WORKER LOG 2] modelResult id=${msg.id} has_runId=${!!msg.result?.runId} has_output=${typeof msg.result?.output !== 'undefined'} output_type=${typeof msg.result?.output}`);
-      const handler = pendingRequests.get(msg.id);
-      if (handler) {
-        pendingRequests.delete(msg.id);
-        if (msg.error) {
-          handler.reject(new Error(msg.error));
-        } else {
-          handler.resolve(msg.result);
-        }
-      }
+      settleRequest(msg.id, 'spawn', msg.error ?? (msg.result ? undefined : 'modelResult without result or error'), msg.result);
+    } else if (msg.type === 'modelResponse') {
+      settleRequest(msg.id, 'model', msg.error, msg.output);
     }
   } catch (error) {
     const failMsg: WorkerToMainMessage = {
@@ -104,17 +227,44 @@ const handleWorkerMessage = async (msg: MainToWorkerMessage) => {
       reason: 'worker_error',
       error: error instanceof Error ? error.message : String(error)
     };
-    parentPort!.postMessage(failMsg);
+    mainPort!.postMessage(failMsg);
+  } finally {
+    if (startedTask) endTask();
   }
 };
 
-parentPort.on('message', (msg: MainToWorkerMessage) => {
-  void handleWorkerMessage(msg);
+/**
+ * Drop what the finished task left behind, so the next task starts clean;
+ * registry and trace belong to the task's own orchestrator
+ */
+const endTask = () => {
+  taskRunning = false;
+  clearInterval(heartbeat);
+  heartbeat = undefined;
+  for (const handler of pendingRequests.values()) handler.reject(new Error('task_finished'));
+  pendingRequests.clear();
+};
+
+/**
+ * Main sent something this build cannot trust; stop with a typed failure
+ */
+const postProtocolError = (error: string) => {
+  const failMsg: WorkerToMainMessage = { type: 'fail', reason: 'protocol_error', error };
+  mainPort!.postMessage(failMsg);
+};
+
+mainPort.on('message', (raw: unknown) => {
+  const parsed = parseMainToWorkerMessage(raw);
+  if (!parsed.ok) {
+    postProtocolError(parsed.error);
+    return;
+  }
+  void handleWorkerMessage(parsed.message);
 });
 // CONFUCIUS:END workerMessageHandler
 
 const readyMsg: WorkerToMainMessage = {
-  type: 'progress',
-  message: 'Worker: Ready'
+  type: 'ready',
+  protocolVersion: PROTOCOL_VERSION
 };
-parentPort!.postMessage(readyMsg);
+mainPort!.postMessage(readyMsg);
@@ -3,56 +3,121 @@
  * 
  * Worker owns: orchestration, recursion, gates, trace, hashing
  * Main owns: tool execution (runSubagent, runModel)
+ *
+ * Every request the worker sends (requestSpawn, requestModel) is answered
+ * by main with the same id (modelResult, modelResponse).
+ *
+ * Versioning: the worker announces PROTOCOL_VERSION in `ready` and main
+ * sends its own in `runTask`; each side refuses a mismatch. Both sides
+ * validate every message they receive against the zod schemas below, so a
+ * mismatched build fails with `protocol_error` instead of misbehaving.
+ *
+ * Liveness: while a task runs the worker sends `heartbeat` every
+ * heartbeatIntervalMs (set by main in runTask); main gives up on a worker
+ * it has not heard from within its liveness timeout.
  */
 
+import { z } from 'zod';
+import { validateOutputSchema } from '../orchestrator/output-schema.js';
+import type { RetryPolicy } from '../orchestrator/hardened-orchestrator.js';
+import type { TraceEvent } from '../orchestrator/signed-trace.js';
+import type { SpawnUsage } from '../orchestrator/usage.js';
+import type { LogLevel } from '../logging.js';
+
 // ============================================
 // Main → Worker Messages
 // ============================================
 
+/**
+ * Bump on any incompatible change to a message shape
+ */
+export const PROTOCOL_VERSION = 2;
+
 export interface RunTaskMessage {
   type: 'runTask';
+  protocolVersion: number;
   task: string;
   strictMode: boolean;
   forceSleep?: boolean;
   maxDepth?: number;
   maxSpawns?: number;
+  maxTokens?: number;
+  maxCost?: number;
+  maxConcurrency?: number;
   verbose?: boolean;
+  spawnTimeoutMs?: number;
+  depthTimeoutsMs?: Record<number, number>;
+  retry?: RetryPolicy;
+  depthRetry?: Record<number, RetryPolicy>;
+  signingMode?: 'hmac' | 'ed25519';
+  plan?: boolean;  // Planning phase via requestModel before the proof
+  heartbeatIntervalMs?: number;  // Send heartbeats this often during the task (omitted: none)
 }
 
+/**
+ * Reply to requestSpawn: the subagent's result, or the error runSubagent threw
+ */
 export interface ModelResultMessage {
   type: 'modelResult';
   id: string;
-  result: {
+  result?: {
     runId: string;
     output: unknown;
+    usage?: SpawnUsage;
   };
   error?: string;
 }
 
-export type MainToWorkerMessage = RunTaskMessage | ModelResultMessage;
+/**
+ * Reply to requestModel: the parsed runModel output, or the error it threw
+ */
+export interface ModelResponseMessage {
+  type: 'modelResponse';
+  id: string;
+  output?: unknown;
+  error?: string;
+}
+
+export type MainToWorkerMessage = RunTaskMessage | ModelResultMessage | ModelResponseMessage;
 
 // ============================================
 // Worker → Main Messages
 // ============================================
 
+/**
+ * First message from the worker: it is loaded and speaks this version
+ */
+export interface ReadyMessage {
+  type: 'ready';
+  protocolVersion: number;
+}
+
 export interface RequestSpawnMessage {
   type: 'requestSpawn';
   id: string;
   agentName: string;
   prompt: string;
-  input: any;
+  input: unknown;
+}
+
+/**
+ * Worker gave up on a requestSpawn (timeout/cancel); main aborts the adapter call
+ */
+export interface CancelSpawnMessage {
+  type: 'cancelSpawn';
+  id: string;
 }
 
 export interface RequestModelMessage {
   type: 'requestModel';
   id: string;
   prompt: string;
-  input: any;
+  input: unknown;
 }
 
 export interface DoneMessage {
   type: 'done';
-  result: any;
+  result: unknown;  // The orchestrator's ProofResult
 }
 
 export interface FailMessage {
@@ -63,19 +128,134 @@ export interface FailMessage {
 
 export interface TraceEventMessage {
   type: 'traceEvent';
-  event: any;
+  event: TraceEvent;
 }
 
+/**
+ * Worker is alive; `pending` lists the request ids it is still waiting on
+ */
+export interface HeartbeatMessage {
+  type: 'heartbeat';
+  pending: string[];
+}
+
+/**
+ * A progress line, or a line the worker's orchestrator logged; main hands
+ * it to its own logger under `event` (default: worker.progress)
+ */
 export interface ProgressMessage {
   type: 'progress';
   message: string;
   depth?: number;
+  level?: LogLevel;  // Default: info
+  event?: string;
 }
 
 export type WorkerToMainMessage =
+  | ReadyMessage
   | RequestSpawnMessage
+  | CancelSpawnMessage
   | RequestModelMessage
   | DoneMessage
   | FailMessage
   | TraceEventMessage
+  | HeartbeatMessage
   | ProgressMessage;
+
+// ============================================
+// Runtime validation
+// ============================================
+
+const retryPolicySchema = z.object({
+  maxAttempts: z.number().optional(),
+  backoffMs: z.number().optional()
+});
+
+const usageSchema = z.object({
+  promptTokens: z.number().optional(),
+  completionTokens: z.number().optional(),
+  totalTokens: z.number().optional(),
+  cost: z.number().optional()
+});
+
+const mainToWorkerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('runTask'),
+    protocolVersion: z.number().int(),
+    task: z.string(),
+    strictMode: z.boolean(),
+    forceSleep: z.boolean().optional(),
+    maxDepth: z.number().optional(),
+    maxSpawns: z.number().optional(),
+    maxTokens: z.number().optional(),
+    maxCost: z.number().optional(),
+    maxConcurrency: z.number().optional(),
+    verbose: z.boolean().optional(),
+    spawnTimeoutMs: z.number().optional(),
+    depthTimeoutsMs: z.record(z.string(), z.number()).optional(),
+    retry: retryPolicySchema.optional(),
+    depthRetry: z.record(z.string(), retryPolicySchema).optional(),
+    signingMode: z.enum(['hmac', 'ed25519']).optional(),
+    plan: z.boolean().optional(),
+    heartbeatIntervalMs: z.number().positive().optional()
+  }),
+  z.object({
+    type: z.literal('modelResult'),
+    id: z.string().min(1),
+    result: z.object({
+      runId: z.string().min(1),
+      output: z.unknown().refine(output => output !== undefined, 'output is required'),
+      usage: usageSchema.optional()
+    }).optional(),
+    error: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('modelResponse'),
+    id: z.string().min(1),
+    output: z.unknown().optional(),
+    error: z.string().optional()
+  })
+]);
+
+const workerToMainSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('ready'), protocolVersion: z.number().int() }),
+  z.object({ type: z.literal('requestSpawn'), id: z.string().min(1), agentName: z.string().min(1), prompt: z.string(), input: z.unknown() }),
+  z.object({ type: z.literal('cancelSpawn'), id: z.string().min(1) }),
+  z.object({ type: z.literal('requestModel'), id: z.string().min(1), prompt: z.string(), input: z.unknown() }),
+  z.object({ type: z.literal('done'), result: z.unknown() }),
+  z.object({ type: z.literal('fail'), reason: z.string().min(1), error: z.string().optional() }),
+  z.object({ type: z.literal('traceEvent'), event: z.object({ eventId: z.number(), kind: z.string() }).passthrough() }),
+  z.object({ type: z.literal('heartbeat'), pending: z.array(z.string()) }),
+  z.object({
+    type: z.literal('progress'),
+    message: z.string(),
+    depth: z.number().optional(),
+    level: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+    event: z.string().optional()
+  })
+]);
+
+export type ParsedMessage<T> = { ok: true; message: T } | { ok: false; error: string };
+
+/**
+ * Validate a message received by the worker
+ */
+export function parseMainToWorkerMessage(raw: unknown): ParsedMessage<MainToWorkerMessage> {
+  return parseMessage(raw, mainToWorkerSchema);
+}
+
+/**
+ * Validate a message received by main
+ */
+export function parseWorkerToMainMessage(raw: unknown): ParsedMessage<WorkerToMainMessage> {
+  return parseMessage(raw, workerToMainSchema);
+}
+
+function parseMessage<T>(raw: unknown, schema: z.ZodTypeAny): ParsedMessage<T> {
+  const errors = validateOutputSchema(raw, schema);
+  if (errors.length > 0) {
+    const type = typeof (raw as { type?: unknown })?.type === 'string' ? (raw as { type: string }).type : typeof raw;
+    return { ok: false, error: `invalid ${type} message: ${errors.join('; ')}` };
+  }
+  return { ok: true, message: raw as T };
+}
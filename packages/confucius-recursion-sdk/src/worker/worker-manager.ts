@@ -2,48 +2,109 @@ import { Worker } from 'node:worker_threads'
 import { fileURLToPath } from 'node:url'
 import { dirname, resolve } from 'node:path'
 import { existsSync } from 'node:fs'
-import type { MainToWorkerMessage, WorkerToMainMessage } from './protocol.js'
-import type { ConfuciusAdapter } from '../adapter.js'
+import { PROTOCOL_VERSION, parseWorkerToMainMessage, type MainToWorkerMessage, type WorkerToMainMessage } from './protocol.js'
+import { parseModelOutput, type ConfuciusAdapter } from '../adapter.js'
+import type { TraceEvent } from '../orchestrator/signed-trace.js'
+import { guardListener } from '../orchestrator/events.js'
+import type { RetryPolicy } from '../orchestrator/hardened-orchestrator.js'
+import { addUsage, type SpawnUsage } from '../orchestrator/usage.js'
+import { ChildProcessWorker, type ChildOutput } from './child-process-worker.js'
+import { silentLogger, type Logger } from '../logging.js'
 
 export type WorkerOrchestratorConfig = {
   adapter: ConfuciusAdapter
   strictMode: boolean
   maxDepth?: number
   maxSpawns?: number
+  maxTokens?: number
+  maxCost?: number
+  maxConcurrency?: number
   forceSleep?: boolean
   verbose?: boolean
+  signal?: AbortSignal
+  spawnTimeoutMs?: number
+  depthTimeoutsMs?: Record<number, number>
+  retry?: RetryPolicy
+  depthRetry?: Record<number, RetryPolicy>
+  signingMode?: 'hmac' | 'ed25519'
+  plan?: boolean                              // Planning phase (adapter.runModel) before the proof
+  onTraceEvent?: (event: TraceEvent) => void  // Signed trace events as the worker adds them
+  isolation?: 'thread' | 'process'            // worker_threads Worker (default) or forked child process
+  memoryLimitMb?: number                      // Heap limit for the worker or child
+  timeoutMs?: number                          // Kill the worker or child if the task has not finished by then
+  livenessTimeoutMs?: number                  // Kill a worker silent, or stuck on the same requests, for this long (default: 30s, 0: never)
+  createWorker?: () => WorkerHandle           // Default: per `isolation`, on the bundled worker file
+  logger?: Logger                             // Worker and orchestrator log lines (default: silent)
+}
+
+/**
+ * What runWithWorker needs from the isolated orchestrator
+ */
+export interface WorkerHandle {
+  postMessage(message: MainToWorkerMessage): void
+  on(event: 'message', listener: (message: unknown) => void): unknown
+  on(event: 'error', listener: (err: Error) => void): unknown
+  on(event: 'exit', listener: (code: number) => void): unknown
+  off(event: 'message', listener: (message: unknown) => void): unknown
+  off(event: 'error', listener: (err: Error) => void): unknown
+  off(event: 'exit', listener: (code: number) => void): unknown
+  terminate(): Promise<unknown>
+}
+
+/**
+ * Failure reasons runWithWorker itself produces; a worker `fail` message
+ * passes its own reason through (e.g. 'worker_error')
+ */
+export type WorkerFailureReason =
+  | 'cancelled'
+  | 'worker_error'
+  | 'tool_missing'
+  | 'protocol_error'         // Invalid message, unknown type, message before ready, or version mismatch
+  | 'message_handler_error'
+  | 'timeout'                // timeoutMs elapsed; the worker or child was killed
+  | 'memory_limit'           // memoryLimitMb exceeded
+  | 'worker_unresponsive'    // No heartbeat (or other message) within livenessTimeoutMs
+
+/**
+ * A worker request main has not seen the end of (worker_unresponsive diagnostics)
+ */
+export type OutstandingRequest = {
+  id: string
+  kind: 'spawn' | 'model'
+  agentName?: string
+  ageMs: number
+  answered: boolean  // Main replied, but the worker's last heartbeat still listed it as pending
 }
 
 export type WorkerOrchestratorResult = {
   ok: boolean
   result?: unknown
-  reason?: string
+  reason?: WorkerFailureReason | (string & {})
   error?: string
+  childOutput?: ChildOutput                  // Captured stdout/stderr (process isolation only)
+  lastTraceEvent?: TraceEvent                // worker_unresponsive: the last event the worker sent
+  outstandingRequests?: OutstandingRequest[] // worker_unresponsive: requests still open
 }
 
+const DEFAULT_LIVENESS_TIMEOUT_MS = 30_000
+
 /**
  * Robustly locate worker file - searches multiple locations
  * 
  * This prevents future bundler changes from silently breaking worker mode.
  * 
- * @param verbose Whether to log search attempts
+ * @param logger Receives the location that was found
  * @returns Worker file path
  * @throws Error if worker file not found in any location
  */
-function getWorkerPath(verbose: boolean): string {
+function getWorkerPath(logger: Logger): string {
   const here = dirname(fileURLToPath(import.meta.url))
   
   // Try primary location: dist/worker/
   const primaryPath = resolve(here, 'worker', 'orchestrator.worker.js')
   
   if (existsSync(primaryPath)) {
-    if (verbose) {
-      console.log(JSON.stringify({ 
-        where: 'worker-manager.getWorkerPath', 
-        found: 'primary',
-        path: primaryPath 
-      }))
-    }
+    logger.debug('worker-manager.getWorkerPath', { found: 'primary', path: primaryPath })
     return primaryPath
   }
   
@@ -51,13 +112,7 @@ function getWorkerPath(verbose: boolean): string {
   const fallbackPath = resolve(here, 'orchestrator.worker.js')
   
   if (existsSync(fallbackPath)) {
-    if (verbose) {
-      console.log(JSON.stringify({ 
-        where: 'worker-manager.getWorkerPath', 
-        found: 'fallback',
-        path: fallbackPath 
-      }))
-    }
+    logger.debug('worker-manager.getWorkerPath', { found: 'fallback', path: fallbackPath })
     return fallbackPath
   }
   
@@ -71,66 +126,237 @@ function getWorkerPath(verbose: boolean): string {
   )
 }
 
-export function runWithWorker(
+export async function runWithWorker(
   task: string,
   config: WorkerOrchestratorConfig
 ): Promise<WorkerOrchestratorResult> {
-  const { adapter, strictMode, maxDepth = 4, maxSpawns = 10, forceSleep = false, verbose = false } = config
+  if (config.signal?.aborted) {
+    return { ok: false, reason: 'cancelled', error: 'aborted before worker start' }
+  }
 
-  return new Promise((resolvePromise) => {
-    const workerPath = getWorkerPath(verbose)
-    const worker = new Worker(workerPath, { argv: [], env: process.env })
+  const worker = config.createWorker ? config.createWorker() : createDefaultWorker(config)
+  const { result } = await runTaskOnWorker(worker, task, config, false)
 
-    const cleanup = () => {
-      worker.removeAllListeners()
+  if (worker instanceof ChildProcessWorker) {
+    // Wait for the child to exit so its output is complete
+    await worker.terminate().catch(() => {})
+    return { ...result, childOutput: worker.takeOutput() }
+  }
+  worker.terminate().catch(() => {})
+  return result
+}
+
+/**
+ * A worker_threads Worker or a forked child process on the bundled worker file
+ */
+export function createDefaultWorker(config: Pick<WorkerOrchestratorConfig, 'isolation' | 'memoryLimitMb' | 'logger'>): WorkerHandle {
+  const { isolation = 'thread', memoryLimitMb, logger = silentLogger } = config
+  const workerPath = getWorkerPath(logger)
+
+  if (isolation === 'process') {
+    return new ChildProcessWorker({ workerPath, memoryLimitMb })
+  }
+  return new Worker(workerPath, {
+    argv: [],
+    env: process.env,
+    ...(memoryLimitMb ? { resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb } } : {})
+  })
+}
+
+/**
+ * Check a worker's ready message; returns the protocol error, if any
+ */
+export function checkReady(msg: WorkerToMainMessage): string | undefined {
+  if (msg.type !== 'ready') return `${msg.type} message before ready`
+  if (msg.protocolVersion !== PROTOCOL_VERSION) {
+    return `protocol version mismatch: worker speaks ${msg.protocolVersion}, main speaks ${PROTOCOL_VERSION}`
+  }
+  return undefined
+}
+
+/**
+ * Run one task on a worker, serving its tool requests until it reports done or fail
+ *
+ * `ready` says whether the worker already passed the handshake (a warm pool
+ * worker); otherwise runTask is sent once its ready message checks out.
+ * Only this task's listeners are removed afterwards and the worker is left
+ * running; `reusable` tells the caller whether it can take another task
+ * (it finished cleanly) or must be terminated.
+ */
+export function runTaskOnWorker(
+  worker: WorkerHandle,
+  task: string,
+  config: WorkerOrchestratorConfig,
+  ready: boolean
+): Promise<{ result: WorkerOrchestratorResult; reusable: boolean }> {
+  const { adapter, strictMode, maxDepth = 4, maxSpawns = 10, maxTokens, maxCost, maxConcurrency = 4, forceSleep = false, verbose = false, signal, spawnTimeoutMs, depthTimeoutsMs, retry, depthRetry, signingMode, plan = false, onTraceEvent, timeoutMs, livenessTimeoutMs = DEFAULT_LIVENESS_TIMEOUT_MS, logger = silentLogger } = config
+
+  const traceListener = guardListener(onTraceEvent, 'onTraceEvent', logger)
+
+  return new Promise((resolvePromise) => {
+    if (signal?.aborted) {
+      resolvePromise({ result: { ok: false, reason: 'cancelled', error: 'aborted before task start' }, reusable: true })
+      return
     }
 
-    worker.on('error', (err) => {
+    // One controller per in-flight requestSpawn, so the worker can cancel it
+    const inFlight = new Map<string, AbortController>()
+    let settled = false
+
+    const finish = (result: WorkerOrchestratorResult, reusable: boolean) => {
+      if (settled) return
+      settled = true
       cleanup()
-      resolvePromise({ ok: false, reason: 'worker_error', error: err.message })
-    })
+      resolvePromise({ result, reusable })
+    }
+
+    // The caller kills the worker, since it is not reusable
+    const timer = timeoutMs !== undefined
+      ? setTimeout(() => finish({ ok: false, reason: 'timeout', error: `task did not finish within ${timeoutMs}ms` }, false), timeoutMs)
+      : undefined
+
+    // Requests the worker may still be waiting on, and its last trace event, for worker_unresponsive
+    const requests = new Map<string, Omit<OutstandingRequest, 'ageMs'> & { since: number }>()
+    let lastTraceEvent: TraceEvent | undefined
+
+    const unresponsive = (error = `no heartbeat from the worker for ${livenessTimeoutMs}ms`) => {
+      const now = Date.now()
+      finish({
+        ok: false,
+        reason: 'worker_unresponsive',
+        error,
+        ...(lastTraceEvent ? { lastTraceEvent } : {}),
+        outstandingRequests: Array.from(requests.values(), ({ since, ...request }) => ({ ...request, ageMs: now - since }))
+      }, false)
+    }
+
+    // Any message is a sign of life; heartbeats cover a worker busy without tool calls
+    let liveness: ReturnType<typeof setTimeout> | undefined
+    const touch = () => {
+      if (!livenessTimeoutMs || settled) return
+      clearTimeout(liveness)
+      liveness = setTimeout(() => unresponsive(), livenessTimeoutMs)
+    }
 
-    worker.on('exit', (code) => {
-      if (code !== 0 && verbose) {
-        // eslint-disable-next-line no-console
-        console.log(JSON.stringify({ where: 'worker-manager.exit', code }))
+    // Alive is not progressing: heartbeats listing the same requests main has
+    // already answered mean the worker lost the reply. Requests main is still
+    // serving (a long runSubagent call) are left to spawnTimeoutMs
+    let waitingOn = ''
+    let waitingSince = 0
+    const checkProgress = (pending: string[]) => {
+      const lost = pending.filter(id => requests.get(id)?.answered)
+      const key = lost.sort().join(',')
+      if (!key || key !== waitingOn) {
+        waitingOn = key
+        waitingSince = Date.now()
+        return
+      }
+      const waitedMs = Date.now() - waitingSince
+      if (livenessTimeoutMs && waitedMs >= livenessTimeoutMs) {
+        unresponsive(`worker made no progress for ${waitedMs}ms, waiting on ${lost.length} answered request(s)`)
       }
-    })
+    }
+
+    const onAbort = () => finish({ ok: false, reason: 'cancelled', error: 'aborted by caller' }, false)
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const onError = (err: Error & { code?: string }) => {
+      const reason = err.code === 'ERR_WORKER_OUT_OF_MEMORY' ? 'memory_limit' : 'worker_error'
+      finish({ ok: false, reason, error: err.message }, false)
+    }
+
+    const onExit = (code: number) => {
+      if (code !== 0) logger.warn('worker-manager.exit', { code })
+      finish({ ok: false, reason: 'worker_error', error: `worker exited with code ${code}` }, false)
+    }
+
+    const cleanup = () => {
+      clearTimeout(timer)
+      clearTimeout(liveness)
+      worker.off('message', onMessage)
+      worker.off('error', onError)
+      worker.off('exit', onExit)
+      signal?.removeEventListener('abort', onAbort)
+      for (const controller of inFlight.values()) controller.abort()
+      inFlight.clear()
+    }
+
+    const protocolError = (error: string) => finish({ ok: false, reason: 'protocol_error', error }, false)
+
+    const markAnswered = (id: string) => {
+      const request = requests.get(id)
+      if (request) request.answered = true
+    }
 
     // CONFUCIUS:BEGIN workerOnMessageHandler
     const handleWorkerMessage = async (msg: WorkerToMainMessage) => {
       try {
-        if (msg.type === 'requestSpawn') {
-          if (verbose) {
-            // eslint-disable-next-line no-console
-            console.log(JSON.stringify({
-              where: 'worker-manager.requestSpawn',
-              hasRunSubagent: !!adapter.runSubagent,
-              adapterType: adapter.constructor.name,
-              capabilities: adapter.getRuntimeInfo().capabilities
-            }))
+        // Nothing but ready is valid until the handshake is done
+        if (!ready) {
+          const error = checkReady(msg)
+          if (error) {
+            protocolError(error)
+          } else {
+            ready = true
+            worker.postMessage(start)
           }
+          return
+        }
+
+        if (msg.type === 'ready') {
+          protocolError('duplicate ready message')
+          return
+        }
+
+        if (msg.type === 'requestSpawn') {
+          logger.debug('worker-manager.requestSpawn', {
+            agentName: msg.agentName,
+            hasRunSubagent: !!adapter.runSubagent,
+            adapterType: adapter.constructor.name,
+            capabilities: adapter.getRuntimeInfo().capabilities
+          })
 
-          // Gate: If no runSubagent, fail the worker immediately
+          // Gate: If no runSubagent, stop the worker immediately
           if (typeof adapter.runSubagent !== 'function') {
-            const failMsg: WorkerToMainMessage = {
-              type: 'fail',
-              reason: 'tool_missing',
-              error: 'runSubagent unavailable in worker mode'
-            }
-            worker.postMessage(failMsg)
-            cleanup()
-            resolvePromise({ ok: false, reason: 'tool_missing', error: 'runSubagent unavailable' })
-            worker.terminate().catch(() => {})
+            finish({ ok: false, reason: 'tool_missing', error: 'runSubagent unavailable' }, false)
             return
           }
 
-          const result = await adapter.runSubagent({
-            description: msg.agentName,
-            prompt: msg.prompt
-          })
+          const controller = new AbortController()
+          inFlight.set(msg.id, controller)
+          requests.set(msg.id, { id: msg.id, kind: 'spawn', agentName: msg.agentName, since: Date.now(), answered: false })
+          let result: string | undefined
+          let failure: string | undefined
+          const reported: SpawnUsage[] = []
+          try {
+            result = await adapter.runSubagent({
+              description: msg.agentName,
+              prompt: msg.prompt,
+              signal: controller.signal,
+              onUsage: (usage) => reported.push(usage)
+            })
+          } catch (err) {
+            failure = err instanceof Error ? err.message : String(err)
+          } finally {
+            inFlight.delete(msg.id)
+          }
+
+          // Worker already gave up on this request (spawn timeout, cancel); nothing is waiting for the reply
+          if (controller.signal.aborted) {
+            requests.delete(msg.id)
+            return
+          }
+          if (settled) return  // The task ended while runSubagent was running
+
+          // The orchestrator decides what a failed spawn means (retry, fail the proof)
+          if (result === undefined) {
+            const reply: MainToWorkerMessage = { type: 'modelResult', id: msg.id, error: failure ?? 'runSubagent failed' }
+            worker.postMessage(reply)
+            markAnswered(msg.id)
+            return
+          }
           
-          let output: any
+          let output: unknown
           try {
             output = JSON.parse(result)
           } catch (err) {
@@ -141,59 +367,114 @@ export function runWithWorker(
           const reply: MainToWorkerMessage = {
             type: 'modelResult',
             id: msg.id,
-            result: { runId, output }
+            result: { runId, output, ...(reported.length ? { usage: addUsage(...reported) } : {}) }
           }
           worker.postMessage(reply)
+          markAnswered(msg.id)
+          return
+        }
+
+        if (msg.type === 'requestModel') {
+          requests.set(msg.id, { id: msg.id, kind: 'model', since: Date.now(), answered: false })
+          let reply: MainToWorkerMessage
+          try {
+            const output = parseModelOutput(await adapter.runModel(msg.prompt, msg.input))
+            reply = { type: 'modelResponse', id: msg.id, output }
+          } catch (err) {
+            reply = { type: 'modelResponse', id: msg.id, error: err instanceof Error ? err.message : String(err) }
+          }
+          if (settled) return  // The task ended while runModel was running
+          worker.postMessage(reply)
+          markAnswered(msg.id)
+          return
+        }
+
+        if (msg.type === 'cancelSpawn') {
+          inFlight.get(msg.id)?.abort()
+          requests.delete(msg.id)
+          return
+        }
+
+        if (msg.type === 'traceEvent') {
+          lastTraceEvent = msg.event
+          traceListener?.(msg.event)
+          return
+        }
+
+        if (msg.type === 'heartbeat') {
+          // Answered requests the worker no longer waits on are done
+          const pending = new Set(msg.pending)
+          for (const [id, request] of requests) {
+            if (request.answered && !pending.has(id)) requests.delete(id)
+          }
+          checkProgress(msg.pending)
           return
         }
 
         if (msg.type === 'done') {
-          cleanup()
-          resolvePromise({ ok: true, result: msg.result })
-          worker.terminate().catch(() => {})
+          finish({ ok: true, result: msg.result }, true)
           return
         }
 
         if (msg.type === 'fail') {
-          cleanup()
-          resolvePromise({ ok: false, reason: msg.reason, error: msg.error })
-          worker.terminate().catch(() => {})
+          // A worker that refused our messages is not trusted with another task
+          finish({ ok: false, reason: msg.reason, error: msg.error }, msg.reason !== 'protocol_error')
           return
         }
 
-        // progress and any other messages
-        if (verbose && msg.type === 'progress') {
-          // eslint-disable-next-line no-console
-          console.log(JSON.stringify({ where: 'worker-manager.progress', message: msg.message }))
+        if (msg.type === 'progress') {
+          logger[msg.level ?? 'info'](msg.event ?? 'worker.progress', { message: msg.message })
+          return
         }
+
       } catch (err) {
-        cleanup()
         const errMsg = err instanceof Error ? err.message : String(err)
-        resolvePromise({ ok: false, reason: 'message_handler_error', error: errMsg })
-        worker.terminate().catch(() => {})
+        finish({ ok: false, reason: 'message_handler_error', error: errMsg }, false)
       }
-    
     }
 
-    worker.on('message', (msg: WorkerToMainMessage) => {
-      void handleWorkerMessage(msg).catch((err) => {
-        cleanup()
+    const onMessage = (raw: unknown) => {
+      // Unknown types and malformed messages fail instead of leaving the run hanging
+      const parsed = parseWorkerToMainMessage(raw)
+      if (!parsed.ok) {
+        protocolError(parsed.error)
+        return
+      }
+      touch()
+      if (parsed.message.type !== 'heartbeat') waitingOn = ''
+      void handleWorkerMessage(parsed.message).catch((err) => {
         const errMsg = err instanceof Error ? err.message : String(err)
-        resolvePromise({ ok: false, reason: 'message_handler_error', error: errMsg })
-        worker.terminate().catch(() => {})
+        finish({ ok: false, reason: 'message_handler_error', error: errMsg }, false)
       })
-    })
+    }
     // CONFUCIUS:END workerOnMessageHandler
+
+    worker.on('message', onMessage)
+    worker.on('error', onError)
+    worker.on('exit', onExit)
+    touch()
+
+    // Sent once the worker's ready message passes the handshake
     const start: MainToWorkerMessage = {
       type: 'runTask',
+      protocolVersion: PROTOCOL_VERSION,
       task,
       strictMode,
       maxDepth,
       maxSpawns,
+      maxTokens,
+      maxCost,
+      maxConcurrency,
       forceSleep,
-      verbose
+      verbose,
+      spawnTimeoutMs,
+      depthTimeoutsMs,
+      retry,
+      depthRetry,
+      signingMode,
+      plan,
+      heartbeatIntervalMs: livenessTimeoutMs ? Math.max(1, Math.floor(livenessTimeoutMs / 3)) : undefined
     }
-
-    worker.postMessage(start)
+    if (ready) worker.postMessage(start)
   })
 }
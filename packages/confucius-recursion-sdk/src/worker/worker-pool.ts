@@ -0,0 +1,295 @@
+/**
+ * Worker Pool
+ *
+ * Runs many orchestrations on a fixed number of warm workers. Workers are
+ * started (and pass the protocol handshake) once, then take queued tasks one
+ * at a time. Each task gets a fresh orchestrator inside the worker, so run
+ * registry and signed trace never leak between tasks.
+ *
+ *   const pool = new WorkerPool({ adapter, strictMode: true, size: 4 });
+ *   const results = await Promise.all(tasks.map(task => pool.run(task)));
+ *   await pool.shutdown();
+ *
+ * A worker that crashes, is cancelled mid-task or breaks the protocol is
+ * terminated and replaced; clean done/fail results return it to the pool.
+ * One that fails its handshake fails the next queued task instead.
+ */
+
+import { parseWorkerToMainMessage } from './protocol.js';
+import { ChildProcessWorker } from './child-process-worker.js';
+import {
+  checkReady,
+  createDefaultWorker,
+  runTaskOnWorker,
+  type WorkerHandle,
+  type WorkerOrchestratorConfig,
+  type WorkerOrchestratorResult
+} from './worker-manager.js';
+
+export type WorkerPoolConfig = Omit<WorkerOrchestratorConfig, 'signal' | 'onTraceEvent'> & {
+  size?: number;  // Number of warm workers (default: 2)
+};
+
+/**
+ * Per-task settings; anything omitted comes from the pool config
+ *
+ * How workers are started (`isolation`, `memoryLimitMb`, `createWorker`) is
+ * fixed by the pool config: warm workers are shared by every task.
+ */
+export type WorkerPoolTaskOptions = Partial<Omit<WorkerOrchestratorConfig, 'createWorker' | 'isolation' | 'memoryLimitMb'>>;
+
+export interface WorkerPoolMetrics {
+  size: number;       // Configured number of workers
+  workers: number;    // Workers currently started or starting
+  idle: number;       // Ready workers without a task
+  queued: number;     // Tasks waiting for a worker
+  active: number;     // Tasks running on a worker
+  completed: number;  // Tasks finished with ok: true
+  failed: number;     // Tasks finished with ok: false (including cancelled and pool_closed)
+}
+
+type Slot = {
+  worker: WorkerHandle;
+  state: 'starting' | 'idle' | 'busy';
+  controller?: AbortController;  // Cancels the running task
+  onIdleFailure?: (arg: unknown) => void;
+};
+
+type QueuedTask = {
+  task: string;
+  options: WorkerPoolTaskOptions;
+  resolve: (result: WorkerOrchestratorResult) => void;
+};
+
+export class WorkerPool {
+  private readonly config: WorkerOrchestratorConfig;
+  private readonly size: number;
+  private slots: Slot[] = [];
+  private queue: QueuedTask[] = [];
+  private completed = 0;
+  private failed = 0;
+  private closing = false;
+  private drained: (() => void)[] = [];
+
+  constructor(config: WorkerPoolConfig) {
+    const { size = 2, ...rest } = config;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`invalid_pool_size: ${size}`);
+    }
+    this.config = rest;
+    this.size = size;
+
+    for (let i = 0; i < size; i++) this.startSlot();
+  }
+
+  /**
+   * Queue a task; resolves once a worker has run it (never rejects)
+   */
+  run(task: string, options: WorkerPoolTaskOptions = {}): Promise<WorkerOrchestratorResult> {
+    if (this.closing) {
+      return Promise.resolve(this.count({ ok: false, reason: 'pool_closed', error: 'pool is shutting down' }));
+    }
+    if (options.signal?.aborted) {
+      return Promise.resolve(this.count({ ok: false, reason: 'cancelled', error: 'aborted before task start' }));
+    }
+
+    return new Promise(resolve => {
+      // Cancelled while still queued: leave the queue without touching a worker
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        entry.resolve(this.count({ ok: false, reason: 'cancelled', error: 'aborted while queued' }));
+        this.checkDrained();
+      };
+      // However the task settles, a long-lived signal keeps no listener for it
+      const entry: QueuedTask = {
+        task,
+        options,
+        resolve: result => {
+          options.signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        }
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+
+      this.pump();
+    });
+  }
+
+  metrics(): WorkerPoolMetrics {
+    return {
+      size: this.size,
+      workers: this.slots.length,
+      idle: this.slots.filter(s => s.state === 'idle').length,
+      queued: this.queue.length,
+      active: this.slots.filter(s => s.state === 'busy').length,
+      completed: this.completed,
+      failed: this.failed
+    };
+  }
+
+  /**
+   * Stop accepting tasks and terminate every worker
+   *
+   * By default queued and running tasks finish first. With `drain: false`
+   * queued tasks resolve `pool_closed` and running tasks `cancelled`.
+   */
+  async shutdown({ drain = true }: { drain?: boolean } = {}): Promise<void> {
+    this.closing = true;
+
+    if (!drain) {
+      for (const entry of this.queue.splice(0)) {
+        entry.resolve(this.count({ ok: false, reason: 'pool_closed', error: 'pool shut down before the task started' }));
+      }
+      for (const slot of this.slots) slot.controller?.abort();
+    }
+
+    await new Promise<void>(resolve => {
+      this.drained.push(resolve);
+      this.checkDrained();
+    });
+
+    const slots = this.slots.splice(0);
+    await Promise.all(slots.map(slot => {
+      this.detachIdle(slot);
+      return slot.worker.terminate().catch(() => {});
+    }));
+  }
+
+  /**
+   * Start a worker and wait for its ready message
+   */
+  private startSlot(): void {
+    const worker = this.config.createWorker
+      ? this.config.createWorker()
+      : createDefaultWorker(this.config);
+    const slot: Slot = { worker, state: 'starting' };
+    this.slots.push(slot);
+
+    const onMessage = (raw: unknown) => {
+      const parsed = parseWorkerToMainMessage(raw);
+      const error = parsed.ok ? checkReady(parsed.message) : parsed.error;
+      settle(error ? { reason: 'protocol_error', error } : undefined);
+    };
+    const onError = (err: Error) => settle({ reason: 'worker_error', error: err.message });
+    const onExit = (code: number) => settle({ reason: 'worker_error', error: `worker exited with code ${code} before ready` });
+
+    const settle = (failure?: { reason: string; error: string }) => {
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+
+      if (!failure) {
+        this.becomeIdle(slot);
+        return;
+      }
+      this.removeSlot(slot);
+      // A worker that cannot start fails the next task instead of leaving it
+      // queued; replacements are only started when a task needs one
+      this.queue.shift()?.resolve(this.count({ ok: false, ...failure }));
+      this.pump();
+    };
+
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('exit', onExit);
+  }
+
+  /**
+   * Hand queued tasks to idle workers; replace missing workers while tasks wait
+   */
+  private pump(): void {
+    for (const slot of this.slots) {
+      if (this.queue.length === 0) break;
+      if (slot.state === 'idle') this.dispatch(slot, this.queue.shift()!);
+    }
+
+    // Also while draining: queued tasks still need a worker
+    let starting = this.slots.filter(s => s.state === 'starting').length;
+    while (this.queue.length > starting && this.slots.length < this.size) {
+      this.startSlot();
+      starting += 1;
+    }
+    this.checkDrained();
+  }
+
+  private dispatch(slot: Slot, entry: QueuedTask): void {
+    this.detachIdle(slot);
+    slot.state = 'busy';
+
+    // The caller's signal or a forced shutdown cancels the task
+    const { signal, onTraceEvent, ...overrides } = entry.options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    slot.controller = controller;
+    const config: WorkerOrchestratorConfig = { ...this.config, ...overrides, signal: controller.signal, onTraceEvent };
+
+    // Child output is per task: drop what the child printed before it
+    if (slot.worker instanceof ChildProcessWorker) slot.worker.takeOutput();
+
+    // Detach from the caller's signal before the result is handed back
+    const settled = runTaskOnWorker(slot.worker, entry.task, config, true).finally(() => {
+      signal?.removeEventListener('abort', onAbort);
+    });
+
+    void settled.then(async ({ result, reusable }) => {
+      slot.controller = undefined;
+
+      if (!reusable) {
+        // Killed before the result is reported, so a child's output is complete
+        await slot.worker.terminate().catch(() => {});
+        this.removeSlot(slot);
+        // The worker was healthy until this task; keep the pool warm
+        if (!this.closing) this.startSlot();
+      }
+
+      const childOutput = slot.worker instanceof ChildProcessWorker ? slot.worker.takeOutput() : undefined;
+      entry.resolve(this.count(childOutput ? { ...result, childOutput } : result));
+
+      if (reusable) this.becomeIdle(slot);
+      this.pump();
+    });
+  }
+
+  /**
+   * Park a ready worker; if it dies while idle it leaves the pool
+   */
+  private becomeIdle(slot: Slot): void {
+    slot.state = 'idle';
+    slot.onIdleFailure = () => {
+      this.removeSlot(slot);
+      slot.worker.terminate().catch(() => {});
+      this.pump();
+    };
+    slot.worker.on('error', slot.onIdleFailure);
+    slot.worker.on('exit', slot.onIdleFailure);
+    this.pump();
+  }
+
+  private detachIdle(slot: Slot): void {
+    if (!slot.onIdleFailure) return;
+    slot.worker.off('error', slot.onIdleFailure);
+    slot.worker.off('exit', slot.onIdleFailure);
+    slot.onIdleFailure = undefined;
+  }
+
+  private removeSlot(slot: Slot): void {
+    this.detachIdle(slot);
+    this.slots = this.slots.filter(s => s !== slot);
+  }
+
+  private count(result: WorkerOrchestratorResult): WorkerOrchestratorResult {
+    if (result.ok) this.completed += 1;
+    else this.failed += 1;
+    return result;
+  }
+
+  private checkDrained(): void {
+    if (!this.closing || this.queue.length > 0) return;
+    if (this.slots.some(s => s.state === 'busy')) return;
+    for (const resolve of this.drained.splice(0)) resolve();
+  }
+}
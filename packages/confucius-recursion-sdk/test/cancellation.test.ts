@@ -0,0 +1,120 @@
+/**
+ * Cancellation Test
+ *
+ * Tests per-spawn timeouts and caller AbortSignal propagation:
+ * a hung subagent must not block the supervisor forever.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecursionProofOrchestratorHardened, validateTrace } from '../src/index.js';
+
+/**
+ * Adapter whose `hang` agents never resolve; records the signals it received
+ */
+const hangingAdapter = (hang: (agentName: string) => boolean) => {
+  const signals: AbortSignal[] = [];
+  const adapter = async ({ agentName, signal }: { agentName: string; prompt: string; input: any; signal?: AbortSignal }) => {
+    if (signal) signals.push(signal);
+    if (hang(agentName)) {
+      return new Promise<never>(() => {});
+    }
+    if (agentName === 'root') {
+      return { runId: agentName, output: { spawn_requests: [{ child_name: 'slow_child', input: {} }] } };
+    }
+    return { runId: agentName, output: { metric: 1 } };
+  };
+  return { adapter, signals };
+};
+
+describe('Cancellation Test', () => {
+  it('should time out a hung spawn and record a signed timeout event', async () => {
+    const { adapter, signals } = hangingAdapter(name => name === 'root');
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnTimeoutMs: 20,
+      spawnAdapter: adapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('spawn_timeout');
+
+    const timeoutEvent = result.trace.find((ev: any) => ev.kind === 'timeout');
+    expect(timeoutEvent).toBeTruthy();
+    expect(timeoutEvent.note).toBe('timeout_ms:20');
+
+    const validation = validateTrace({
+      supervisorSecret: orchestrator.secret,
+      traceEvents: result.trace,
+      registry: orchestrator.registry
+    });
+    expect(validation.ok).toBe(true);
+
+    // Registry marks the run as neither spawned nor returned
+    expect(orchestrator.registry.getRun(timeoutEvent.childRunId).status).toBe('timed_out');
+    expect(orchestrator.registry.getStats().aborted).toBe(1);
+
+    // Adapter was handed the spawn signal, and it fired
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('should apply per-depth timeouts over the default', async () => {
+    const { adapter } = hangingAdapter(name => name === 'slow_child');
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnTimeoutMs: 60_000,
+      depthTimeoutsMs: { 2: 15 },
+      spawnAdapter: adapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.reason).toBe('spawn_timeout');
+    const timeoutEvent = result.trace.find((ev: any) => ev.kind === 'timeout');
+    expect(timeoutEvent.depth).toBe(2);
+    expect(timeoutEvent.note).toBe('timeout_ms:15');
+  });
+
+  it('should cancel in-flight spawns when the caller aborts', async () => {
+    const { adapter } = hangingAdapter(name => name === 'root');
+    const controller = new AbortController();
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      signal: controller.signal,
+      spawnAdapter: adapter
+    });
+
+    setTimeout(() => controller.abort(), 10);
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('spawn_cancelled');
+
+    const cancelled = result.trace.find((ev: any) => ev.kind === 'cancelled');
+    expect(cancelled.note).toBe('aborted_by_caller');
+    expect(orchestrator.registry.getRun(cancelled.childRunId).status).toBe('cancelled');
+  });
+
+  it('should not spawn at all when the signal is already aborted', async () => {
+    const { adapter, signals } = hangingAdapter(() => false);
+    const controller = new AbortController();
+    controller.abort();
+
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      signal: controller.signal,
+      spawnAdapter: adapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.reason).toBe('spawn_cancelled');
+    expect(result.spawnsExecuted).toBe(0);
+    expect(signals).toHaveLength(0);
+  });
+});
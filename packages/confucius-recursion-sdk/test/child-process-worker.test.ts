@@ -0,0 +1,62 @@
+/**
+ * Child Process Worker Test
+ *
+ * Tests process isolation with a forked fixture that speaks the worker
+ * protocol: captured stdout/stderr, kill-on-timeout, and the memory limit.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'url';
+import { runWithWorker, ChildProcessWorker, type ConfuciusAdapter } from '../src/index.js';
+
+const workerPath = fileURLToPath(new URL('./fixtures/scripted-child.mjs', import.meta.url));
+
+const adapter: ConfuciusAdapter = {
+  getRuntimeInfo: () => ({ host: 'copilot', strictMode: false, capabilities: ['runModel', 'runSubagent'] }),
+  runModel: async () => '{}',
+  runSubagent: async () => '{}'
+};
+
+/**
+ * runWithWorker on the fixture child
+ */
+function runChild(task: string, options: { timeoutMs?: number; memoryLimitMb?: number; maxOutputChars?: number } = {}) {
+  const { timeoutMs, ...childOptions } = options;
+  return runWithWorker(task, {
+    adapter,
+    strictMode: false,
+    timeoutMs,
+    createWorker: () => new ChildProcessWorker({ workerPath, ...childOptions })
+  });
+}
+
+describe('Child Process Worker Test', () => {
+  it('should run the protocol over IPC and capture the child output', async () => {
+    expect(await runChild('echo')).toEqual({
+      ok: true,
+      result: { task: 'echo' },
+      childOutput: { stdout: 'child stdout line\n', stderr: 'child stderr line\n', truncated: false }
+    });
+  });
+
+  it('should kill a child that does not finish in time', async () => {
+    expect(await runChild('hang', { timeoutMs: 300 })).toMatchObject({
+      ok: false,
+      reason: 'timeout',
+      error: 'task did not finish within 300ms'
+    });
+  });
+
+  it('should report a child that exceeds its memory limit', async () => {
+    const outcome = await runChild('hog', { memoryLimitMb: 32 });
+
+    expect(outcome).toMatchObject({ ok: false, reason: 'memory_limit' });
+    expect(outcome.childOutput?.stderr).toMatch(/heap out of memory/i);
+  }, 20000);
+
+  it('should keep only the tail of long output', async () => {
+    const { childOutput } = await runChild('echo', { maxOutputChars: 5 });
+
+    expect(childOutput).toEqual({ stdout: 'line\n', stderr: 'line\n', truncated: true });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Claude Adapter Test
+ *
+ * Tests host detection from environment signals, strict-mode rules,
+ * the pluggable subagent transport, and createAdapter() selection.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  ClaudeAdapter,
+  CopilotAdapter,
+  StandaloneAdapter,
+  createAdapter,
+  runWithConfucius,
+  type ClaudeTransport
+} from '../src/index.js';
+
+/**
+ * Transport that answers the planner, then every subagent with a summary
+ */
+const fakeTransport = (): ClaudeTransport & { calls: string[] } => {
+  const calls: string[] = [];
+  return {
+    calls,
+    runSubagent: async ({ description }) => {
+      calls.push(description);
+      return JSON.stringify({ summary: `done by ${description}` });
+    },
+    runModel: async () => ({
+      goal: 'Summarise',
+      steps: [{ id: 'step_1', agentName: 'depth1_orchestrator', description: 'Summarise' }]
+    })
+  };
+};
+
+const HOST_ENV = ['CLAUDECODE', 'CLAUDE_CODE_ENTRYPOINT', 'CLAUDE_AGENTIC', 'VSCODE_PID', 'COPILOT_AGENTIC'];
+
+describe('Claude Adapter Test', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const clearHostEnv = () => {
+    for (const name of HOST_ENV) vi.stubEnv(name, '');
+  };
+
+  it('should detect the host from environment signals', () => {
+    expect(ClaudeAdapter.detect({})).toBe(false);
+    expect(ClaudeAdapter.detect({ CLAUDECODE: '1' })).toBe(true);
+    expect(ClaudeAdapter.detect({ CLAUDE_CODE_ENTRYPOINT: 'cli' })).toBe(true);
+    expect(ClaudeAdapter.detect({ CLAUDE_AGENTIC: 'true' })).toBe(true);
+  });
+
+  it('should apply its own strict-mode rules', () => {
+    const strict = (env: Record<string, string | undefined>, transport?: ClaudeTransport) =>
+      new ClaudeAdapter({ env, transport }).getRuntimeInfo().strictMode;
+
+    expect(strict({ CLAUDECODE: '1' })).toBe(false);
+    expect(strict({ CLAUDECODE: '1', CLAUDE_CODE_ENTRYPOINT: 'cli' })).toBe(true);
+    expect(strict({ CLAUDECODE: '1' }, fakeTransport())).toBe(true);
+    expect(strict({ CLAUDE_AGENTIC: 'true' })).toBe(true);
+  });
+
+  it('should only report runSubagent when a transport is wired', () => {
+    const bare = new ClaudeAdapter({ env: { CLAUDECODE: '1' } });
+    const wired = new ClaudeAdapter({ env: { CLAUDECODE: '1' }, transport: fakeTransport() });
+
+    expect(bare.getRuntimeInfo()).toMatchObject({ host: 'claude', capabilities: [] });
+    expect(bare.runSubagent).toBeUndefined();
+    expect(wired.getRuntimeInfo().capabilities).toEqual(['runModel', 'runSubagent']);
+  });
+
+  it('should stop waiting on the transport when aborted', async () => {
+    const adapter = new ClaudeAdapter({
+      env: {},
+      transport: { runSubagent: () => new Promise<string>(() => {}) }
+    });
+    const controller = new AbortController();
+
+    const pending = adapter.runSubagent!({ description: 'slow', prompt: 'x', signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('spawn_aborted');
+  });
+
+  it('should choose among all three adapters', () => {
+    clearHostEnv();
+    expect(createAdapter()).toBeInstanceOf(StandaloneAdapter);
+
+    vi.stubEnv('VSCODE_PID', '1234');
+    expect(createAdapter()).toBeInstanceOf(CopilotAdapter);
+
+    vi.stubEnv('CLAUDECODE', '1');
+    const adapter = createAdapter({ claudeTransport: fakeTransport() });
+    expect(adapter).toBeInstanceOf(ClaudeAdapter);
+    expect(adapter.getRuntimeInfo().strictMode).toBe(true);
+  });
+
+  it('should fail preflight on a strict host without a transport', async () => {
+    clearHostEnv();
+    vi.stubEnv('CLAUDECODE', '1');
+    vi.stubEnv('CLAUDE_CODE_ENTRYPOINT', 'cli');
+
+    const result = await runWithConfucius('Summarise the repo');
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('tool_missing_strict');
+  });
+
+  it('should run tasks through the transport', async () => {
+    const transport = fakeTransport();
+
+    const result = await runWithConfucius('Summarise the repo', {
+      adapter: new ClaudeAdapter({ env: { CLAUDECODE: '1' }, transport })
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.result.strictMode).toBe(true);
+    expect(result.result.runtimeMode).toBe('real');
+    expect(transport.calls).toEqual(['depth1_orchestrator']);
+  });
+});
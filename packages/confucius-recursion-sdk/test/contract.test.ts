@@ -0,0 +1,107 @@
+/**
+ * Engagement Contract Test
+ *
+ * Tests the contract engine: the agentic and local presets, which clauses
+ * a result fails, contracts declared in config (counts, anyOf, forbidden
+ * kinds), validation of bad definitions, and runWithConfucius reporting a
+ * failed contract as asleep.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateContract,
+  resolveContract,
+  asleepDetector,
+  runWithConfucius,
+  CONTRACT_PRESETS
+} from '../src/index.js';
+
+const trace = (...kinds: string[]) => kinds.map((kind, i) => ({ kind, eventId: i + 1 }));
+
+const simulatedProof = {
+  runtimeMode: 'simulated',
+  verification: { allSignaturesValid: true },
+  trace: trace('plan_created', 'spawn', 'return', 'merge')
+};
+
+const noRepoConfig = { contract: undefined, contracts: {} };
+
+describe('Engagement Contract Test', () => {
+  it('should list exactly the agentic clauses a simulated proof fails', () => {
+    const verdict = evaluateContract(simulatedProof, CONTRACT_PRESETS.agentic);
+
+    expect(verdict.ok).toBe(false);
+    expect(verdict.contract).toBe('agentic');
+    expect(verdict.failedClauses.map(c => c.name)).toEqual(['preflight_ok', 'runtime_real']);
+    expect(verdict.failedClauses[1].detail).toBe('runtimeMode is simulated, need real');
+    expect(verdict.clauses).toHaveLength(5);
+  });
+
+  it('should accept any activity under the local preset and reject an empty trace', () => {
+    expect(evaluateContract(simulatedProof, CONTRACT_PRESETS.local).ok).toBe(true);
+
+    const empty = evaluateContract({ trace: [] }, CONTRACT_PRESETS.local);
+    expect(empty.failedClauses.map(c => c.name)).toEqual(['trace_present', 'activity']);
+  });
+
+  it('should evaluate contracts declared in config', () => {
+    const repoConfig = {
+      contract: 'ci',
+      contracts: {
+        ci: {
+          clauses: [
+            { events: ['spawn'], min: 2 },
+            { name: 'no_timeouts', events: ['timeout'], max: 0 },
+            { anyOf: [{ events: ['quality_gate_pass'] }, { events: ['merge'] }] },
+            { verification: 'allSignaturesValid' }
+          ]
+        }
+      }
+    };
+    const contract = resolveContract(undefined, 'local', repoConfig);
+    expect(contract.name).toBe('ci');
+
+    const verdict = evaluateContract({ ...simulatedProof, trace: [...simulatedProof.trace, ...trace('timeout')] }, contract);
+    expect(verdict.failedClauses).toEqual([
+      { name: 'events:spawn', ok: false, detail: '1 × spawn, need >= 2' },
+      { name: 'no_timeouts', ok: false, detail: '1 × timeout, need <= 0' }
+    ]);
+    expect(verdict.clauses[2]).toMatchObject({ name: 'anyOf(events:quality_gate_pass,events:merge)', ok: true });
+  });
+
+  it('should refuse unknown names and malformed definitions', () => {
+    expect(() => resolveContract('nightly', 'local', noRepoConfig)).toThrow('unknown_contract: nightly');
+    expect(() => resolveContract(undefined, 'local', { contract: 'bad', contracts: { bad: { clauses: [] } } }))
+      .toThrow('invalid_contract: bad: clauses must be a non-empty array');
+    expect(() => resolveContract({ name: 'x', clauses: [{ events: ['spawn'], min: -1 }] }, 'local', noRepoConfig))
+      .toThrow('invalid_contract: x: clauses[0]: min must be a non-negative integer');
+    expect(() => resolveContract({ name: 'x', clauses: [{ anyOf: [{ runtimeMode: 'real' }] }] } as any, 'local', noRepoConfig))
+      .toThrow('invalid_contract: x: clauses[0].anyOf[0]: runtimeMode must be a non-empty string array');
+  });
+
+  it('should keep the asleep detector shape, with the failed clauses', () => {
+    const result = asleepDetector(simulatedProof, true);
+
+    expect(result).toMatchObject({
+      ok: false,
+      contractMode: 'agentic',
+      contractSatisfied: false,
+      verificationOk: true,
+      engagement: { hasPlanCreated: true, hasSpawnOrRequest: true, hasPreflightOk: false }
+    });
+    expect(result.failedClauses.map(c => c.name)).toEqual(['preflight_ok', 'runtime_real']);
+    expect(asleepDetector(simulatedProof, false).ok).toBe(true);
+  });
+
+  it('should report a failed contract from runWithConfucius as asleep', async () => {
+    const result = await runWithConfucius('Implement feature X', {
+      strictMode: false,
+      contract: { name: 'needs_gate_failure', clauses: [{ events: ['quality_gate_fail'] }] }
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('asleep_detected');
+    expect(result.contract?.failedClauses.map(c => c.name)).toEqual(['events:quality_gate_fail']);
+    expect(result.trace.at(-1)).toMatchObject({ note: 'asleep_detected', reason: 'contract_failed:events:quality_gate_fail' });
+  });
+});
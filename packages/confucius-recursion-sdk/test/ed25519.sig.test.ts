@@ -0,0 +1,94 @@
+/**
+ * Ed25519 Trace Signature Test
+ *
+ * Tests asymmetric signing: proofs embed the public key and verify without
+ * the supervisor's private key, so verifiers cannot forge events.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecursionProofOrchestratorHardened, validateTrace, publicKeyFingerprint } from '../src/index.js';
+import crypto from 'crypto';
+
+describe('Ed25519 Trace Signature Test', () => {
+  let orchestrator: any;
+
+  beforeEach(() => {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      strictMode: false,
+      signingMode: 'ed25519',
+      signingPrivateKey: privateKey
+    });
+  });
+
+  it('should sign every event with Ed25519 and embed the public key', async () => {
+    const result = await orchestrator.runDepth3Proof();
+
+    expect(result.ok).toBe(true);
+    expect(result.verification.allSignaturesValid).toBe(true);
+    expect(result.signature.algorithm).toBe('ed25519');
+    expect(result.signature.publicKey).toContain('BEGIN PUBLIC KEY');
+    expect(result.signature.publicKeyFingerprint).toMatch(/^[a-f0-9]{64}$/);
+
+    for (const event of result.trace) {
+      expect(event.supervisorSig).toMatch(/^[a-f0-9]{128}$/);
+    }
+  });
+
+  it('should verify a serialized proof with only the public key', async () => {
+    const result = await orchestrator.runDepth3Proof();
+    const artifact = JSON.parse(JSON.stringify(result));
+
+    const validation = validateTrace({
+      publicKey: artifact.signature.publicKey,
+      publicKeyFingerprint: artifact.signature.publicKeyFingerprint,
+      traceEvents: artifact.trace
+    });
+
+    expect(validation.ok).toBe(true);
+    expect(validation.eventsChecked).toBe(artifact.trace.length);
+  });
+
+  it('should reject tampered events', async () => {
+    const result = await orchestrator.runDepth3Proof();
+    const tampered = result.trace.map((ev: any) => ({ ...ev }));
+    tampered[1].agentName = 'forged_agent';
+
+    const validation = validateTrace({
+      publicKey: result.signature.publicKey,
+      traceEvents: tampered
+    });
+
+    expect(validation.ok).toBe(false);
+    expect(validation.errors[0]).toMatchObject({ eventId: tampered[1].eventId, reason: 'bad_signature' });
+  });
+
+  it('should reject a proof re-signed with a different key', async () => {
+    const result = await orchestrator.runDepth3Proof();
+    const other = crypto.generateKeyPairSync('ed25519');
+
+    const validation = validateTrace({
+      publicKey: other.publicKey,
+      publicKeyFingerprint: result.signature.publicKeyFingerprint,
+      traceEvents: result.trace
+    });
+
+    expect(validation.ok).toBe(false);
+    expect(validation.errors[0].reason).toBe('public_key_fingerprint_mismatch');
+    expect(publicKeyFingerprint(other.publicKey)).not.toBe(result.signature.publicKeyFingerprint);
+  });
+
+  it('should not verify Ed25519 signatures as HMAC', async () => {
+    const result = await orchestrator.runDepth3Proof();
+
+    const validation = validateTrace({
+      supervisorSecret: crypto.randomBytes(32),
+      traceEvents: result.trace
+    });
+
+    expect(validation.ok).toBe(false);
+    expect(validation.errors.every(err => err.reason === 'bad_signature')).toBe(true);
+  });
+});
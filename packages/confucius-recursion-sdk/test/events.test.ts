@@ -0,0 +1,146 @@
+/**
+ * Progress Events Test
+ *
+ * Tests the live event stream of runWithConfucius: onEvent ordering and
+ * contents, orchestrator output routed through log events instead of the
+ * console, and the async-iterator form.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runWithConfucius, eventFromTrace, RecursionProofOrchestratorHardened, silentLogger, type ConfuciusAdapter, type ConfuciusEvent } from '../src/index.js';
+import crypto from 'crypto';
+
+/**
+ * Fake agentic host: one reviewer child, depth3 proofs computed from the prompt
+ */
+const adapter: ConfuciusAdapter = {
+  getRuntimeInfo: () => ({ host: 'copilot', strictMode: true, capabilities: ['runModel', 'runSubagent'] }),
+  runModel: async () => JSON.stringify({
+    goal: 'Review the API',
+    steps: [{ id: 'step_1', agentName: 'reviewer', description: 'Review api.ts' }]
+  }),
+  runSubagent: async ({ description, prompt }) => {
+    if (description === 'depth1_orchestrator') {
+      return JSON.stringify({ spawn_requests: [{ child_name: 'reviewer', input: { file: 'api.ts' } }] });
+    }
+    const proofInput = /sha256\("([a-f0-9]+):([^"]+)"\)/.exec(prompt);
+    if (proofInput) {
+      const hashProof = crypto.createHash('sha256').update(`${proofInput[1]}:${proofInput[2]}`).digest('hex');
+      return JSON.stringify({ hashProof, timestamp: Date.now() });
+    }
+    return JSON.stringify({ findings: 3 });
+  }
+};
+
+const task = { description: 'Review the payments API', input: { repo: './api' } };
+
+describe('Progress Events Test', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report preflight first, done last and the spawn tree in between', async () => {
+    const events: ConfuciusEvent[] = [];
+    const result = await runWithConfucius(task, { adapter, onEvent: e => events.push(e) });
+
+    expect(result.ok).toBe(true);
+    expect(events[0]).toMatchObject({ type: 'preflight', ok: true, strictMode: true, host: 'copilot' });
+    expect(events.at(-1)).toMatchObject({
+      type: 'done',
+      ok: true,
+      spawnsExecuted: result.result.spawnsExecuted,
+      deepestDepthReached: result.result.deepestDepthReached
+    });
+    expect(events.filter(e => e.type === 'done')).toHaveLength(1);
+
+    const types = new Set(events.map(e => e.type));
+    for (const type of ['spawn', 'return', 'gate', 'merge', 'log']) expect(types).toContain(type);
+
+    // Every return closes a spawn reported earlier
+    const spawned = new Set<string | null>();
+    for (const event of events) {
+      if (event.type === 'spawn') spawned.add(event.runId);
+      if (event.type === 'return') expect(spawned).toContain(event.runId);
+    }
+  });
+
+  it('should keep the console quiet when onEvent is set', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await runWithConfucius(task, { adapter, onEvent: () => {} });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('should end with a failed done event when preflight fails', async () => {
+    const events: ConfuciusEvent[] = [];
+    const noSpawn: ConfuciusAdapter = {
+      getRuntimeInfo: () => ({ host: 'copilot', strictMode: true, capabilities: ['runModel'] }),
+      runModel: async () => '{}'
+    };
+
+    const result = await runWithConfucius(task, { adapter: noSpawn, onEvent: e => events.push(e) });
+
+    expect(result.ok).toBe(false);
+    expect(events).toMatchObject([
+      { type: 'preflight', ok: false, reason: 'tool_missing_strict' },
+      { type: 'done', ok: false, reason: 'tool_missing_strict', spawnsExecuted: 0 }
+    ]);
+  });
+
+  it('should stream the same events as an async iterator', async () => {
+    const run = runWithConfucius.stream(task, { adapter });
+
+    const types: string[] = [];
+    for await (const event of run) types.push(event.type);
+    const result = await run.result;
+
+    expect(result.ok).toBe(true);
+    expect(types[0]).toBe('preflight');
+    expect(types.at(-1)).toBe('done');
+    expect(types).toContain('spawn');
+  });
+
+  it('should log and skip listeners that throw instead of failing the run', async () => {
+    const logger = { ...silentLogger, warn: vi.fn() };
+    const boom = () => { throw new Error('listener bug'); };
+
+    const result = await runWithConfucius(task, { adapter, logger, onEvent: boom });
+
+    expect(result.ok).toBe(true);
+    expect(result.result.verification.allSignaturesValid).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith('listener.failed', expect.objectContaining({ listener: 'onEvent' }));
+
+    // Trace listener and a store failing on trace events: every event is still signed and kept
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      logger,
+      onTraceEvent: boom,
+      registryStore: { append: (_proofId, record) => { if (record.type === 'event') boom(); }, load: () => [] }
+    });
+    const proof = await orchestrator.runDepth3Proof();
+
+    expect(proof.ok).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith('listener.failed', expect.objectContaining({ listener: 'onTraceEvent' }));
+    expect(logger.warn).toHaveBeenCalledWith('registry_store.append_failed', expect.objectContaining({ eventId: 1 }));
+  });
+
+  it('should map trace notes onto gate and retry events', () => {
+    const trace = {
+      ts: 1, eventId: 7, depth: 2, agentName: 'reviewer', childRunId: 'run_2', parentRunId: 'run_1',
+      siblingIndex: 0, outputHash: null, gateErrors: ['too vague']
+    } as any;
+
+    expect(eventFromTrace({ ...trace, kind: 'quality_gate_fail', note: 'gate:handwave,severity:error,attempt:2' })).toMatchObject({
+      type: 'gate', eventId: 7, runId: 'run_2', gate: 'handwave', severity: 'error', attempt: 2, passed: false, errors: ['too vague']
+    });
+    expect(eventFromTrace({ ...trace, kind: 'retry', note: 'attempt:2/3' })).toMatchObject({
+      type: 'retry', attempt: 2, maxAttempts: 3, errors: ['too vague']
+    });
+    expect(eventFromTrace({ ...trace, kind: 'cancelled', childRunId: null, note: 'spawn_limit' })).toMatchObject({
+      type: 'limit', note: 'spawn_limit'
+    });
+    expect(eventFromTrace({ ...trace, kind: 'plan_created' })).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Bundle the real orchestrator worker (src/worker/orchestrator.worker.ts)
+ * into a temp dir, so tests can run it in a worker_threads Worker
+ */
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { build } from 'tsup';
+
+export async function buildWorker(): Promise<string> {
+  const outDir = mkdtempSync(join(tmpdir(), 'confucius-worker-'));
+  await build({
+    entry: { 'orchestrator.worker': resolve(__dirname, '..', '..', 'src', 'worker', 'orchestrator.worker.ts') },
+    outDir,
+    format: ['esm'],
+    outExtension: () => ({ js: '.mjs' }),
+    platform: 'node',
+    noExternal: [/.*/],  // Outside the package, so zod cannot be resolved at runtime
+    silent: true,
+    config: false
+  });
+  return join(outDir, 'orchestrator.worker.mjs');
+}
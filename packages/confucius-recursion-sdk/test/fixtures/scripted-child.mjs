@@ -0,0 +1,23 @@
+/**
+ * Forked-child fixture for ChildProcessWorker tests: speaks the worker
+ * protocol over IPC. The task name picks the behaviour:
+ *   echo - print to stdout and stderr, then done
+ *   hang - never answer
+ *   hog  - allocate until V8 runs out of heap
+ */
+
+process.on('message', msg => {
+  if (msg.type !== 'runTask') return;
+
+  if (msg.task === 'echo') {
+    console.log('child stdout line');
+    console.error('child stderr line');
+    process.send({ type: 'done', result: { task: msg.task } });
+  } else if (msg.task === 'hog') {
+    const hoard = [];
+    for (;;) hoard.push(new Array(1e6).fill(hoard.length));
+  }
+});
+
+process.on('disconnect', () => process.exit(0));
+process.send({ type: 'ready', protocolVersion: 2 });
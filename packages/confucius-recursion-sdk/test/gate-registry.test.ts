@@ -0,0 +1,127 @@
+/**
+ * Quality Gate Registry Test
+ *
+ * Tests named gate plugins: block vs warn severity, replacing the default
+ * handwave gate, config.json specs, and signed quality_gate_pass /
+ * quality_gate_fail events.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecursionProofOrchestratorHardened, createGateFromSpec, rangeGate, validateTrace } from '../src/index.js';
+
+/**
+ * Root returns `output` on every attempt
+ */
+const fixedAdapter = (output: Record<string, any>) =>
+  async ({ agentName }: { agentName: string }) => ({ runId: agentName, output });
+
+describe('Quality Gate Registry Test', () => {
+  it('should sign a quality_gate_pass event for the default handwave gate', async () => {
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      strictMode: false
+    });
+
+    const result = await orchestrator.runDepth3Proof();
+
+    expect(result.ok).toBe(true);
+    const passes = result.trace.filter((ev: any) => ev.kind === 'quality_gate_pass');
+    expect(passes).toHaveLength(result.spawnsExecuted);
+    expect(passes[0].note).toBe('gate:handwave,severity:block,attempt:1');
+    expect(validateTrace({ supervisorSecret: orchestrator.secret, traceEvents: result.trace, registry: orchestrator.registry }).ok).toBe(true);
+  });
+
+  it('should reject outputs that fail a blocking gate', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: fixedAdapter({ metric: 150 }),
+      qualityGates: [rangeGate({ name: 'metric_range', path: 'metric', min: 0, max: 100 })]
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('quality_gate_failed');
+    expect(result.gateErrors).toEqual(['out_of_range:metric:150>100']);
+
+    const fails = result.trace.filter((ev: any) => ev.kind === 'quality_gate_fail');
+    expect(fails.map((ev: any) => ev.note)).toEqual([
+      'gate:metric_range,severity:block,attempt:1',
+      'gate:metric_range,severity:block,attempt:2'
+    ]);
+    expect(fails[0].gateErrors).toEqual(['out_of_range:metric:150>100']);
+  });
+
+  it('should record but accept outputs that fail a warn gate', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: fixedAdapter({ metric: 150 }),
+      qualityGates: [rangeGate({ name: 'metric_range', path: 'metric', max: 100, severity: 'warn' })]
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(true);
+    expect(result.trace.some((ev: any) => ev.kind === 'retry')).toBe(false);
+    expect(result.trace.find((ev: any) => ev.kind === 'quality_gate_fail')).toMatchObject({
+      note: 'gate:metric_range,severity:warn,attempt:1',
+      gateErrors: ['out_of_range:metric:150>100']
+    });
+  });
+
+  it('should replace the default handwave gate by name', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: fixedAdapter({ summary: 'quizás funciona, maybe' }),
+      qualityGates: [createGateFromSpec({ type: 'handwave', phrases: ['quizás'] })]
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.gateErrors).toEqual(['handwave_phrase:quizás']);
+  });
+
+  it('should run async gates and fail gates that throw', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      retry: { maxAttempts: 1 },
+      spawnAdapter: fixedAdapter({ patch: 'diff --git a/x b/x' })
+    });
+    orchestrator.registerGate({
+      name: 'patch_applies',
+      check: async ({ output }) => ({ ok: output.patch.startsWith('diff'), errors: [] })
+    });
+    orchestrator.registerGate({
+      name: 'broken',
+      depths: [1],
+      check: () => { throw new Error('boom'); }
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.gateErrors).toEqual(['gate_threw:boom']);
+    expect(result.trace.find((ev: any) => ev.note?.startsWith('gate:patch_applies'))?.kind).toBe('quality_gate_pass');
+  });
+
+  it('should build gates from config specs and reject invalid ones', () => {
+    const schemaGate = createGateFromSpec({
+      type: 'schema',
+      name: 'has_summary',
+      severity: 'warn',
+      schema: { type: 'object', required: ['summary'] }
+    });
+
+    expect(schemaGate).toMatchObject({ name: 'has_summary', severity: 'warn' });
+    expect(schemaGate.check({ output: {}, agentName: 'a', depth: 1, prompt: '', input: {}, attempt: 1 }))
+      .toEqual({ ok: false, errors: ['summary: required'] });
+    expect(() => createGateFromSpec({ type: 'range' } as any)).toThrow('invalid_gate_spec');
+    expect(() => createGateFromSpec({ type: 'unknown' } as any)).toThrow('invalid_gate_spec');
+  });
+});
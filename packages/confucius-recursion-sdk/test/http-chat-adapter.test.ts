@@ -0,0 +1,121 @@
+/**
+ * HTTP Chat Adapter Test
+ *
+ * Tests HttpChatAdapter against the bundled mock chat server: request
+ * shape, JSON mode, retries, timeouts, token usage, and a full
+ * orchestration driven by the endpoint.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  HttpChatAdapter,
+  startMockChatServer,
+  MockHttpError,
+  runWithConfucius,
+  type MockChatServer,
+  type MockChatServerOptions
+} from '../src/index.js';
+
+describe('HTTP Chat Adapter Test', () => {
+  let server: MockChatServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  const start = async (options: MockChatServerOptions = {}) => {
+    server = await startMockChatServer(options);
+    return server;
+  };
+
+  it('should send OpenAI-compatible requests and sum token usage', async () => {
+    const { url, requests } = await start({ respond: () => ({ answer: 42 }) });
+    const adapter = new HttpChatAdapter({ baseUrl: url, model: 'local-7b', apiKey: 'sk-test', temperature: 0 });
+
+    expect(await adapter.runModel('What is the answer?', {})).toBe('{"answer":42}');
+    expect(await adapter.runSubagent({ description: 'reviewer', prompt: 'Review api.ts' })).toBe('{"answer":42}');
+
+    expect(requests[0]).toMatchObject({
+      model: 'local-7b',
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [{ role: 'user', content: 'What is the answer?' }]
+    });
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(requests[1].messages[0].content).toContain('subagent "reviewer"');
+    expect(adapter.usage.requests).toBe(2);
+    expect(adapter.usage.totalTokens).toBe(adapter.usage.promptTokens + adapter.usage.completionTokens);
+    expect(adapter.getRuntimeInfo()).toMatchObject({ host: 'http', strictMode: false, version: 'local-7b' });
+  });
+
+  it('should retry 5xx and give up after maxRetries', async () => {
+    const flaky = await start({ failFirst: 2 });
+    const adapter = new HttpChatAdapter({ baseUrl: flaky.url, model: 'm', retryBackoffMs: 1 });
+    await expect(adapter.runModel('hi', {})).resolves.toContain('summary');
+    expect(flaky.requests).toHaveLength(3);
+    await flaky.close();
+
+    const down = await start({ failFirst: 10 });
+    const giveUp = new HttpChatAdapter({ baseUrl: down.url, model: 'm', maxRetries: 1, retryBackoffMs: 1 });
+    await expect(giveUp.runModel('hi', {})).rejects.toThrow('http_chat_status_503');
+    expect(down.requests).toHaveLength(2);
+  });
+
+  it('should not retry client errors', async () => {
+    const { url, requests } = await start({ respond: () => new MockHttpError(401) });
+    const adapter = new HttpChatAdapter({ baseUrl: url, model: 'm', retryBackoffMs: 1 });
+
+    await expect(adapter.runModel('hi', {})).rejects.toThrow('http_chat_status_401');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should send replies with a numeric status field as content', async () => {
+    const { url } = await start({ respond: () => ({ status: 200, findings: 1 }) });
+    const adapter = new HttpChatAdapter({ baseUrl: url, model: 'm', retryBackoffMs: 1 });
+
+    await expect(adapter.runModel('hi', {})).resolves.toBe('{"status":200,"findings":1}');
+  });
+
+  it('should enforce JSON objects in JSON mode', async () => {
+    const replies = ['Sure! Here you go.', '```json\n{"ok": true}\n```'];
+    const { url, requests } = await start({ respond: () => replies.shift() ?? '' });
+    const adapter = new HttpChatAdapter({ baseUrl: `${url}/chat/completions`, model: 'm', retryBackoffMs: 1 });
+
+    expect(await adapter.runModel('hi', {})).toBe('{"ok": true}');
+    expect(requests).toHaveLength(2);
+
+    const prose = new HttpChatAdapter({ baseUrl: url, model: 'm', jsonMode: false });
+    replies.push('plain text');
+    expect(await prose.runModel('hi', {})).toBe('plain text');
+    expect(requests[2].response_format).toBeUndefined();
+  });
+
+  it('should time out slow requests', async () => {
+    const { url } = await start({ delayMs: 200 });
+    const adapter = new HttpChatAdapter({ baseUrl: url, model: 'm', timeoutMs: 20, maxRetries: 0 });
+
+    await expect(adapter.runModel('hi', {})).rejects.toThrow('http_chat_timeout');
+  });
+
+  it('should drive an orchestration through the endpoint', async () => {
+    const { url } = await start({
+      respond: req => {
+        const system = req.messages[0].content;
+        if (system.includes('"depth1_orchestrator"')) {
+          return { spawn_requests: [{ child_name: 'reviewer', input: { file: 'api.ts' } }] };
+        }
+        if (system.includes('"reviewer"')) return { findings: 2 };
+        return { goal: 'Review', steps: [{ id: 'step_1', agentName: 'reviewer', description: 'Review api.ts' }] };
+      }
+    });
+    const adapter = new HttpChatAdapter({ baseUrl: url, model: 'm' });
+
+    const result = await runWithConfucius('Review the payments API', { adapter });
+
+    expect(result.ok).toBe(true);
+    expect(result.result.runtimeMode).toBe('real');
+    expect(result.result.output.tree.children[0].output).toEqual({ findings: 2 });
+    expect(adapter.usage.requests).toBe(3);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Judge Gate Test
+ *
+ * Tests the model-judged quality gate with a deterministic fake judge:
+ * scores against a threshold, signed judge events, and a call budget
+ * separate from maxSpawns.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecursionProofOrchestratorHardened, createFakeJudge, parseJudgeVerdict, validateTrace } from '../src/index.js';
+
+/**
+ * Fake judge: outputs with an `answer` score 0.9, anything else 0.2
+ */
+const answerJudge = createFakeJudge(output => ((output as any)?.answer ? 0.9 : 0.2));
+
+describe('Judge Gate Test', () => {
+  it('should sign a judge event for every judged output', async () => {
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      strictMode: false,
+      judge: { model: createFakeJudge() }
+    });
+
+    const result = await orchestrator.runDepth3Proof();
+
+    expect(result.ok).toBe(true);
+    const judged = result.trace.filter((ev: any) => ev.kind === 'judge');
+    expect(judged).toHaveLength(result.spawnsExecuted);
+    expect(judged[0].note).toBe('score:1,threshold:0.7');
+    expect(result.judgeCalls).toBe(result.spawnsExecuted);
+    expect(result.spawnsExecuted).toBe(5);
+    expect(validateTrace({ supervisorSecret: orchestrator.secret, traceEvents: result.trace, registry: orchestrator.registry }).ok).toBe(true);
+  });
+
+  it('should fail below the threshold and retry with the rationale', async () => {
+    const prompts: string[] = [];
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      judge: { model: answerJudge, threshold: 0.5 },
+      spawnAdapter: async ({ agentName, prompt }) => {
+        prompts.push(prompt);
+        return { runId: agentName, output: prompts.length === 1 ? { summary: 'x' } : { answer: 42 } };
+      }
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(true);
+    const judged = result.trace.filter((ev: any) => ev.kind === 'judge');
+    expect(judged.map((ev: any) => ev.note)).toEqual(['score:0.2,threshold:0.5', 'score:0.9,threshold:0.5']);
+    expect(judged[0].gateErrors).toEqual(['judge_score:0.2<0.5', 'judge_rationale:fake judge: score 0.2']);
+    expect(prompts[1]).toContain('- judge_score:0.2<0.5');
+  });
+
+  it('should count judge calls against their own budget', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      judge: { model: answerJudge, maxCalls: 1 },
+      spawnAdapter: async ({ agentName }) => ({
+        runId: agentName,
+        output: agentName === 'root'
+          ? { answer: 1, spawn_requests: [{ child_name: 'child', input: {} }] }
+          : { answer: 2 }
+      })
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.gateErrors).toEqual(['judge_limit']);
+    expect(result.judgeCalls).toBe(1);
+    expect(result.spawnsExecuted).toBe(2);
+    expect(result.trace.some((ev: any) => ev.kind === 'limit' && ev.note === 'judge_limit')).toBe(true);
+  });
+
+  it('should fail the judge gate in strict mode without a model', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      strictMode: true,
+      retry: { maxAttempts: 1 },
+      judge: {},
+      spawnAdapter: async ({ agentName }) => ({ runId: agentName, output: { answer: 1 } })
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.gateErrors).toEqual(['judge_model_missing']);
+    expect(result.judgeCalls).toBe(0);
+  });
+
+  it('should parse judge responses', () => {
+    expect(parseJudgeVerdict('```json\n{"score": "0.8", "rationale": "ok"}\n```')).toEqual({ ok: true, score: 0.8, rationale: 'ok' });
+    expect(parseJudgeVerdict({ score: 7 })).toMatchObject({ ok: false, error: 'judge_unparseable' });
+    expect(parseJudgeVerdict('looks fine to me')).toMatchObject({ ok: false, error: 'judge_unparseable' });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Logging Test
+ *
+ * Tests the JSON-lines logger (levels, redaction) and that the orchestrator
+ * stays silent by default while handing its progress lines to a logger.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RecursionProofOrchestratorHardened, MemoryRegistryStore, createLogger, redact } from '../src/index.js';
+
+describe('Logging Test', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write JSON lines at or above the configured level', () => {
+    const lines: string[] = [];
+    const logger = createLogger({ name: 'test', level: 'info', write: line => lines.push(line) });
+
+    logger.debug('skipped');
+    logger.info('orchestrator.progress', { message: 'hello' });
+    logger.error('worker-manager.exit', { code: 1 });
+
+    expect(lines.map(line => JSON.parse(line))).toMatchObject([
+      { level: 'info', name: 'test', event: 'orchestrator.progress', message: 'hello' },
+      { level: 'error', name: 'test', event: 'worker-manager.exit', code: 1 }
+    ]);
+    expect(typeof JSON.parse(lines[0]).timestamp).toBe('string');
+  });
+
+  it('should redact credential-like fields and cut long values', () => {
+    const out = redact({
+      apiKey: 'sk-123',
+      headers: { Authorization: 'Bearer abc', accept: 'json' },
+      signingPrivateKey: 'PEM',
+      note: 'x'.repeat(600),
+      error: new Error('boom')
+    }) as Record<string, any>;
+
+    expect(out.apiKey).toBe('[REDACTED]');
+    expect(out.headers).toEqual({ Authorization: '[REDACTED]', accept: 'json' });
+    expect(out.signingPrivateKey).toBe('[REDACTED]');
+    expect(out.note).toHaveLength(503);
+    expect(out.error).toEqual({ name: 'Error', message: 'boom' });
+  });
+
+  it('should print nothing by default and log progress through a logger', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const silent = new RecursionProofOrchestratorHardened({ simulateWhenNoAdapter: true, registryStore: new MemoryRegistryStore() });
+    expect((await silent.runDepth3Proof()).ok).toBe(true);
+    expect([log, warn, error].every(spy => spy.mock.calls.length === 0)).toBe(true);
+
+    const lines: string[] = [];
+    const orch = new RecursionProofOrchestratorHardened({
+      simulateWhenNoAdapter: true,
+      registryStore: new MemoryRegistryStore(),
+      logger: createLogger({ write: line => lines.push(line) })
+    });
+    await orch.runDepth3Proof();
+
+    const entries = lines.map(line => JSON.parse(line));
+    expect(entries.some(e => e.event === 'orchestrator.progress' && e.message.includes('[Depth 3]'))).toBe(true);
+    expect(log).not.toHaveBeenCalled();
+  });
+});
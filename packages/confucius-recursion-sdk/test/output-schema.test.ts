@@ -0,0 +1,113 @@
+/**
+ * Output Schema Gate Test
+ *
+ * Tests schema-based quality gates: zod and JSON Schema outputs are
+ * validated per spawn and failures carry path-qualified errors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { RecursionProofOrchestratorHardened, qualityGate, validateOutputSchema } from '../src/index.js';
+
+const depth1Output = {
+  spawn_requests: [
+    { child_name: 'depth2_worker_a', input: { depth: 2 } },
+    { child_name: 'depth2_worker_b', input: { depth: 'two' } }
+  ]
+};
+
+describe('Output Schema Gate Test', () => {
+  it('should report zod failures with their value path', () => {
+    const schema = z.object({
+      spawn_requests: z.array(z.object({
+        child_name: z.string(),
+        input: z.object({ depth: z.number() })
+      }))
+    });
+
+    expect(validateOutputSchema(depth1Output, schema)).toEqual([
+      'spawn_requests[1].input.depth: expected number'
+    ]);
+  });
+
+  it('should report JSON Schema failures in the same format', () => {
+    const schema = {
+      type: 'object' as const,
+      required: ['spawn_requests', 'metric'],
+      properties: {
+        spawn_requests: {
+          type: 'array' as const,
+          maxItems: 1,
+          items: {
+            type: 'object' as const,
+            required: ['child_name'],
+            properties: {
+              child_name: { type: 'string' as const },
+              input: { type: 'object' as const, properties: { depth: { type: 'number' as const } } }
+            }
+          }
+        }
+      }
+    };
+
+    expect(validateOutputSchema(depth1Output, schema)).toEqual([
+      'metric: required',
+      'spawn_requests: expected at most 1 items',
+      'spawn_requests[1].input.depth: expected number'
+    ]);
+  });
+
+  it('should fail the quality gate on schema errors', () => {
+    const gate = qualityGate({
+      output: { metric: 'high' },
+      schema: { type: 'object', properties: { metric: { type: 'number' } } }
+    });
+
+    expect(gate.ok).toBe(false);
+    expect(gate.errors).toEqual(['metric: expected number']);
+  });
+
+  it('should fail the depth3 proof when depth2 omits its spawn_request', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: async ({ agentName }) => {
+        if (agentName === 'depth1_orchestrator') {
+          return {
+            runId: agentName,
+            output: {
+              spawn_requests: [
+                { child_name: 'depth2_worker_a', input: {} },
+                { child_name: 'depth2_worker_b', input: {} }
+              ]
+            }
+          };
+        }
+        return { runId: agentName, output: { metric: 7 } };
+      }
+    });
+
+    const result = await orchestrator.runDepth3Proof();
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('quality_gate_failed');
+    expect(result.gateErrors).toEqual(['spawn_request: required']);
+    expect(result.trace.some((ev: any) => ev.kind === 'spawn' && ev.depth === 3)).toBe(false);
+  });
+
+  it('should apply a caller schema to the runTask root', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: async ({ agentName }) => ({ runId: agentName, output: { summary: 42 } })
+    });
+
+    const result = await orchestrator.runTask({
+      agentName: 'root',
+      outputSchema: z.object({ summary: z.string() })
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.gateErrors).toEqual(['summary: expected string']);
+  });
+});
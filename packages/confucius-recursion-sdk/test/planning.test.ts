@@ -0,0 +1,157 @@
+/**
+ * Planning Test
+ *
+ * Tests the planning phase: a validated plan is signed as plan_created
+ * before any spawn, and spawns outside the plan are rejected.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RecursionProofOrchestratorHardened, validateTrace, silentLogger } from '../src/index.js';
+
+/**
+ * Root asks for the workers in `children`; everything else returns a metric
+ */
+const spawnAdapterFor = (children: string[]) =>
+  async ({ agentName }: { agentName: string; prompt: string; input: any }) => {
+    if (agentName === 'root') {
+      return {
+        runId: agentName,
+        output: { spawn_requests: children.map(child_name => ({ child_name, input: {} })) }
+      };
+    }
+    return { runId: agentName, output: { metric: 1 } };
+  };
+
+const plan = {
+  goal: 'Audit the API',
+  steps: [
+    { id: 'step_1', agentName: 'auditor', description: 'Audit endpoints' },
+    { id: 'step_2', agentName: 'tester', description: 'Write tests' }
+  ]
+};
+
+describe('Planning Test', () => {
+  it('should sign a plan_created event before the first spawn', async () => {
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: spawnAdapterFor(['auditor', 'tester']),
+      modelAdapter: async () => plan
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root', input: { task: 'Audit the API' }, plan: true });
+
+    expect(result.ok).toBe(true);
+    expect(result.plan).toEqual(plan);
+    expect(result.trace[0].kind).toBe('plan_created');
+    expect(result.trace[0].outputHash).toBe(orchestrator.trace.hashOf(plan));
+
+    const validation = validateTrace({
+      supervisorSecret: orchestrator.secret,
+      traceEvents: result.trace,
+      registry: orchestrator.registry
+    });
+    expect(validation.ok).toBe(true);
+  });
+
+  it('should put the approved plan into the depth1 prompt', async () => {
+    const prompts: string[] = [];
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: async (args) => {
+        prompts.push(args.prompt);
+        return spawnAdapterFor(['auditor'])({ ...args, agentName: 'root' });
+      },
+      modelAdapter: async () => plan
+    });
+
+    await orchestrator.runTask({ agentName: 'depth1_orchestrator', input: { task: 'Audit the API' }, plan: true });
+
+    expect(prompts[0]).toContain('Approved plan');
+    expect(prompts[0]).toContain('"agentName": "tester"');
+  });
+
+  it('should log and keep planning when the store fails to record the plan', async () => {
+    const logger = { ...silentLogger, warn: vi.fn() };
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: spawnAdapterFor(['auditor']),
+      modelAdapter: async () => plan,
+      logger,
+      registryStore: {
+        append: (_proofId, record) => { if (record.type === 'plan') throw new Error('disk full'); },
+        load: () => []
+      }
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root', input: { task: 'Audit the API' }, plan: true });
+
+    expect(result.ok).toBe(true);
+    expect(result.plan).toEqual(plan);
+    expect(logger.warn).toHaveBeenCalledWith('registry_store.append_failed', expect.objectContaining({ record: 'plan' }));
+  });
+
+  it('should reject depth2 workers that are not in the plan', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: spawnAdapterFor(['auditor', 'intruder']),
+      modelAdapter: async () => plan
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root', input: { task: 'Audit the API' }, plan: true });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('plan_violation');
+    expect(result.trace.some((ev: any) => ev.note === 'plan_unlisted_agent:intruder')).toBe(true);
+    expect(result.trace.some((ev: any) => ev.kind === 'spawn' && ev.agentName === 'intruder')).toBe(false);
+  });
+
+  it('should fail without spawning when the plan never passes its gate', async () => {
+    let calls = 0;
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: spawnAdapterFor(['auditor']),
+      modelAdapter: async () => {
+        calls += 1;
+        return { goal: 'Audit', steps: [] };
+      }
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root', plan: true });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('plan_gate_failed');
+    expect(calls).toBe(2);
+    expect(result.spawnsExecuted).toBe(0);
+    expect(result.trace.some((ev: any) => ev.kind === 'plan_created')).toBe(false);
+  });
+
+  it('should simulate a plan for the depth3 proof when no model is available', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      strictMode: false,
+      simulateWhenNoAdapter: true
+    });
+
+    const result = await orchestrator.runDepth3Proof({ plan: true });
+
+    expect(result.ok).toBe(true);
+    expect(result.runtimeMode).toBe('simulated');
+    expect(result.trace.filter((ev: any) => ev.kind === 'plan_created')).toHaveLength(1);
+    expect(result.trace.filter((ev: any) => ev.note === 'simulation_warning')).toHaveLength(1);
+  });
+
+  it('should fail with tool_missing_strict when strict mode has no model to plan with', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({ strictMode: true });
+
+    const result = await orchestrator.runTask({ agentName: 'root', plan: true });
+
+    expect(result).toMatchObject({ ok: false, reason: 'tool_missing_strict', spawnsExecuted: 0 });
+    expect(result.trace.map((ev: any) => ev.note)).toEqual(['tool_missing_strict']);
+  });
+});
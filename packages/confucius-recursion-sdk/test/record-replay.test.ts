@@ -0,0 +1,127 @@
+/**
+ * Record / Replay Test
+ *
+ * Tests that a run recorded through RecordingAdapter replays offline with
+ * the same outputs, that depth3 proofs are rebound to fresh nonces, and
+ * the mismatch policies.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import crypto from 'crypto';
+import {
+  RecordingAdapter,
+  ReplayAdapter,
+  loadCassette,
+  normalizePrompt,
+  runWithConfucius,
+  type ConfuciusAdapter
+} from '../src/index.js';
+
+/**
+ * Fake agentic host: plans one reviewer step, answers by agent name
+ */
+class FakeHostAdapter implements ConfuciusAdapter {
+  calls = 0;
+
+  getRuntimeInfo() {
+    return { host: 'copilot' as const, strictMode: true, capabilities: ['runModel', 'runSubagent'] };
+  }
+
+  async runModel(): Promise<string | object> {
+    this.calls++;
+    return {
+      goal: 'Review the API',
+      steps: [{ id: 'step_1', agentName: 'reviewer', description: 'Review api.ts' }]
+    };
+  }
+
+  async runSubagent({ description }: { description: string; prompt: string }): Promise<string> {
+    this.calls++;
+    if (description === 'depth1_orchestrator') {
+      return JSON.stringify({ spawn_requests: [{ child_name: 'reviewer', input: { file: 'api.ts' } }] });
+    }
+    return JSON.stringify({ findings: this.calls });
+  }
+}
+
+const TASK = { description: 'Review the payments API', input: { repo: './api' } };
+
+describe('Record / Replay Test', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'confucius-cassette-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should replay a recorded run offline with the same outputs', async () => {
+    const cassettePath = join(dir, 'review.json');
+    const host = new FakeHostAdapter();
+
+    const recorded = await runWithConfucius(TASK, { adapter: new RecordingAdapter({ adapter: host, cassettePath }) });
+    const cassette = loadCassette(cassettePath);
+
+    expect(recorded.ok).toBe(true);
+    expect(cassette.interactions.map(i => `${i.kind}:${i.agentName}`)).toEqual([
+      'runModel:model',
+      'runSubagent:depth1_orchestrator',
+      'runSubagent:reviewer'
+    ]);
+
+    const replay = new ReplayAdapter({ cassette: cassettePath });
+    const replayed = await runWithConfucius(TASK, { adapter: replay });
+
+    expect(replayed.ok).toBe(true);
+    expect(replayed.result.runtimeMode).toBe('simulated');
+    const outputs = (node: any): unknown[] => [node.output, ...node.children.flatMap(outputs)];
+    expect(outputs(replayed.result.output.tree)).toEqual(outputs(recorded.result.output.tree));
+    expect(replay.unused()).toEqual([]);
+    expect(host.calls).toBe(3);
+  });
+
+  it('should rebind recorded depth3 proofs to the current nonce', async () => {
+    const promptFor = (nonce: string, runId: string) => `hashProof = sha256("${nonce}:${runId}")`;
+    const recordedNonce = 'a'.repeat(32);
+    const host: ConfuciusAdapter = {
+      getRuntimeInfo: () => ({ host: 'copilot', strictMode: true, capabilities: ['runSubagent'] }),
+      runModel: async () => ({}),
+      runSubagent: async () => JSON.stringify({ hashProof: 'recorded', timestamp: 1 })
+    };
+    const recorder = new RecordingAdapter({ adapter: host, cassettePath: join(dir, 'depth3.json') });
+    await recorder.runSubagent!({ description: 'depth3', prompt: promptFor(recordedNonce, 'depth3_20261018T101010123Z_0badf00d') });
+
+    const nonce = 'b'.repeat(32);
+    const runId = 'depth3_20261018T111111456Z_deadbeef';
+    const replay = new ReplayAdapter({ cassette: recorder.cassette });
+    const output = JSON.parse(await replay.runSubagent!({ description: 'depth3', prompt: promptFor(nonce, runId) }));
+
+    expect(output.hashProof).toBe(crypto.createHash('sha256').update(`${nonce}:${runId}`).digest('hex'));
+  });
+
+  it('should apply the mismatch policy', async () => {
+    const recorder = new RecordingAdapter({ adapter: new FakeHostAdapter(), cassettePath: join(dir, 'policy.json') });
+    await recorder.runSubagent!({ description: 'reviewer', prompt: 'Review api.ts' });
+
+    const strict = new ReplayAdapter({ cassette: recorder.cassette });
+    await expect(strict.runSubagent!({ description: 'reviewer', prompt: 'Review db.ts' })).rejects.toThrow('cassette_mismatch: runSubagent reviewer');
+
+    const byAgent = new ReplayAdapter({ cassette: recorder.cassette, onMismatch: 'agent' });
+    expect(await byAgent.runSubagent!({ description: 'reviewer', prompt: 'Review db.ts' })).toBe('{"findings":1}');
+    await expect(byAgent.runSubagent!({ description: 'reviewer', prompt: 'Review db.ts' })).rejects.toThrow('cassette_mismatch');
+
+    const passthrough = new ReplayAdapter({ cassette: recorder.cassette, onMismatch: 'passthrough', fallback: new FakeHostAdapter() });
+    expect(await passthrough.runSubagent!({ description: 'auditor', prompt: 'Audit' })).toBe('{"findings":1}');
+    expect(() => new ReplayAdapter({ cassette: recorder.cassette, onMismatch: 'passthrough' })).toThrow('replay_fallback_missing');
+  });
+
+  it('should mask per-run values before hashing prompts', () => {
+    const prompt = `runId depth2_20261018T101010123Z_0badf00d nonce ${'c'.repeat(32)} at ${Date.now()}`;
+    expect(normalizePrompt(prompt)).toBe('runId depth2_<run> nonce <nonce> at <ts>');
+  });
+});
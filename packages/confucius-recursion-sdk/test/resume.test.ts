@@ -0,0 +1,186 @@
+/**
+ * Resume Test
+ *
+ * Tests the persisted registry: a run that dies mid-proof resumes from the
+ * runs still marked spawned instead of restarting from scratch.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecursionProofOrchestratorHardened, validateTrace, MemoryRegistryStore, JsonlRegistryStore, type RegistryStore } from '../src/index.js';
+import { mkdtempSync, readFileSync, readdirSync, appendFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import crypto from 'crypto';
+
+/**
+ * Depth3-shaped adapter that "crashes" (throws) on one agent
+ */
+const depth3Adapter = (crashOn: string | null) => {
+  const calls: string[] = [];
+  const adapter = async ({ agentName, input }: { agentName: string; prompt: string; input: any }) => {
+    calls.push(agentName);
+    if (agentName === crashOn) throw new Error('process_crashed');
+
+    if (agentName === 'depth1_orchestrator') {
+      return {
+        runId: agentName,
+        output: {
+          spawn_requests: [
+            { child_name: 'depth2_worker_a', input: { depth: 2 } },
+            { child_name: 'depth2_worker_b', input: { depth: 2 } }
+          ]
+        }
+      };
+    }
+    if (agentName.startsWith('depth2')) {
+      return {
+        runId: agentName,
+        output: { metric: 1, spawn_request: { child_name: `depth3_micro_${agentName.slice(-1)}`, input: { depth: 3 } } }
+      };
+    }
+    const hashProof = crypto.createHash('sha256').update(`${input.nonce}:${input.runId}`).digest('hex');
+    return { runId: agentName, output: { hashProof, timestamp: Date.now() } };
+  };
+  return { adapter, calls };
+};
+
+describe('Resume Test', () => {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  const keyConfig = { signingMode: 'ed25519' as const, signingPrivateKey: privateKey };
+
+  it('should re-execute only the runs that never returned', async () => {
+    const registryStore = new MemoryRegistryStore();
+    const first = depth3Adapter('depth3_micro_b');
+    const crashed: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      maxConcurrency: 1,
+      spawnAdapter: first.adapter,
+      registryStore,
+      ...keyConfig
+    });
+
+    await expect(crashed.runDepth3Proof()).rejects.toThrow('process_crashed');
+    const pendingRun = crashed.registry.getAllRuns().find((r: any) => r.status === 'spawned');
+    expect(pendingRun.agentName).toBe('depth3_micro_b');
+
+    const second = depth3Adapter(null);
+    const resumed: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: second.adapter,
+      registryStore,
+      ...keyConfig
+    });
+
+    const result = await resumed.resume(crashed.proofId);
+
+    expect(result.ok).toBe(true);
+    expect(result.proofId).toBe(crashed.proofId);
+    expect(second.calls).toEqual(['depth3_micro_b']);
+    expect(result.spawnsExecuted).toBe(5);
+    expect(result.verification.depth3ProofVerified).toBe(true);
+    expect(resumed.registry.getRun(pendingRun.runId).status).toBe('returned');
+
+    // One continuous chain across both processes
+    expect(result.trace.some((ev: any) => ev.kind === 'resume' && ev.note === 'returned:4,pending:1')).toBe(true);
+    const validation = validateTrace({ publicKey: result.signature.publicKey, traceEvents: result.trace });
+    expect(validation.ok).toBe(true);
+  });
+
+  it('should re-execute a returned run whose stored output was edited', async () => {
+    const registryStore = new MemoryRegistryStore();
+    const crashed: any = new RecursionProofOrchestratorHardened({
+      maxConcurrency: 1,
+      spawnAdapter: depth3Adapter('depth3_micro_b').adapter,
+      registryStore,
+      ...keyConfig
+    });
+    await expect(crashed.runDepth3Proof()).rejects.toThrow('process_crashed');
+    const edited = crashed.registry.getAllRuns().find((r: any) => r.agentName === 'depth2_worker_a');
+
+    // Stored output changed after the signed return committed to its hash
+    const tampered: RegistryStore = {
+      append: (proofId, record) => registryStore.append(proofId, record),
+      load: proofId => registryStore.load(proofId).map(record =>
+        record.type === 'return' && record.runId === edited.runId ? { ...record, output: { ...(record.output as object), metric: 99 } } : record)
+    };
+
+    const second = depth3Adapter(null);
+    const resumed = new RecursionProofOrchestratorHardened({ spawnAdapter: second.adapter, registryStore: tampered, ...keyConfig });
+    const result = await resumed.resume(crashed.proofId);
+
+    expect(second.calls).toContain('depth2_worker_a');
+    expect(result.ok).toBe(true);
+    expect(validateTrace({ publicKey: result.signature.publicKey, traceEvents: result.trace }).ok).toBe(true);
+  });
+
+  it('should refuse to resume under a different signing key', async () => {
+    const registryStore = new MemoryRegistryStore();
+    const crashed: any = new RecursionProofOrchestratorHardened({
+      spawnAdapter: depth3Adapter('depth3_micro_a').adapter,
+      registryStore,
+      ...keyConfig
+    });
+    await expect(crashed.runDepth3Proof()).rejects.toThrow();
+
+    const other = new RecursionProofOrchestratorHardened({
+      spawnAdapter: depth3Adapter(null).adapter,
+      registryStore,
+      signingMode: 'ed25519',
+      signingPrivateKey: crypto.generateKeyPairSync('ed25519').privateKey
+    });
+
+    await expect(other.resume(crashed.proofId)).rejects.toThrow('resume_key_mismatch');
+  });
+
+  it('should fail loudly for unknown proofs', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({ registryStore: new MemoryRegistryStore() });
+
+    await expect(orchestrator.resume('proof_missing')).rejects.toThrow('proof_not_found: proof_missing');
+  });
+
+  it('should persist to the JSONL runs directory by default', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'confucius-runs-'));
+    const previous = process.env.CONFUCIUS_RUNS_DIR;
+    process.env.CONFUCIUS_RUNS_DIR = dir;
+    try {
+      const orchestrator = new RecursionProofOrchestratorHardened({ spawnAdapter: depth3Adapter(null).adapter, ...keyConfig });
+
+      const result = await orchestrator.runDepth3Proof();
+      expect(result.ok).toBe(true);
+      expect(readdirSync(join(dir, result.proofId)).sort()).toEqual(['registry.jsonl', 'trace.jsonl']);
+    } finally {
+      if (previous === undefined) delete process.env.CONFUCIUS_RUNS_DIR;
+      else process.env.CONFUCIUS_RUNS_DIR = previous;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should persist append-only JSONL under <dir>/<proofId>/', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'confucius-runs-'));
+    try {
+      const store = new JsonlRegistryStore({ dir });
+      const orchestrator: any = new RecursionProofOrchestratorHardened({
+        spawnAdapter: depth3Adapter(null).adapter,
+        registryStore: store,
+        ...keyConfig
+      });
+
+      const result = await orchestrator.runDepth3Proof();
+
+      const traceLines = readFileSync(join(dir, result.proofId, 'trace.jsonl'), 'utf-8').trim().split('\n');
+      expect(traceLines.map(line => JSON.parse(line).eventId)).toEqual(result.trace.map((ev: any) => ev.eventId));
+
+      const registryLines = readFileSync(join(dir, result.proofId, 'registry.jsonl'), 'utf-8').trim().split('\n');
+      expect(JSON.parse(registryLines[0]).type).toBe('header');
+      expect(registryLines.filter(line => JSON.parse(line).type === 'spawn')).toHaveLength(5);
+
+      // A torn final line (crash mid-append) is dropped on load
+      appendFileSync(join(dir, result.proofId, 'registry.jsonl'), '{"type":"ret');
+      expect(store.load(result.proofId).filter(r => r.type === 'return')).toHaveLength(5);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
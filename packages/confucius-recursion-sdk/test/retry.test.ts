@@ -0,0 +1,120 @@
+/**
+ * Quality Gate Retry Test
+ *
+ * Tests prompt-tightening retries: the retry prompt carries the gate errors
+ * and the rejected output, attempts/backoff are configurable per depth, and
+ * every retry is a signed trace event.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecursionProofOrchestratorHardened, tightenPrompt, validateTrace } from '../src/index.js';
+
+describe('Quality Gate Retry Test', () => {
+  it('should retry with the gate errors and rejected output in the prompt', async () => {
+    const prompts: string[] = [];
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: async ({ agentName, prompt }) => {
+        prompts.push(prompt);
+        return { runId: agentName, output: { metric: prompts.length === 1 ? 'high' : 7 } };
+      }
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root', requiredKeys: ['metric'], minNumericCount: 1 });
+
+    expect(result.ok).toBe(true);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).not.toContain('RETRY');
+    expect(prompts[1]).toContain('RETRY (attempt 2)');
+    expect(prompts[1]).toContain('- too_few_numeric_values:0<1');
+    expect(prompts[1]).toContain('"metric": "high"');
+
+    const retries = result.trace.filter((ev: any) => ev.kind === 'retry');
+    expect(retries).toHaveLength(1);
+    expect(retries[0]).toMatchObject({ note: 'attempt:2/2', gateErrors: ['too_few_numeric_values:0<1'] });
+
+    const validation = validateTrace({
+      supervisorSecret: orchestrator.secret,
+      traceEvents: result.trace,
+      registry: orchestrator.registry
+    });
+    expect(validation.ok).toBe(true);
+  });
+
+  it('should detect a tampered retry event', async () => {
+    let calls = 0;
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: async ({ agentName }) => ({ runId: agentName, output: { metric: (calls += 1) > 1 ? 1 : null } })
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root', minNumericCount: 1 });
+    const tampered = result.trace.map((ev: any) => ({ ...ev }));
+    const retry = tampered.find((ev: any) => ev.kind === 'retry');
+    retry.gateErrors = [];
+
+    const validation = validateTrace({ supervisorSecret: orchestrator.secret, traceEvents: tampered });
+
+    expect(validation.ok).toBe(false);
+    expect(validation.errors[0]).toMatchObject({ eventId: retry.eventId, reason: 'bad_signature' });
+  });
+
+  it('should use the per-depth attempt count', async () => {
+    let calls = 0;
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      retry: { maxAttempts: 1 },
+      depthRetry: { 1: { maxAttempts: 3 } },
+      spawnAdapter: async ({ agentName }) => {
+        calls += 1;
+        return { runId: agentName, output: { note: 'placeholder' } };
+      }
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('quality_gate_failed');
+    expect(result.gateErrors).toEqual(['handwave_phrase:placeholder']);
+    expect(calls).toBe(3);
+    expect(result.trace.filter((ev: any) => ev.kind === 'retry').map((ev: any) => ev.note))
+      .toEqual(['attempt:2/3', 'attempt:3/3']);
+  });
+
+  it('should back off between attempts', async () => {
+    const startedAt: number[] = [];
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      retry: { maxAttempts: 3, backoffMs: 20 },
+      spawnAdapter: async ({ agentName }) => {
+        startedAt.push(Date.now());
+        return { runId: agentName, output: { metric: 'tbd' } };
+      }
+    });
+
+    await orchestrator.runTask({ agentName: 'root' });
+
+    expect(startedAt).toHaveLength(3);
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(19);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(39);
+  });
+
+  it('should trim long rejected outputs', () => {
+    const prompt = tightenPrompt({
+      prompt: 'Return JSON.',
+      attempt: 2,
+      gateErrors: ['missing_key:metric'],
+      rejectedOutput: { text: 'x'.repeat(5000) },
+      maxOutputChars: 100
+    });
+
+    expect(prompt.startsWith('Return JSON.')).toBe(true);
+    expect(prompt).toContain('- missing_key:metric');
+    expect(prompt).toMatch(/\[trimmed \d+ chars\]$/);
+    expect(prompt.length).toBeLessThan(400);
+  });
+});
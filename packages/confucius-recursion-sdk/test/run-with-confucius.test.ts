@@ -0,0 +1,135 @@
+/**
+ * runWithConfucius Test
+ *
+ * Tests that the mandatory entrypoint executes the caller's task through
+ * the caller's adapter instead of always producing the canned depth3 proof.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runWithConfucius, MemoryRegistryStore, StandaloneAdapter, type ConfuciusAdapter } from '../src/index.js';
+import crypto from 'crypto';
+
+/**
+ * Fake agentic host: answers by agent name, computes depth3 proofs from the prompt
+ */
+class FakeHostAdapter implements ConfuciusAdapter {
+  prompts: { description: string; prompt: string }[] = [];
+
+  getRuntimeInfo() {
+    return { host: 'copilot' as const, strictMode: true, capabilities: ['runModel', 'runSubagent'] };
+  }
+
+  async runModel(): Promise<string | object> {
+    // Only the planning call goes through runModel
+    return JSON.stringify({
+      goal: 'Review the API',
+      steps: [{ id: 'step_1', agentName: 'reviewer', description: 'Review api.ts' }]
+    });
+  }
+
+  async runSubagent({ description, prompt }: { description: string; prompt: string }): Promise<string> {
+    this.prompts.push({ description, prompt });
+
+    if (description === 'depth1_orchestrator') {
+      return JSON.stringify({
+        spawn_requests: [{ child_name: 'reviewer', input: { file: 'api.ts' } }]
+      });
+    }
+
+    const proofInput = /sha256\("([a-f0-9]+):([^"]+)"\)/.exec(prompt);
+    if (proofInput) {
+      const hashProof = crypto.createHash('sha256').update(`${proofInput[1]}:${proofInput[2]}`).digest('hex');
+      return JSON.stringify({ hashProof, timestamp: Date.now() });
+    }
+
+    return JSON.stringify({ findings: 3 });
+  }
+}
+
+describe('runWithConfucius Test', () => {
+  it('should execute the task through the provided adapter', async () => {
+    const adapter = new FakeHostAdapter();
+
+    const result = await runWithConfucius(
+      { description: 'Review the payments API', input: { repo: './api' } },
+      { adapter, maxDepth: 4, maxSpawns: 10 }
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.result.runtimeMode).toBe('real');
+    expect(result.engagement.hadPlan).toBe(true);
+    expect(result.result.plan.steps[0].agentName).toBe('reviewer');
+    expect(adapter.prompts.map(p => p.description)).toEqual(['depth1_orchestrator', 'reviewer']);
+
+    const tree = result.result.output.tree;
+    expect(tree.children[0].agentName).toBe('reviewer');
+    expect(tree.children[0].output).toEqual({ findings: 3 });
+  });
+
+  it('should record the run in the registryStore passed in', async () => {
+    const registryStore = new MemoryRegistryStore();
+
+    const result = await runWithConfucius('Review the payments API', { adapter: new FakeHostAdapter(), registryStore });
+
+    const records = registryStore.load(result.result.proofId);
+    expect(records[0].type).toBe('header');
+    expect(records.filter(r => r.type === 'event')).toHaveLength(result.result.trace.length);
+  });
+
+  it('should feed the task description and input into the depth1 prompt', async () => {
+    const adapter = new FakeHostAdapter();
+
+    await runWithConfucius(
+      { description: 'Review the payments API', input: { repo: './api' } },
+      { adapter }
+    );
+
+    const depth1Prompt = adapter.prompts[0].prompt;
+    expect(depth1Prompt).toContain('Your task: Review the payments API');
+    expect(depth1Prompt).toContain('"repo": "./api"');
+  });
+
+  it('should accept a plain string task', async () => {
+    const adapter = new FakeHostAdapter();
+
+    await runWithConfucius('Audit contrast', { adapter });
+
+    expect(adapter.prompts[0].prompt).toContain('Your task: Audit contrast');
+  });
+
+  it('should fall back to runModel when the adapter has no runSubagent', async () => {
+    const calls: string[] = [];
+    const adapter: ConfuciusAdapter = {
+      getRuntimeInfo: () => ({ host: 'claude', strictMode: false, capabilities: ['runModel'] }),
+      runModel: async (prompt: string) => {
+        calls.push(prompt);
+        if (prompt.includes('You are the planner')) {
+          return { goal: 'Answer', steps: [{ id: 'step_1', agentName: 'solver', description: 'Answer it' }] };
+        }
+        return { answer: 42 };
+      }
+    };
+
+    const result = await runWithConfucius({ description: 'Answer', input: null }, { adapter, strictMode: false });
+
+    expect(result.ok).toBe(true);
+    expect(calls).toHaveLength(2);
+    expect(result.result.output.tree.output).toEqual({ answer: 42 });
+  });
+
+  it('should simulate when no adapter is provided and none is detected', async () => {
+    const result = await runWithConfucius('Implement feature X', { strictMode: false });
+
+    expect(result.ok).toBe(true);
+    expect(result.result.runtimeMode).toBe('simulated');
+    expect(result.result.spawnsExecuted).toBe(5);
+  });
+
+  it('should plan with the simulation when given a StandaloneAdapter', async () => {
+    const result = await runWithConfucius('Do a thing', { adapter: new StandaloneAdapter() });
+
+    expect(result.ok).toBe(true);
+    expect(result.engagement.hadPlan).toBe(true);
+    expect(result.result?.reason).toBeUndefined();
+  });
+});
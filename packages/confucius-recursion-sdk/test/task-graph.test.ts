@@ -0,0 +1,266 @@
+/**
+ * Task Graph Test
+ *
+ * Tests that runTask follows whatever spawn requests agents return,
+ * instead of the fixed depth1 → 2x depth2 → depth3 shape.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecursionProofOrchestratorHardened } from '../src/index.js';
+
+/**
+ * Scripted adapter: root fans out to 3 children, one of which fans out again
+ */
+const scriptedAdapter = async ({ agentName, input }: { agentName: string; prompt: string; input: any }) => {
+  const runId = `${agentName}_adapter`;
+
+  // Task graph nodes get no proof-of-execution nonce, even at depth 3
+  expect(input.nonce).toBeUndefined();
+
+  switch (agentName) {
+    case 'planner':
+      return {
+        runId,
+        output: {
+          spawn_requests: [
+            { child_name: 'worker_a', input: { task: 'A' } },
+            { child_name: 'worker_b', input: { task: 'B' } },
+            { child_name: 'worker_c', input: { task: 'C' } }
+          ]
+        }
+      };
+    case 'worker_a':
+      return {
+        runId,
+        output: {
+          metric: 1,
+          spawn_requests: [
+            { child_name: 'leaf_a1', input: {} },
+            { child_name: 'leaf_a2', input: {} }
+          ]
+        }
+      };
+    case 'worker_b':
+      return { runId, output: { metric: 2, spawn_request: { child_name: 'leaf_b1', input: {} } } };
+    default:
+      return { runId, output: { metric: 3 } };
+  }
+};
+
+describe('Task Graph Test', () => {
+  it('should follow an arbitrary fan-out shape', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: scriptedAdapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'planner' });
+
+    expect(result.ok).toBe(true);
+    expect(result.spawnsExecuted).toBe(7); // planner + 3 workers + 3 leaves
+    expect(result.deepestDepthReached).toBe(3);
+    expect(result.verification.allSignaturesValid).toBe(true);
+    expect(result.verification.depth3ProofVerified).toBe(true);
+    expect(result.verification.depth3Proofs).toHaveLength(0); // Proof-of-execution is runDepth3Proof only
+
+    const tree = result.output!.tree!;
+    expect(tree.agentName).toBe('planner');
+    expect(tree.children.map(c => c.agentName)).toEqual(['worker_a', 'worker_b', 'worker_c']);
+    expect(tree.children[0].children).toHaveLength(2);
+    expect(tree.children[1].children).toHaveLength(1);
+    expect(tree.children[2].children).toHaveLength(0);
+    expect(tree.children[0].children[0].output).toEqual({ metric: 3 });
+  });
+
+  it('should link every spawn to its parent run in the trace', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: scriptedAdapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'planner' });
+    const tree = result.output!.tree!;
+
+    const spawnEvents = result.trace.filter((ev: any) => ev.kind === 'spawn');
+    const leafSpawn = spawnEvents.find((ev: any) => ev.childRunId === tree.children[0].children[0].runId);
+
+    expect(leafSpawn.parentRunId).toBe(tree.children[0].runId);
+    expect(leafSpawn.depth).toBe(3);
+  });
+
+  it('should fail when the graph exceeds maxSpawns', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 5,
+      spawnAdapter: scriptedAdapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'planner' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('spawn_limit');
+    expect(result.spawnsExecuted).toBe(5);
+  });
+
+  it('should fail when the graph exceeds maxDepth', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 3,
+      maxSpawns: 10,
+      spawnAdapter: scriptedAdapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'planner' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('depth_limit');
+  });
+
+  it('should reject spawn requests without a child_name', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      spawnAdapter: async ({ agentName }) => ({
+        runId: agentName,
+        output: { spawn_requests: [{ input: {} }] }
+      })
+    });
+
+    const result = await orchestrator.runTask();
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('quality_gate_failed');
+    expect(result.gateErrors).toContain('spawn_requests[0].child_name: required');
+  });
+
+  it('should reproduce the depth3 fan-out in simulation mode', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      strictMode: false
+    });
+
+    const result = await orchestrator.runTask();
+
+    expect(result.ok).toBe(true);
+    expect(result.spawnsExecuted).toBe(5);
+    expect(result.runtimeMode).toBe('simulated');
+    expect(result.trace.some((ev: any) => ev.note === 'merged_task_graph_results')).toBe(true);
+  });
+});
+
+describe('Task Graph Concurrency Test', () => {
+  /**
+   * Adapter that fans out `width` leaves and records how many calls overlap
+   */
+  const wideAdapter = (width: number, delayMs: number) => {
+    const stats = { inFlight: 0, peak: 0 };
+    const adapter = async ({ agentName }: { agentName: string; prompt: string; input: any }) => {
+      if (agentName === 'root') {
+        const spawn_requests = Array.from({ length: width }, (_, i) => ({ child_name: `leaf_${i}`, input: {} }));
+        return { runId: agentName, output: { spawn_requests } };
+      }
+      stats.inFlight += 1;
+      stats.peak = Math.max(stats.peak, stats.inFlight);
+      // Later siblings finish first to prove ordering does not follow completion
+      const idx = Number(agentName.split('_')[1]);
+      await new Promise(r => setTimeout(r, delayMs * (width - idx)));
+      stats.inFlight -= 1;
+      return { runId: agentName, output: { metric: idx } };
+    };
+    return { adapter, stats };
+  };
+
+  it('should dispatch siblings concurrently up to maxConcurrency', async () => {
+    const { adapter, stats } = wideAdapter(6, 5);
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      maxConcurrency: 3,
+      spawnAdapter: adapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(true);
+    expect(stats.peak).toBe(3);
+  });
+
+  it('should run siblings one at a time when maxConcurrency is 1', async () => {
+    const { adapter, stats } = wideAdapter(4, 1);
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      maxConcurrency: 1,
+      spawnAdapter: adapter
+    });
+
+    await orchestrator.runTask({ agentName: 'root' });
+
+    expect(stats.peak).toBe(1);
+  });
+
+  it('should keep children in request order and sign sibling indexes', async () => {
+    const { adapter } = wideAdapter(4, 2);
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      maxConcurrency: 4,
+      spawnAdapter: adapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+    const tree = result.output!.tree!;
+
+    expect(tree.children.map(c => c.agentName)).toEqual(['leaf_0', 'leaf_1', 'leaf_2', 'leaf_3']);
+
+    // Returns arrive in completion order; siblingIndex restores request order
+    const returns = result.trace.filter((ev: any) => ev.kind === 'return' && ev.parentRunId === tree.runId);
+    expect(returns.map((ev: any) => ev.siblingIndex)).toEqual([3, 2, 1, 0]);
+    expect(result.verification.allSignaturesValid).toBe(true);
+  });
+
+  it('should cap in-flight spawns across the whole tree, not per sibling group', async () => {
+    const stats = { inFlight: 0, peak: 0 };
+    // Two levels of fan-out: per-group limits alone would allow 2 × 2 leaves at once
+    const adapter = async ({ agentName }: { agentName: string; prompt: string; input: any }) => {
+      stats.inFlight += 1;
+      stats.peak = Math.max(stats.peak, stats.inFlight);
+      await new Promise(r => setTimeout(r, 5));
+      stats.inFlight -= 1;
+      const spawn_requests = agentName === 'root' || agentName.startsWith('mid')
+        ? [0, 1].map(i => ({ child_name: agentName === 'root' ? `mid_${i}` : `leaf_${agentName}_${i}`, input: {} }))
+        : [];
+      return { runId: agentName, output: spawn_requests.length ? { spawn_requests } : { metric: 1 } };
+    };
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      maxConcurrency: 2,
+      spawnAdapter: adapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(true);
+    expect(result.spawnsExecuted).toBe(7);
+    expect(stats.peak).toBe(2);
+  });
+
+  it('should never exceed maxSpawns with concurrent siblings', async () => {
+    const { adapter } = wideAdapter(8, 1);
+    const orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 5,
+      maxConcurrency: 8,
+      spawnAdapter: adapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('spawn_limit');
+    expect(result.spawnsExecuted).toBe(5);
+  });
+});
@@ -7,6 +7,8 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { RecursionProofOrchestratorHardened, validateTrace, loadSupervisorSecret } from '../src/index.js';
+import { signEvent } from '../src/orchestrator/supervisor-crypto.js';
+import { canonicalPayload } from '../src/orchestrator/signed-trace.js';
 import crypto from 'crypto';
 
 describe('Trace Signature Verification Test', () => {
@@ -195,3 +197,87 @@ describe('Trace Signature Verification Test', () => {
     expect(hashMismatch).toBeTruthy();
   });
 });
+
+describe('Trace Hash Chain Test', () => {
+  let orchestrator: any;
+
+  beforeEach(() => {
+    orchestrator = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      strictMode: false
+    });
+  });
+
+  const validate = (traceEvents: any[]) => validateTrace({
+    supervisorSecret: orchestrator.secret,
+    traceEvents,
+    registry: orchestrator.registry
+  });
+
+  it('should link every event to its predecessor', async () => {
+    const result = await orchestrator.runDepth3Proof();
+
+    expect(result.trace[0].prevSig).toBeNull();
+    for (let i = 1; i < result.trace.length; i += 1) {
+      expect(result.trace[i].prevSig).toBe(result.trace[i - 1].supervisorSig);
+      expect(result.trace[i].chainHead).not.toBe(result.trace[i - 1].chainHead);
+    }
+    expect(validate(result.trace).ok).toBe(true);
+  });
+
+  it('should report event_missing when an event is dropped', async () => {
+    const result = await orchestrator.runDepth3Proof();
+    const limit = result.trace.find((ev: any) => ev.kind === 'limit');
+    const dropped = result.trace.filter((ev: any) => ev !== limit);
+
+    const validation = validate(dropped);
+
+    expect(validation.ok).toBe(false);
+    expect(validation.errors).toEqual([
+      expect.objectContaining({ eventId: limit.eventId + 1, reason: 'event_missing', expected: String(limit.eventId) })
+    ]);
+  });
+
+  it('should report trace_truncated against the signed anchor', async () => {
+    const result = await orchestrator.runDepth3Proof();
+    const anchor = result.signature.anchor;
+
+    expect(anchor.eventCount).toBe(result.trace.length);
+    expect(validateTrace({ supervisorSecret: orchestrator.secret, traceEvents: result.trace, anchor }).ok).toBe(true);
+
+    const validation = validateTrace({ supervisorSecret: orchestrator.secret, traceEvents: result.trace.slice(0, -1), anchor });
+    expect(validation.errors).toEqual([expect.objectContaining({ reason: 'trace_truncated', eventId: anchor.lastEventId })]);
+
+    const forged = validateTrace({ supervisorSecret: orchestrator.secret, traceEvents: result.trace, anchor: { ...anchor, eventCount: anchor.eventCount - 1 } });
+    expect(forged.errors.map((e: any) => e.reason)).toEqual(['anchor_bad_signature']);
+  });
+
+  it('should report event_reordered when events are swapped', async () => {
+    const result = await orchestrator.runDepth3Proof();
+    const reordered = result.trace.slice();
+    [reordered[2], reordered[3]] = [reordered[3], reordered[2]];
+
+    const validation = validate(reordered);
+
+    expect(validation.ok).toBe(false);
+    expect(validation.errors).toEqual([
+      expect.objectContaining({ eventId: reordered[3].eventId, reason: 'event_reordered' })
+    ]);
+  });
+
+  it('should report chain_broken when an event is relinked and re-signed', async () => {
+    const result = await orchestrator.runDepth3Proof();
+    const relinked = result.trace.map((ev: any) => ({ ...ev }));
+    const target = relinked[4];
+
+    // Holder of the secret re-signs one event with a forged link
+    target.prevSig = relinked[2].supervisorSig;
+    target.supervisorSig = signEvent(orchestrator.secret, canonicalPayload(target));
+
+    const validation = validate(relinked);
+
+    expect(validation.errors.find((e: any) => e.reason === 'chain_broken')?.eventId).toBe(target.eventId);
+    expect(validation.errors.some((e: any) => e.reason === 'bad_signature' && e.eventId === target.eventId)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Usage Accounting Test
+ *
+ * Tests token/cost usage reported by adapters: per-run and per-subtree
+ * roll-up, maxTokens / maxCost budgets enforced by the spawn gate, and
+ * usage captured from an HTTP chat endpoint.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RecursionProofOrchestratorHardened,
+  HttpChatAdapter,
+  startMockChatServer,
+  runWithConfucius,
+  validateTrace,
+  type SpawnAdapter
+} from '../src/index.js';
+
+/**
+ * Root asks for two children; every call reports 60 + 40 tokens costing 0.01
+ */
+const fanOutAdapter: SpawnAdapter = async ({ agentName }) => ({
+  runId: agentName,
+  output: agentName === 'root'
+    ? { summary: 'root', spawn_requests: [{ child_name: 'child_a', input: {} }, { child_name: 'child_b', input: {} }] }
+    : { summary: agentName },
+  usage: { promptTokens: 60, completionTokens: 40, cost: 0.01 }
+});
+
+describe('Usage Accounting Test', () => {
+  it('should roll usage up per run, per subtree and per proof', async () => {
+    const orchestrator: any = new RecursionProofOrchestratorHardened({ maxDepth: 4, maxSpawns: 10, spawnAdapter: fanOutAdapter });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(true);
+    expect(result.usage).toEqual({ promptTokens: 180, completionTokens: 120, totalTokens: 300, cost: 0.03 });
+    expect(result.output.tree.usage.totalTokens).toBe(300);
+    expect(result.output.tree.children[0].usage.totalTokens).toBe(100);
+    expect(orchestrator.registry.getUsage(result.output.tree.children[1].runId).totalTokens).toBe(100);
+  });
+
+  it('should refuse spawns past maxTokens with a signed token_budget limit', async () => {
+    const orchestrator: any = new RecursionProofOrchestratorHardened({
+      maxDepth: 4,
+      maxSpawns: 10,
+      maxTokens: 150,
+      maxConcurrency: 1,
+      spawnAdapter: fanOutAdapter
+    });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('token_budget');
+    expect(result.spawnsExecuted).toBe(2);
+    expect(result.usage.totalTokens).toBe(200);
+    const limit = result.trace.find((ev: any) => ev.kind === 'limit');
+    expect(limit.note).toBe('token_budget');
+    expect(validateTrace({ supervisorSecret: orchestrator.secret, traceEvents: result.trace, registry: orchestrator.registry }).ok).toBe(true);
+  });
+
+  it('should refuse spawns past maxCost', async () => {
+    const orchestrator = new RecursionProofOrchestratorHardened({ maxDepth: 4, maxSpawns: 10, maxCost: 0.01, spawnAdapter: fanOutAdapter });
+
+    const result = await orchestrator.runTask({ agentName: 'root' });
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('token_budget');
+    expect(result.spawnsExecuted).toBe(1);
+  });
+
+  it('should capture usage from an HTTP chat endpoint', async () => {
+    const server = await startMockChatServer({
+      respond: req => (req.messages[0].content.includes('"depth1_orchestrator"')
+        ? { summary: 'reviewed' }
+        : { goal: 'Review', steps: [{ id: 'step_1', agentName: 'reviewer', description: 'Review' }] })
+    });
+    try {
+      const subagentTokens: number[] = [];
+      const adapter = new HttpChatAdapter({
+        baseUrl: server.url,
+        model: 'm',
+        pricing: { promptPer1k: 1, completionPer1k: 2 },
+        onUsage: (usage, call) => {
+          if (call.kind === 'runSubagent') subagentTokens.push(usage.totalTokens);
+        }
+      });
+
+      const result = await runWithConfucius('Review the payments API', { adapter });
+
+      expect(result.ok).toBe(true);
+      expect(result.result.usage.totalTokens).toBe(subagentTokens.reduce((a, b) => a + b, 0));
+      expect(result.result.usage.cost).toBeGreaterThan(0);
+      expect(adapter.usage.requests).toBe(2);
+    } finally {
+      await server.close();
+    }
+  });
+});
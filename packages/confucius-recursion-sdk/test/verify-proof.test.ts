@@ -0,0 +1,156 @@
+/**
+ * Proof Verifier Test
+ *
+ * Tests that stored proof artifacts are re-verified after the fact:
+ * signatures, hash chain and depth3 hashProofs (bound to their signed
+ * spawns), with distinct exit codes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RecursionProofOrchestratorHardened, verifyProof, VERIFY_EXIT_CODES } from '../src/index.js';
+import crypto from 'crypto';
+
+/**
+ * Run the simulated depth3 proof and serialize it like last-proof.json
+ */
+async function writeProof(config: Record<string, unknown> = {}) {
+  const orchestrator: any = new RecursionProofOrchestratorHardened({
+    maxDepth: 4,
+    maxSpawns: 10,
+    strictMode: false,
+    ...config
+  });
+  const result = await orchestrator.runDepth3Proof();
+  return { orchestrator, artifact: JSON.parse(JSON.stringify(result)) };
+}
+
+describe('Proof Verifier Test', () => {
+  it('should verify an untouched HMAC proof with the secret', async () => {
+    const { orchestrator, artifact } = await writeProof();
+
+    const verdict = verifyProof(artifact, { secret: orchestrator.secret });
+
+    expect(verdict.ok).toBe(true);
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.ok);
+    expect(verdict.algorithm).toBe('hmac-sha256');
+    expect(verdict.eventsChecked).toBe(artifact.trace.length);
+    expect(verdict.depth3ProofsChecked).toBe(2);
+  });
+
+  it('should verify an Ed25519 proof with only a pinned fingerprint', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const { artifact } = await writeProof({ signingMode: 'ed25519', signingPrivateKey: privateKey });
+
+    const verdict = verifyProof(artifact, { fingerprint: artifact.signature.publicKeyFingerprint });
+
+    expect(verdict.ok).toBe(true);
+    expect(verdict.keySource).toBe('embedded');
+  });
+
+  it('should refuse an Ed25519 proof without a supplied or pinned key', async () => {
+    const { artifact } = await writeProof({ signingMode: 'ed25519', signingPrivateKey: crypto.generateKeyPairSync('ed25519').privateKey });
+
+    const verdict = verifyProof(artifact, {});
+
+    expect(verdict.errors[0].code).toBe('key_missing');
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.usage);
+  });
+
+  it('should report tampered events with their eventId', async () => {
+    const { orchestrator, artifact } = await writeProof();
+    artifact.trace[2].note = 'forged';
+
+    const verdict = verifyProof(artifact, { secret: orchestrator.secret });
+
+    expect(verdict.ok).toBe(false);
+    expect(verdict.errors).toContainEqual({ code: 'bad_signature', eventId: artifact.trace[2].eventId });
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.trace_invalid);
+  });
+
+  it('should detect trailing events dropped from the trace', async () => {
+    const { orchestrator, artifact } = await writeProof();
+    const truncated = { ...artifact, trace: artifact.trace.slice(0, -3) };
+
+    const verdict = verifyProof(truncated, { secret: orchestrator.secret });
+
+    expect(verdict.ok).toBe(false);
+    expect(verdict.errors).toEqual([{ code: 'trace_truncated', eventId: artifact.trace[artifact.trace.length - 1].eventId }]);
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.trace_invalid);
+
+    const { anchor: _anchor, ...unanchored } = artifact.signature;
+    const stripped = verifyProof({ ...truncated, signature: unanchored }, { secret: orchestrator.secret });
+    expect(stripped.errors.map(e => e.code)).toEqual(['anchor_missing']);
+    expect(stripped.exitCode).toBe(VERIFY_EXIT_CODES.trace_invalid);
+  });
+
+  it('should fail with the trace exit code under the wrong secret', async () => {
+    const { artifact } = await writeProof();
+
+    const verdict = verifyProof(artifact, { secret: crypto.randomBytes(32) });
+
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.trace_invalid);
+  });
+
+  it('should recompute depth3 hashProofs from their nonces', async () => {
+    const { orchestrator, artifact } = await writeProof();
+    artifact.verification.depth3Proofs[0].hashProof = 'ab'.repeat(32);
+    artifact.verification.depth3Proofs[1].runId = 'depth3_fabricated';
+    artifact.verification.depth3Proofs[1].hashProof = crypto
+      .createHash('sha256')
+      .update(`${artifact.verification.depth3Proofs[1].nonce}:depth3_fabricated`)
+      .digest('hex');
+
+    const verdict = verifyProof(artifact, { secret: orchestrator.secret });
+
+    expect(verdict.errors.map(e => e.code)).toEqual(['depth3_hash_mismatch', 'depth3_run_not_in_trace', 'depth3_proof_missing']);
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.depth3_invalid);
+  });
+
+  it('should reject a made-up nonce with a matching hashProof', async () => {
+    const { orchestrator, artifact } = await writeProof();
+    const forged = artifact.verification.depth3Proofs[0];
+    forged.nonce = 'cd'.repeat(16);
+    forged.hashProof = crypto.createHash('sha256').update(`${forged.nonce}:${forged.runId}`).digest('hex');
+
+    const verdict = verifyProof(artifact, { secret: orchestrator.secret });
+
+    expect(verdict.errors).toEqual([expect.objectContaining({ code: 'depth3_nonce_mismatch', runId: forged.runId })]);
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.depth3_invalid);
+  });
+
+  it('should require one proof per signed depth3 return', async () => {
+    const { orchestrator, artifact } = await writeProof();
+    const runIds = artifact.verification.depth3Proofs.map((p: { runId: string }) => p.runId);
+
+    const emptied = verifyProof({ ...artifact, verification: { ...artifact.verification, depth3Proofs: [] } }, { secret: orchestrator.secret });
+    expect(emptied.ok).toBe(false);
+    expect(emptied.errors).toEqual(runIds.map((runId: string) => ({ code: 'depth3_proof_missing', runId })));
+
+    const [first] = artifact.verification.depth3Proofs;
+    const doubled = verifyProof({ ...artifact, verification: { ...artifact.verification, depth3Proofs: [first, first] } }, { secret: orchestrator.secret });
+    expect(doubled.errors.map(e => e.code)).toEqual(['depth3_proof_duplicate', 'depth3_proof_missing']);
+  });
+
+  it('should read the nested proof written by runWithConfucius', async () => {
+    const { orchestrator, artifact } = await writeProof();
+    const wrapped = { ok: true, trace: [{ kind: 'preflight_ok', ts: 1 }, ...artifact.trace], result: artifact };
+
+    expect(verifyProof(wrapped, { secret: orchestrator.secret }).ok).toBe(true);
+  });
+
+  it('should flag artifacts without a trace as unreadable', () => {
+    const verdict = verifyProof({ ok: true }, { secret: crypto.randomBytes(32) });
+
+    expect(verdict.errors[0].code).toBe('trace_missing');
+    expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.proof_unreadable);
+  });
+
+  it('should flag malformed trace entries as unreadable instead of a key error', () => {
+    for (const trace of [[null], [42], [{ kind: 'spawn' }]]) {
+      const verdict = verifyProof({ trace }, { secret: crypto.randomBytes(32) });
+
+      expect(verdict.errors).toEqual([{ code: 'proof_malformed', message: 'trace[0] is not a signed trace event' }]);
+      expect(verdict.exitCode).toBe(VERIFY_EXIT_CODES.proof_unreadable);
+    }
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Worker Manager Test
+ *
+ * Tests main-thread routing of worker messages with a scripted in-process
+ * worker: the ready handshake, requestModel going to adapter.runModel,
+ * traceEvent to onTraceEvent, protocol errors for unknown, malformed,
+ * early or mismatched-version messages, heartbeat liveness, and worker log
+ * lines handed to the caller's logger.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import {
+  runWithWorker,
+  parseMainToWorkerMessage,
+  PROTOCOL_VERSION,
+  type ConfuciusAdapter,
+  type MainToWorkerMessage,
+  type WorkerHandle
+} from '../src/index.js';
+
+/**
+ * Worker double: announces `hello` (the ready message, unless null), then
+ * `script` answers each message main posts
+ */
+class ScriptedWorker extends EventEmitter implements WorkerHandle {
+  received: MainToWorkerMessage[] = [];
+  terminated = false;
+
+  constructor(
+    private script: (msg: MainToWorkerMessage, send: (msg: unknown) => void) => void,
+    hello: unknown = { type: 'ready', protocolVersion: PROTOCOL_VERSION }
+  ) {
+    super();
+    if (hello !== null) setImmediate(() => this.emit('message', hello));
+  }
+
+  postMessage(msg: MainToWorkerMessage): void {
+    this.received.push(msg);
+    setImmediate(() => this.script(msg, reply => this.emit('message', reply)));
+  }
+
+  async terminate(): Promise<number> {
+    this.terminated = true;
+    return 0;
+  }
+}
+
+const adapter: ConfuciusAdapter = {
+  getRuntimeInfo: () => ({ host: 'copilot', strictMode: false, capabilities: ['runModel', 'runSubagent'] }),
+  runModel: async prompt => JSON.stringify({ echoed: prompt }),
+  runSubagent: async () => '{}'
+};
+
+describe('Worker Manager Test', () => {
+  it('should answer requestModel with adapter.runModel and stream trace events', async () => {
+    const events: any[] = [];
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type === 'runTask') send({ type: 'requestModel', id: 'm1', prompt: 'plan this', input: {} });
+      if (msg.type === 'modelResponse') {
+        send({ type: 'traceEvent', event: { kind: 'plan_created', eventId: 1 } });
+        send({ type: 'done', result: { ok: true, plan: msg.output } });
+      }
+    });
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      plan: true,
+      onTraceEvent: event => events.push(event),
+      createWorker: () => worker
+    });
+
+    expect(result).toEqual({ ok: true, result: { ok: true, plan: { echoed: 'plan this' } } });
+    expect(worker.received[0]).toMatchObject({ type: 'runTask', protocolVersion: PROTOCOL_VERSION, task: 'Audit', plan: true });
+    expect(events).toEqual([{ kind: 'plan_created', eventId: 1 }]);
+  });
+
+  it('should send runModel errors back to the worker', async () => {
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type === 'runTask') send({ type: 'requestModel', id: 'm1', prompt: 'plan', input: {} });
+      if (msg.type === 'modelResponse') send({ type: 'fail', reason: 'plan_failed', error: msg.error });
+    });
+
+    const result = await runWithWorker('Audit', {
+      adapter: { ...adapter, runModel: async () => { throw new Error('model offline'); } },
+      strictMode: false,
+      createWorker: () => worker
+    });
+
+    expect(result).toEqual({ ok: false, reason: 'plan_failed', error: 'model offline' });
+  });
+
+  it('should fail with protocol_error on unknown message types', async () => {
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type === 'runTask') send({ type: 'requestTool', id: 't1' });
+    });
+
+    const result = await runWithWorker('Audit', { adapter, strictMode: false, createWorker: () => worker });
+
+    expect(result).toMatchObject({ ok: false, reason: 'protocol_error' });
+    expect(result.error).toContain('invalid requestTool message');
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should fail with protocol_error on a malformed message', async () => {
+    let spawned = false;
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type === 'runTask') send({ type: 'requestSpawn', id: 's1', prompt: 'go', input: {} });
+    });
+
+    const result = await runWithWorker('Audit', {
+      adapter: { ...adapter, runSubagent: async () => { spawned = true; return '{}'; } },
+      strictMode: false,
+      createWorker: () => worker
+    });
+
+    expect(result).toMatchObject({ ok: false, reason: 'protocol_error' });
+    expect(result.error).toContain('agentName');
+    expect(spawned).toBe(false);
+  });
+
+  it('should refuse a worker speaking another protocol version', async () => {
+    const worker = new ScriptedWorker(() => {}, { type: 'ready', protocolVersion: PROTOCOL_VERSION + 1 });
+
+    const result = await runWithWorker('Audit', { adapter, strictMode: false, createWorker: () => worker });
+
+    expect(result).toMatchObject({ ok: false, reason: 'protocol_error' });
+    expect(result.error).toContain('protocol version mismatch');
+    expect(worker.received).toEqual([]);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should refuse messages before the ready handshake', async () => {
+    const worker = new ScriptedWorker(() => {}, { type: 'done', result: {} });
+
+    const result = await runWithWorker('Audit', { adapter, strictMode: false, createWorker: () => worker });
+
+    expect(result).toEqual({ ok: false, reason: 'protocol_error', error: 'done message before ready' });
+  });
+
+  it('should give up on a silent worker and report what it was waiting on', async () => {
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type === 'runTask') {
+        send({ type: 'traceEvent', event: { kind: 'spawn', eventId: 1, agentName: 'depth1_orchestrator' } });
+        send({ type: 'requestSpawn', id: 's1', agentName: 'depth1_orchestrator', prompt: 'go', input: {} });
+      }
+      // The reply is never acted on: one heartbeat still lists s1, then silence
+      if (msg.type === 'modelResult') send({ type: 'heartbeat', pending: ['s1'] });
+    });
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      livenessTimeoutMs: 100,
+      createWorker: () => worker
+    });
+
+    expect(result).toMatchObject({
+      ok: false,
+      reason: 'worker_unresponsive',
+      error: 'no heartbeat from the worker for 100ms',
+      lastTraceEvent: { kind: 'spawn', eventId: 1 },
+      outstandingRequests: [{ id: 's1', kind: 'spawn', agentName: 'depth1_orchestrator', answered: true }]
+    });
+    // Timers may fire a millisecond early against Date.now()
+    expect(result.outstandingRequests?.[0].ageMs).toBeGreaterThanOrEqual(95);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should give up on a worker whose heartbeats keep listing an answered request', async () => {
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type === 'runTask') send({ type: 'requestSpawn', id: 's1', agentName: 'depth1_orchestrator', prompt: 'go', input: {} });
+      // The reply is lost: the worker keeps beating, still waiting on s1
+      if (msg.type === 'modelResult') {
+        const beat = setInterval(() => {
+          if (worker.terminated) clearInterval(beat);
+          else send({ type: 'heartbeat', pending: ['s1'] });
+        }, 20);
+      }
+    });
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      livenessTimeoutMs: 100,
+      createWorker: () => worker
+    });
+
+    expect(result).toMatchObject({
+      ok: false,
+      reason: 'worker_unresponsive',
+      outstandingRequests: [{ id: 's1', kind: 'spawn', answered: true }]
+    });
+    expect(result.error).toMatch(/no progress/);
+  });
+
+  it('should keep a busy worker alive while it sends heartbeats', async () => {
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type !== 'runTask') return;
+      const beat = setInterval(() => send({ type: 'heartbeat', pending: [] }), msg.heartbeatIntervalMs);
+      setTimeout(() => {
+        clearInterval(beat);
+        send({ type: 'done', result: { ok: true } });
+      }, 300);
+    });
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      livenessTimeoutMs: 100,
+      createWorker: () => worker
+    });
+
+    expect(result).toEqual({ ok: true, result: { ok: true } });
+    expect(worker.received[0]).toMatchObject({ type: 'runTask', heartbeatIntervalMs: 33 });
+  });
+
+  it('should hand worker log lines to the logger at their level', async () => {
+    const lines: [string, string, unknown][] = [];
+    const record = (level: string) => (event: string, fields?: unknown) => { lines.push([level, event, fields]); };
+    const worker = new ScriptedWorker((msg, send) => {
+      if (msg.type !== 'runTask') return;
+      send({ type: 'progress', message: 'Worker: Starting orchestration...' });
+      send({ type: 'progress', level: 'warn', event: 'supervisor.ephemeral_secret', message: 'Using ephemeral supervisor secret' });
+      send({ type: 'done', result: {} });
+    });
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      logger: { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') },
+      createWorker: () => worker
+    });
+
+    expect(result.ok).toBe(true);
+    expect(lines).toEqual([
+      ['info', 'worker.progress', { message: 'Worker: Starting orchestration...' }],
+      ['warn', 'supervisor.ephemeral_secret', { message: 'Using ephemeral supervisor secret' }]
+    ]);
+  });
+
+  it('should validate messages sent to the worker', () => {
+    expect(parseMainToWorkerMessage({ type: 'runTask', protocolVersion: PROTOCOL_VERSION, task: 'Audit', strictMode: true }).ok).toBe(true);
+
+    const missingVersion = parseMainToWorkerMessage({ type: 'runTask', task: 'Audit', strictMode: true });
+    expect(missingVersion.ok).toBe(false);
+    expect(!missingVersion.ok && missingVersion.error).toContain('protocolVersion');
+
+    expect(parseMainToWorkerMessage({ type: 'modelResult', id: 'x', result: { runId: 'r' } }).ok).toBe(false);
+    expect(parseMainToWorkerMessage(null).ok).toBe(false);
+  });
+});
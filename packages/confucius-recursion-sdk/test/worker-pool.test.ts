@@ -0,0 +1,186 @@
+/**
+ * Worker Pool Test
+ *
+ * Tests WorkerPool with scripted in-process workers: warm workers reused
+ * across tasks, queue and metrics, per-task options and trace routing,
+ * replacement of broken workers, and drained vs. forced shutdown.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EventEmitter, getEventListeners } from 'events';
+import {
+  WorkerPool,
+  PROTOCOL_VERSION,
+  type ConfuciusAdapter,
+  type MainToWorkerMessage,
+  type WorkerHandle
+} from '../src/index.js';
+
+type Script = (msg: MainToWorkerMessage, send: (msg: unknown) => void) => void;
+
+/**
+ * Worker double: sends ready, then `script` answers each message main posts
+ */
+class ScriptedWorker extends EventEmitter implements WorkerHandle {
+  received: MainToWorkerMessage[] = [];
+  terminated = false;
+
+  constructor(private script: Script) {
+    super();
+    setImmediate(() => this.emit('message', { type: 'ready', protocolVersion: PROTOCOL_VERSION }));
+  }
+
+  postMessage(msg: MainToWorkerMessage): void {
+    this.received.push(msg);
+    setImmediate(() => this.script(msg, reply => this.emit('message', reply)));
+  }
+
+  async terminate(): Promise<number> {
+    this.terminated = true;
+    return 0;
+  }
+}
+
+const adapter: ConfuciusAdapter = {
+  getRuntimeInfo: () => ({ host: 'copilot', strictMode: false, capabilities: ['runModel', 'runSubagent'] }),
+  runModel: async () => '{}',
+  runSubagent: async () => '{}'
+};
+
+/**
+ * Pool over scripted workers; `workers` lists every worker it created
+ */
+function scriptedPool(script: Script, size = 2) {
+  const workers: ScriptedWorker[] = [];
+  const pool = new WorkerPool({
+    adapter,
+    strictMode: false,
+    size,
+    createWorker: () => {
+      const worker = new ScriptedWorker(script);
+      workers.push(worker);
+      return worker;
+    }
+  });
+  return { pool, workers };
+}
+
+const echoTask: Script = (msg, send) => {
+  if (msg.type === 'runTask') send({ type: 'done', result: { task: msg.task } });
+};
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Worker Pool Test', () => {
+  it('should run many tasks on a fixed set of warm workers', async () => {
+    const { pool, workers } = scriptedPool(echoTask, 2);
+
+    const tasks = ['a', 'b', 'c', 'd', 'e'];
+    const results = await Promise.all(tasks.map(task => pool.run(task)));
+
+    expect(results.map(r => r.result)).toEqual(tasks.map(task => ({ task })));
+    expect(workers).toHaveLength(2);
+    expect(workers.reduce((n, w) => n + w.received.length, 0)).toBe(5);
+    expect(pool.metrics()).toMatchObject({ size: 2, workers: 2, idle: 2, queued: 0, active: 0, completed: 5, failed: 0 });
+
+    await pool.shutdown();
+    expect(workers.every(w => w.terminated)).toBe(true);
+  });
+
+  it('should report queued and active tasks while workers are busy', async () => {
+    const pending: (() => void)[] = [];
+    const { pool } = scriptedPool((msg, send) => {
+      if (msg.type === 'runTask') pending.push(() => send({ type: 'done', result: {} }));
+    }, 2);
+
+    const runs = ['a', 'b', 'c'].map(task => pool.run(task));
+    while (pending.length < 2) await tick();
+
+    expect(pool.metrics()).toMatchObject({ queued: 1, active: 2, completed: 0 });
+
+    while (pool.metrics().completed < 3) {
+      pending.shift()?.();
+      await tick();
+    }
+    await Promise.all(runs);
+    expect(pool.metrics()).toMatchObject({ queued: 0, active: 0, completed: 3 });
+    await pool.shutdown();
+  });
+
+  it('should apply per-task options and route trace events to their task', async () => {
+    const { pool, workers } = scriptedPool((msg, send) => {
+      if (msg.type !== 'runTask') return;
+      send({ type: 'traceEvent', event: { kind: 'spawn', eventId: 1, agentName: msg.task } });
+      send({ type: 'done', result: {} });
+    }, 1);
+
+    const seen: Record<string, string[]> = { a: [], b: [] };
+    await Promise.all([
+      pool.run('a', { maxSpawns: 3, onTraceEvent: e => seen.a.push(e.agentName) }),
+      pool.run('b', { onTraceEvent: e => seen.b.push(e.agentName) })
+    ]);
+
+    expect(seen).toEqual({ a: ['a'], b: ['b'] });
+    expect(workers[0].received).toMatchObject([
+      { type: 'runTask', task: 'a', maxSpawns: 3 },
+      { type: 'runTask', task: 'b', maxSpawns: 10 }
+    ]);
+    await pool.shutdown();
+  });
+
+  it('should leave no abort listeners on a long-lived signal once tasks settle', async () => {
+    const { pool } = scriptedPool(echoTask, 1);
+    const session = new AbortController();
+
+    // One task runs at a time, so the others wait in the queue first
+    await Promise.all(['a', 'b', 'c'].map(task => pool.run(task, { signal: session.signal })));
+
+    expect(getEventListeners(session.signal, 'abort')).toHaveLength(0);
+    await pool.shutdown();
+  });
+
+  it('should keep a worker after a clean failure and replace one that broke the protocol', async () => {
+    const { pool, workers } = scriptedPool((msg, send) => {
+      if (msg.type !== 'runTask') return;
+      if (msg.task === 'fails') send({ type: 'fail', reason: 'quality_gate_failed', error: 'bad output' });
+      else if (msg.task === 'garbles') send({ type: 'requestTool' });
+      else send({ type: 'done', result: {} });
+    }, 1);
+
+    expect(await pool.run('fails')).toEqual({ ok: false, reason: 'quality_gate_failed', error: 'bad output' });
+    expect(workers).toHaveLength(1);
+
+    expect(await pool.run('garbles')).toMatchObject({ ok: false, reason: 'protocol_error' });
+    expect(workers[0].terminated).toBe(true);
+
+    expect(await pool.run('works')).toEqual({ ok: true, result: {} });
+    expect(workers).toHaveLength(2);
+    expect(pool.metrics()).toMatchObject({ workers: 1, completed: 1, failed: 2 });
+    await pool.shutdown();
+  });
+
+  it('should drain queued tasks on shutdown and refuse new ones', async () => {
+    const { pool } = scriptedPool(echoTask, 1);
+
+    const runs = ['a', 'b', 'c'].map(task => pool.run(task));
+    await pool.shutdown();
+
+    expect((await Promise.all(runs)).every(r => r.ok)).toBe(true);
+    expect(await pool.run('late')).toMatchObject({ ok: false, reason: 'pool_closed' });
+    expect(pool.metrics()).toMatchObject({ workers: 0, completed: 3, failed: 1 });
+  });
+
+  it('should cancel running and queued tasks on a forced shutdown', async () => {
+    const { pool, workers } = scriptedPool(() => {}, 1);
+
+    const running = pool.run('a');
+    const queued = pool.run('b');
+    while (pool.metrics().active < 1) await tick();
+
+    await pool.shutdown({ drain: false });
+
+    expect(await running).toMatchObject({ ok: false, reason: 'cancelled' });
+    expect(await queued).toMatchObject({ ok: false, reason: 'pool_closed' });
+    expect(workers[0].terminated).toBe(true);
+  });
+});
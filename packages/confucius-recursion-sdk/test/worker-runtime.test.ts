@@ -0,0 +1,83 @@
+/**
+ * Worker Runtime Test
+ *
+ * Runs the real orchestrator worker (bundled from src) in a worker_threads
+ * Worker: a spawn timeout ends in a signed timeout event and a proof, and an
+ * adapter failure reaches the worker's orchestrator, instead of either
+ * surfacing as a message handler error in main; a worker waiting on a
+ * slow request main is still serving stays alive.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Worker } from 'worker_threads';
+import { runWithWorker, type ConfuciusAdapter } from '../src/index.js';
+import { buildWorker } from './fixtures/build-worker.js';
+
+let workerPath: string;
+
+beforeAll(async () => {
+  workerPath = await buildWorker();
+}, 60000);
+
+const hostInfo = () => ({ host: 'copilot' as const, strictMode: false, capabilities: ['runModel', 'runSubagent'] });
+
+describe('Worker Runtime Test', () => {
+  it('should record a spawn timeout in the trace and still return the proof', async () => {
+    // Never answers on its own; resolves only through the abort
+    const adapter: ConfuciusAdapter = {
+      getRuntimeInfo: hostInfo,
+      runModel: async () => '{}',
+      runSubagent: ({ signal }) => new Promise((_, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('spawn_aborted')), { once: true });
+      })
+    };
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      spawnTimeoutMs: 200,
+      createWorker: () => new Worker(workerPath)
+    });
+
+    expect(result.ok).toBe(true);
+    const proof = result.result as { ok: boolean; trace: { kind: string }[] };
+    expect(proof.ok).toBe(false);
+    expect(proof.trace.map(e => e.kind)).toContain('timeout');
+  });
+
+  it('should keep a worker alive while main is still serving its slow request', async () => {
+    // Each subagent call outlasts the liveness timeout several times over
+    const adapter: ConfuciusAdapter = {
+      getRuntimeInfo: hostInfo,
+      runModel: async () => '{}',
+      runSubagent: () => new Promise(resolve => setTimeout(() => resolve('{}'), 1000))
+    };
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      livenessTimeoutMs: 300,
+      createWorker: () => new Worker(workerPath)
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.reason).toBeUndefined();
+  }, 20000);
+
+  it('should hand adapter failures back to the worker orchestrator', async () => {
+    const adapter: ConfuciusAdapter = {
+      getRuntimeInfo: hostInfo,
+      runModel: async () => '{}',
+      runSubagent: async () => { throw new Error('host tool crashed'); }
+    };
+
+    const result = await runWithWorker('Audit', {
+      adapter,
+      strictMode: false,
+      createWorker: () => new Worker(workerPath)
+    });
+
+    // The orchestrator received the error and failed the task, not main's message handler
+    expect(result).toEqual({ ok: false, reason: 'worker_error', error: 'host tool crashed' });
+  });
+});